@@ -0,0 +1,140 @@
+// app/TrendChart.tsx
+import type { ChartSpec } from "../lib/charts";
+
+// Plain SVG, no hooks: renders on the server pages and inside chat answers alike
+
+const W = 640;
+const H = 220;
+const PAD = { top: 12, right: 14, bottom: 28, left: 40 };
+const COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c", "#0891b2"];
+const MAX_X_LABELS = 8;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2025-03" → "Mar 25", "2025-03-14" → "3/14"; anything else as-is
+function xLabel(x: string) {
+  const m = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(x);
+  if (!m) return x;
+  if (m[3]) return `${Number(m[2])}/${Number(m[3])}`;
+  return `${MONTHS[Number(m[2]) - 1] ?? m[2]} ${m[1].slice(2)}`;
+}
+
+// Round step (1, 2, 5 × 10^n) giving about four gridlines
+function niceStep(span: number) {
+  const raw = span / 4 || 1;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const f = raw / mag;
+  return (f <= 1 ? 1 : f <= 2 ? 2 : f <= 5 ? 5 : 10) * mag;
+}
+
+function fmtY(v: number) {
+  return Number.isInteger(v) ? String(v) : v.toFixed(Math.abs(v) < 10 ? 2 : 1).replace(/0+$/, "");
+}
+
+export default function TrendChart({ spec }: { spec: ChartSpec }) {
+  const xs = Array.from(new Set(spec.series.flatMap((s) => s.points.map((p) => p.x)))).sort();
+  const ys = spec.series.flatMap((s) => s.points.map((p) => p.y));
+  if (!xs.length || !ys.length) return null;
+
+  const dataMin = Math.min(...ys);
+  const dataMax = Math.max(...ys);
+  let lo = spec.yMin ?? Math.min(0, dataMin);
+  let hi = Math.max(spec.yMax ?? dataMax, dataMax);
+  lo = Math.min(lo, dataMin);
+  if (hi === lo) hi = lo + 1;
+  const step = niceStep(hi - lo);
+  if (spec.yMax === undefined) hi = Math.ceil(hi / step) * step;
+  if (spec.yMin === undefined) lo = Math.floor(lo / step) * step;
+  const ticks: number[] = [];
+  for (let t = lo; t <= hi + step / 1000; t += step) ticks.push(Number(t.toFixed(6)));
+
+  const plotW = W - PAD.left - PAD.right;
+  const plotH = H - PAD.top - PAD.bottom;
+  const band = plotW / xs.length;
+  const xAt = (x: string) => PAD.left + band * (xs.indexOf(x) + 0.5);
+  const yAt = (y: number) => PAD.top + plotH - ((y - lo) / (hi - lo)) * plotH;
+  const labelEvery = Math.ceil(xs.length / MAX_X_LABELS);
+  const barW = (band * 0.7) / spec.series.length;
+
+  return (
+    <figure style={styles.figure}>
+      {spec.title && <figcaption style={styles.title}>{spec.title}</figcaption>}
+      <svg viewBox={`0 0 ${W} ${H}`} style={styles.svg} role="img" aria-label={spec.title}>
+        {ticks.map((t) => (
+          <g key={t}>
+            <line x1={PAD.left} x2={W - PAD.right} y1={yAt(t)} y2={yAt(t)} stroke="rgba(17,24,39,0.08)" />
+            <text x={PAD.left - 6} y={yAt(t) + 4} textAnchor="end" fontSize={10} fill="#6b7280">
+              {fmtY(t)}
+            </text>
+          </g>
+        ))}
+        {xs.map((x, i) =>
+          i % labelEvery === 0 ? (
+            <text key={x} x={xAt(x)} y={H - PAD.bottom + 16} textAnchor="middle" fontSize={10} fill="#6b7280">
+              {xLabel(x)}
+            </text>
+          ) : null
+        )}
+        {spec.yLabel && (
+          <text x={12} y={PAD.top + plotH / 2} fontSize={10} fill="#6b7280" textAnchor="middle" transform={`rotate(-90 12 ${PAD.top + plotH / 2})`}>
+            {spec.yLabel}
+          </text>
+        )}
+
+        {spec.series.map((s, si) => {
+          const color = COLORS[si % COLORS.length];
+          if (spec.kind === "bar") {
+            return (
+              <g key={s.label || si}>
+                {s.points.map((p) => {
+                  const y0 = yAt(Math.max(lo, 0));
+                  const y1 = yAt(p.y);
+                  return (
+                    <rect key={p.x} x={xAt(p.x) - (band * 0.7) / 2 + si * barW} y={Math.min(y0, y1)} width={barW} height={Math.abs(y0 - y1)} fill={color}>
+                      <title>{`${s.label} • ${xLabel(p.x)}: ${fmtY(p.y)}`}</title>
+                    </rect>
+                  );
+                })}
+              </g>
+            );
+          }
+          const pts = s.points.slice().sort((a, b) => a.x.localeCompare(b.x));
+          return (
+            <g key={s.label || si}>
+              <polyline points={pts.map((p) => `${xAt(p.x)},${yAt(p.y)}`).join(" ")} fill="none" stroke={color} strokeWidth={2} />
+              {pts.map((p) => (
+                <circle key={p.x} cx={xAt(p.x)} cy={yAt(p.y)} r={3} fill={color}>
+                  <title>{`${s.label} • ${xLabel(p.x)}: ${fmtY(p.y)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      {spec.series.length > 1 && (
+        <div style={styles.legend}>
+          {spec.series.map((s, si) => (
+            <span key={s.label || si} style={styles.legendItem}>
+              <span style={{ ...styles.swatch, background: COLORS[si % COLORS.length] }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  figure: {
+    margin: "10px 0",
+    padding: 12,
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    background: "white",
+  },
+  title: { fontSize: 13, fontWeight: 700, color: "#111827", marginBottom: 6 },
+  svg: { width: "100%", height: "auto", display: "block" },
+  legend: { display: "flex", flexWrap: "wrap", gap: 12, marginTop: 6, fontSize: 12, color: "#6b7280" },
+  legendItem: { display: "inline-flex", alignItems: "center", gap: 6 },
+  swatch: { width: 10, height: 10, borderRadius: 3, display: "inline-block" },
+};
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../../../lib/supabaseServer";
+import { IMPORT_ROLES, accessTokenFromRequest, authErrorResponse, listMemberships, requireTeamContext, requireUser } from "../../../../../lib/auth";
+import { getBatch, rollbackBatch } from "../../../../../lib/importBatches";
+
+export const runtime = "nodejs";
+
+// Sign-in first, and another team's batch reads as missing, so batch ids can't be probed
+async function loadAuthorized(req: Request, id: string) {
+  const token = accessTokenFromRequest(req);
+  const supabase = supabaseService();
+  const signedIn = await requireUser(token);
+  const batch = await getBatch(supabase, id);
+  if (!batch) return { batch: null, user: null };
+  const memberships = await listMemberships(supabase, signedIn.id);
+  if (!memberships.some((m) => m.team_id === batch.team_id)) return { batch: null, user: null };
+  const { user } = await requireTeamContext(token, { teamId: batch.team_id, roles: IMPORT_ROLES });
+  return { batch, user };
+}
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { batch } = await loadAuthorized(req, params.id);
+    if (!batch) return NextResponse.json({ error: "Import batch not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, batch });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
+
+// DELETE /api/import/batches/:id → roll the upload back (removes rows it added, restores rows it overwrote)
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { batch, user } = await loadAuthorized(req, params.id);
+    if (!batch) return NextResponse.json({ error: "Import batch not found" }, { status: 404 });
+    if (batch.status === "rolled_back") {
+      return NextResponse.json({ error: "This import is already rolled back" }, { status: 409 });
+    }
+
+    const removed = await rollbackBatch(supabaseService(), batch.id, user!.id);
+    return NextResponse.json({ ok: true, batchId: batch.id, removed });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
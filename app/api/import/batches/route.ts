@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../../lib/supabaseServer";
+import { IMPORT_ROLES, accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../../lib/auth";
+import { listBatches } from "../../../../lib/importBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/import/batches?teamId=... → past uploads for the team, newest first
+export async function GET(req: Request) {
+  try {
+    const teamId = new URL(req.url).searchParams.get("teamId") ?? "";
+    if (!teamId) return NextResponse.json({ error: "teamId required" }, { status: 400 });
+
+    await requireTeamContext(accessTokenFromRequest(req), { teamId, roles: IMPORT_ROLES });
+
+    const batches = await listBatches(supabaseService(), teamId);
+    return NextResponse.json({ ok: true, batches });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
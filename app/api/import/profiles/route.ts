@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../../lib/supabaseServer";
+import { IMPORT_ROLES, accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../../lib/auth";
+import { CANONICAL_STAT_KEYS, PLAYER_ROW_FIELDS, listProfiles, saveProfile } from "../../../../lib/importProfiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/import/profiles?teamId=... → built-in + saved profiles, and the targets a column can map to
+export async function GET(req: Request) {
+  try {
+    const teamId = new URL(req.url).searchParams.get("teamId") ?? "";
+    if (!teamId) return NextResponse.json({ error: "teamId required" }, { status: 400 });
+
+    await requireTeamContext(accessTokenFromRequest(req), { teamId, roles: IMPORT_ROLES });
+
+    const profiles = await listProfiles(supabaseService(), teamId);
+    return NextResponse.json({ ok: true, profiles, targets: { fields: PLAYER_ROW_FIELDS, statKeys: CANONICAL_STAT_KEYS } });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
+
+// POST { teamId, name, source, columns } → save a profile for the team
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const teamId = String(body?.teamId ?? "").trim();
+    const name = String(body?.name ?? "").trim();
+    const source = String(body?.source ?? "").trim();
+    const columns = body?.columns;
+
+    if (!teamId) return NextResponse.json({ error: "teamId required" }, { status: 400 });
+    if (!name) return NextResponse.json({ error: "name required" }, { status: 400 });
+    if (!columns || typeof columns !== "object" || Array.isArray(columns)) {
+      return NextResponse.json({ error: "columns must be an object of header → target" }, { status: 400 });
+    }
+
+    const { user } = await requireTeamContext(accessTokenFromRequest(req), { teamId, roles: IMPORT_ROLES });
+
+    let id: string;
+    try {
+      id = await saveProfile(supabaseService(), { teamId, name, source, columns, createdBy: user.id });
+    } catch (err: any) {
+      return NextResponse.json({ error: err?.message ?? String(err) }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true, id });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
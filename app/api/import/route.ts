@@ -1,61 +1,77 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { IMPORT_ROLES, accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../lib/auth";
+import { CsvParseError, decodeCsvBytes, normalizeDecimalCommas, parseCsv } from "../../../lib/csv";
+import { buildImportPreview, detectImportType } from "../../../lib/importRows";
+import { detectProfile, listProfiles, type MappingProfile } from "../../../lib/importProfiles";
+import {
+  commitBatch,
+  createBatch,
+  failBatch,
+  findCommittedBatchByHash,
+  hashFile,
+  stageRows,
+} from "../../../lib/importBatches";
+import { ndjsonStream } from "../../../lib/ndjson";
 
 export const runtime = "nodejs";
 
-// Very simple CSV parser (OK for plain CSV without quoted commas)
-function csvToRows(text: string) {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-  if (lines.length < 2) return [];
-
-  const header = lines[0].split(",").map((s) => s.trim());
-  const rows: any[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(",").map((s) => s.trim());
-    const obj: any = {};
-    header.forEach((h, idx) => (obj[h] = values[idx] ?? ""));
-    rows.push(obj);
-  }
-  return rows;
-}
-
 function assertEnv(name: string) {
   if (!process.env[name]) throw new Error(`Missing env var: ${name}`);
 }
 
-function toInt(v: any) {
-  const n = Number(String(v ?? "").trim());
-  return Number.isFinite(n) ? n : null;
-}
-
-function toDateISO(v: any) {
-  const s = String(v ?? "").trim();
-  if (!s) return null;
-  // expecting YYYY-MM-DD in your master file
-  return s;
+function isTruthy(v: FormDataEntryValue | null) {
+  const s = String(v ?? "").trim().toLowerCase();
+  return s === "1" || s === "true" || s === "yes";
 }
 
 export async function GET() {
-  return NextResponse.json({ ok: true, route: "/api/import", methods: ["GET", "POST"] });
+  return NextResponse.json({ ok: true, route: "/api/import", methods: ["GET", "POST"], options: ["dryRun"] });
 }
 
 export async function POST(req: Request) {
   try {
     const form = await req.formData();
 
-    const secret = String(form.get("secret") ?? "");
-    if (!process.env.IMPORT_SECRET || secret !== process.env.IMPORT_SECRET) {
-      return NextResponse.json({ error: "Unauthorized (bad IMPORT_SECRET)" }, { status: 401 });
-    }
-
     const teamId = String(form.get("teamId") ?? "").trim();
     const season = String(form.get("season") ?? "").trim() as "fall" | "spring" | "summer"; // still used for player stats imports
+    const dryRun = isTruthy(form.get("dryRun"));
+    const profileId = String(form.get("profileId") ?? "").trim(); // "" / "auto" → detect from headers
     const file = form.get("file");
 
     if (!teamId) return NextResponse.json({ error: "teamId required" }, { status: 400 });
     if (!(file instanceof File)) return NextResponse.json({ error: "file required" }, { status: 400 });
 
+    // Only head coaches and directors of this team may import (or preview an import)
+    const { user } = await requireTeamContext(accessTokenFromRequest(req), { teamId, roles: IMPORT_ROLES });
+
+    // Decode (BOM / UTF-16 / Windows-1252) and parse (RFC 4180, delimiter auto-detected)
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const fileHash = hashFile(bytes);
+    const { text, encoding } = decodeCsvBytes(bytes);
+    let parsed: ReturnType<typeof parseCsv>;
+    try {
+      parsed = parseCsv(text);
+    } catch (err: any) {
+      if (err instanceof CsvParseError) {
+        return NextResponse.json(
+          { error: err.message, line: err.line, reason: err.reason, encoding },
+          { status: 400 }
+        );
+      }
+      throw err;
+    }
+
+    const { delimiter } = parsed;
+    const records = parsed.rows.map((r) => ({
+      line: r.line,
+      values: delimiter === ";" ? normalizeDecimalCommas(r.values) : r.values,
+    }));
+
+    if (records.length === 0) {
+      return NextResponse.json({ error: "CSV parsed 0 data rows (check headers / formatting)" }, { status: 400 });
+    }
+
     assertEnv("NEXT_PUBLIC_SUPABASE_URL");
     assertEnv("SUPABASE_SERVICE_ROLE_KEY");
 
@@ -64,98 +80,100 @@ export async function POST(req: Request) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const text = await file.text();
-    const rows = csvToRows(text);
-
-    if (rows.length === 0) {
-      return NextResponse.json({ error: "CSV parsed 0 data rows (check headers / formatting)" }, { status: 400 });
+    // Player stats: pick the mapping profile (chosen, or auto-detected from the headers)
+    let profile: MappingProfile | undefined;
+    let profileDetected = false;
+    if (detectImportType(parsed.header) === "player_game_stats") {
+      const profiles = await listProfiles(supabase, teamId);
+      if (profileId && profileId !== "auto") {
+        profile = profiles.find((p) => p.id === profileId);
+        if (!profile) return NextResponse.json({ error: `Unknown mapping profile: ${profileId}` }, { status: 400 });
+      } else {
+        profile = detectProfile(profiles, parsed.header).profile;
+        profileDetected = true;
+      }
     }
 
-    // Detect which kind of CSV this is by looking at headers
-    const first = rows[0] ?? {};
-    const keys = new Set(Object.keys(first));
-
-    const isMatchResults =
-      keys.has("match_date") &&
-      keys.has("opponent") &&
-      keys.has("result") &&
-      (keys.has("tournament") || keys.has("score"));
-
-    // =========================
-    // A) MATCH RESULTS IMPORT
-    // =========================
-    if (isMatchResults) {
-      let inserted = 0;
-
-      for (const r of rows) {
-        const match_date = toDateISO(r["match_date"]);
-        const opponent = String(r["opponent"] ?? "").trim();
-        const result = String(r["result"] ?? "").trim();
-
-        if (!opponent || (result !== "W" && result !== "L")) continue;
-
-        const payload = {
-          team_id: teamId,
-          match_date,
-          tournament: String(r["tournament"] ?? "").trim() || null,
-          round: String(r["round"] ?? "").trim() || null,
-          opponent,
-          result,
-          score: String(r["score"] ?? "").trim() || null,
-
-          sets_won: toInt(r["sets_won"]),
-          sets_lost: toInt(r["sets_lost"]),
-          set_diff: toInt(r["set_diff"]),
-
-          match_win: toInt(r["match_win"]),
-          match_loss: toInt(r["match_loss"]),
-        };
-
-        const { error } = await supabase.from("match_results").insert(payload);
-        if (error) return NextResponse.json({ error: `Supabase insert failed: ${error.message}` }, { status: 500 });
-
-        inserted++;
-      }
+    // Detect the import type from the headers, map columns, validate every row (no writes yet)
+    const preview = buildImportPreview(parsed.header, records, { teamId, season, fileName: file.name ?? null }, profile);
 
-      return NextResponse.json({ ok: true, type: "match_results", rowsParsed: rows.length, rowsInserted: inserted });
+    if (preview.type === "player_game_stats" && !season) {
+      return NextResponse.json({ error: "season required for player stats import" }, { status: 400 });
     }
 
-    // =========================
-    // B) PLAYER GAME STATS IMPORT (existing behavior)
-    // =========================
-    if (!season) return NextResponse.json({ error: "season required for player stats import" }, { status: 400 });
-
-    let rowsInserted = 0;
-
-    for (const r of rows) {
-      const playerName = (r["Name"] || r["Player"] || r["player_name"] || "").trim();
-      if (!playerName) continue;
-
-      const gameDate = (r["GameDate"] || r["game_date"] || r["match_date"] || "").trim() || null;
-      const opponent = (r["Opponent"] || r["opponent"] || "").trim() || null;
-      const sourceFile = (r["SourceFile"] || r["source_file"] || "").trim() || (file.name ?? null);
-      const position = (r["Position"] || r["position"] || "").trim() || null;
-
-      const { Name, Player, GameDate, Opponent, SourceFile, Position, ...rest } = r;
-
-      const { error } = await supabase.from("player_game_stats").insert({
-        team_id: teamId,
-        season,
-        game_date: gameDate,
-        opponent,
-        source_file: sourceFile,
-        player_name: playerName,
-        position,
-        stats: rest,
+    // The exact same file already imported (and not rolled back) → nothing to do
+    const previous = await findCommittedBatchByHash(supabase, teamId, fileHash);
+
+    if (dryRun) {
+      return NextResponse.json({
+        ok: true,
+        dryRun: true,
+        encoding,
+        delimiter,
+        alreadyImported: previous,
+        profileDetected,
+        ...preview,
       });
+    }
 
-      if (error) return NextResponse.json({ error: `Supabase insert failed: ${error.message}` }, { status: 500 });
-
-      rowsInserted++;
+    if (previous) {
+      return NextResponse.json({
+        ok: true,
+        type: preview.type,
+        duplicateOf: previous,
+        rowsParsed: preview.summary.rows,
+        rowsInserted: 0,
+        rowsRejected: preview.summary.rejected,
+        message: `This file was already imported on ${previous.created_at} (batch ${previous.id}). Roll that batch back to re-import it.`,
+      });
     }
 
-    return NextResponse.json({ ok: true, type: "player_game_stats", rowsParsed: rows.length, rowsInserted });
+    const batch = await createBatch(supabase, {
+      team_id: teamId,
+      import_type: preview.type,
+      file_name: file.name ?? null,
+      file_hash: fileHash,
+      created_by: user.id,
+      created_by_email: user.email ?? null,
+      rows_parsed: preview.summary.rows,
+      rows_rejected: preview.summary.rejected,
+    });
+
+    const accepted = preview.rows
+      .filter((r) => r.status === "accepted")
+      .map((r) => ({ line: r.line, payload: r.payload! }));
+
+    // Stage in chunked bulk inserts, then commit in one transaction (upserting on the natural key).
+    // Progress streams back as NDJSON; a failure anywhere leaves the real tables untouched.
+    return ndjsonStream(async (send) => {
+      try {
+        send({ type: "progress", phase: "staging", done: 0, total: accepted.length, batchId: batch.id });
+        await stageRows(supabase, batch.id, accepted, (done, total) =>
+          send({ type: "progress", phase: "staging", done, total, batchId: batch.id })
+        );
+
+        send({ type: "progress", phase: "committing", done: accepted.length, total: accepted.length, batchId: batch.id });
+        const rowsInserted = await commitBatch(supabase, batch.id);
+
+        send({
+          type: "done",
+          ok: true,
+          importType: preview.type,
+          batchId: batch.id,
+          encoding,
+          delimiter,
+          rowsParsed: preview.summary.rows,
+          rowsInserted,
+          rowsRejected: preview.summary.rejected,
+          rejected: preview.rows.filter((r) => r.status === "rejected").map((r) => ({ line: r.line, issues: r.issues })),
+        });
+      } catch (err: any) {
+        const msg = err?.message ?? String(err);
+        await failBatch(supabase, batch.id, msg).catch(() => undefined);
+        send({ type: "error", error: msg, batchId: batch.id });
+      }
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
   }
 }
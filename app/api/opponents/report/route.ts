@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../../lib/auth";
+import { seasonLabel } from "../../../../lib/teamContext";
+import { buildOpponentReport, fetchSiblingMatches, fetchTeamSeasonRows } from "../../../../lib/opponentReport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/opponents/report?teamId=...&seasonId=...&name=Vision → head-to-head scouting report for that club
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const name = (params.get("name") ?? "").trim();
+    if (!name) return NextResponse.json({ error: "name required" }, { status: 400 });
+
+    const { ctx, teams } = await requireTeamContext(accessTokenFromRequest(req), {
+      teamId: params.get("teamId"),
+      seasonId: params.get("seasonId"),
+    });
+    const supabase = supabaseService();
+
+    const [{ matches, statsRows }, siblings] = await Promise.all([
+      fetchTeamSeasonRows(supabase, { teamId: ctx.team.id, season: ctx.season }),
+      fetchSiblingMatches(supabase, { teams, currentTeamId: ctx.team.id, season: ctx.season }),
+    ]);
+
+    const report = buildOpponentReport({ query: name, matches, statsRows, siblings });
+    if (!report) {
+      return NextResponse.json({ error: `No matches vs "${name}" in ${seasonLabel(ctx.season)}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, team_id: ctx.team.id, season_id: ctx.season?.id ?? null, report });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../lib/auth";
+import { withSeasonWindow } from "../../../lib/teamContext";
+import type { MatchRow } from "../../../lib/aggregates";
+import { computeRatings, predictMatch } from "../../../lib/ratings";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/ratings?teamId=...&seasonId=...&opponent=Vision → our rating over time, opponent ratings,
+// and (with `opponent`) the predicted win probability and set score
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const { ctx } = await requireTeamContext(accessTokenFromRequest(req), {
+      teamId: params.get("teamId"),
+      seasonId: params.get("seasonId"),
+    });
+    const supabase = supabaseService();
+
+    const { data, error } = await withSeasonWindow(
+      supabase
+        .from("match_results")
+        .select("match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff,set_scores,points_for,points_against")
+        .eq("team_id", ctx.team.id),
+      "match_date",
+      ctx.season
+    ).limit(5000);
+    if (error) throw error;
+
+    const ratings = computeRatings((data ?? []) as MatchRow[]);
+    const opponent = (params.get("opponent") ?? "").trim();
+
+    return NextResponse.json({
+      ok: true,
+      team_id: ctx.team.id,
+      season_id: ctx.season?.id ?? null,
+      ratings,
+      prediction: opponent ? predictMatch(ratings, opponent) : null,
+    });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
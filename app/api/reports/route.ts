@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../lib/auth";
+import { seasonLabel } from "../../../lib/teamContext";
+import { toCsv } from "../../../lib/csv";
+import { REPORT_KINDS, isReportKind, loadReport } from "../../../lib/reports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function slug(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+// GET /api/reports?teamId=...&seasonId=...&kind=season|tournament|scouting[&tournament=...|&opponent=...]
+//   → the report as JSON; add &table=players&format=csv to download one of its tables
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const kind = params.get("kind") ?? "season";
+    if (!isReportKind(kind)) {
+      return NextResponse.json({ error: `kind must be one of: ${REPORT_KINDS.map((k) => k.kind).join(", ")}` }, { status: 400 });
+    }
+    const tournament = (params.get("tournament") ?? "").trim();
+    const opponent = (params.get("opponent") ?? "").trim();
+    if (kind === "tournament" && !tournament) return NextResponse.json({ error: "tournament required" }, { status: 400 });
+    if (kind === "scouting" && !opponent) return NextResponse.json({ error: "opponent required" }, { status: 400 });
+
+    const { ctx, teams } = await requireTeamContext(accessTokenFromRequest(req), {
+      teamId: params.get("teamId"),
+      seasonId: params.get("seasonId"),
+    });
+
+    const { report } = await loadReport(supabaseService(), { ctx, teams, kind, tournament, opponent });
+    if (!report) {
+      const what = kind === "tournament" ? `"${tournament}"` : `matches vs "${opponent}"`;
+      return NextResponse.json({ error: `No ${what} in ${seasonLabel(ctx.season)}` }, { status: 404 });
+    }
+
+    if (params.get("format") === "csv") {
+      const key = params.get("table") ?? "";
+      const table = report.tables.find((t) => t.key === key);
+      if (!table) {
+        return NextResponse.json({ error: `table must be one of: ${report.tables.map((t) => t.key).join(", ")}` }, { status: 400 });
+      }
+      const name = [ctx.team.name, seasonLabel(ctx.season), kind === "season" ? "" : tournament || opponent, table.key].filter(Boolean).map(slug).join("_");
+      return new NextResponse(toCsv(table.columns, table.rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${name}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ ok: true, team_id: ctx.team.id, season_id: ctx.season?.id ?? null, report });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
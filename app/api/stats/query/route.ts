@@ -1,11 +1,20 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../../lib/auth";
+import { seasonLabel, withSeasonWindow } from "../../../../lib/teamContext";
+import { computeAggregates, type StatRow } from "../../../../lib/aggregates";
+import { fetchPlayerMetrics, listMetricConflicts, mergePlayerFacts } from "../../../../lib/playerMetrics";
+import {
+  availableMetrics,
+  formatMetric,
+  metricLeaderboards,
+  metricLeaders,
+  metricsForStatKeys,
+  thresholdText,
+} from "../../../../lib/metrics";
 
 export const runtime = "nodejs";
 
-const TEAM_ID = "7d5c9d23-e78c-4b08-8869-64cece1acee5";
-const SEASON = "fall";
-
 // Helper: pick likely stat keys from the user's question
 function pickKeysFromQuestion(allKeys: string[], question: string) {
   const q = question.toLowerCase();
@@ -54,16 +63,25 @@ export async function POST(req: Request) {
     const question = String(body?.question ?? "").trim();
     if (!question) return NextResponse.json({ error: "question required" }, { status: 400 });
 
+    const { ctx } = await requireTeamContext(accessTokenFromRequest(req), {
+      teamId: body?.team_id,
+      seasonId: body?.season_id,
+    });
+
     // Pull all stats rows (for the season/team) — your dataset is small enough for this MVP
-    const { data, error } = await supabase
-      .from("player_game_stats")
-      .select("player_name, stats")
-      .eq("team_id", TEAM_ID)
-      .eq("season", SEASON)
-      .limit(100000);
+    const { data, error } = await withSeasonWindow(
+      supabase
+        .from("player_game_stats")
+        .select("player_name, position, game_date, opponent, stats")
+        .eq("team_id", ctx.team.id),
+      "game_date",
+      ctx.season
+    ).limit(100000);
 
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
+    const metricRows = await fetchPlayerMetrics(supabase, { teamId: ctx.team.id, season: ctx.season?.season ?? null });
+
     // Collect all available stat keys from the data
     const allKeysSet = new Set<string>();
     for (const row of data ?? []) {
@@ -109,7 +127,7 @@ export async function POST(req: Request) {
 
     // Produce a compact “facts” summary for the model
     const facts: string[] = [];
-    facts.push(`Team: MVVC 14 Black | Season: ${SEASON}`);
+    facts.push(`Team: ${ctx.team.name} | Season: ${seasonLabel(ctx.season)}`);
     facts.push(`Available stat keys (sample): ${allKeys.slice(0, 30).join(", ")}${allKeys.length > 30 ? ", ..." : ""}`);
     facts.push(`Keys selected for this question: ${keys.join(", ") || "(none)"}`);
 
@@ -122,8 +140,44 @@ export async function POST(req: Request) {
       facts.push(`Top ${k}: ` + leaderboard.map((x) => `${x.player_name}=${x.value}`).join(" | "));
     }
 
-    return NextResponse.json({ ok: true, facts: facts.join("\n") });
+    const agg = computeAggregates([], (data ?? []) as StatRow[]);
+
+    // Efficiency leaders (qualified players only) for metrics built on the selected keys, else all of them
+    const related = metricsForStatKeys(keys, agg.availableStatKeys);
+    const metricDefs = related.length ? related : availableMetrics(agg.availableStatKeys);
+    for (const def of metricDefs) {
+      const { leaders, unqualified } = metricLeaders(agg.byPlayer, def, 8);
+      const min = thresholdText(def);
+      facts.push(
+        `Top ${def.label}${min ? ` (${min}; ${unqualified} below)` : ""}: ` +
+          (leaders.map((x) => `${x.player}=${formatMetric(def, x.value)}`).join(" | ") || "(nobody qualifies)")
+      );
+    }
+
+    // Precomputed player_metrics alongside the computed totals, each labeled with its source
+    const players = mergePlayerFacts(agg.byPlayer, metricRows);
+    for (const name of Object.keys(players).sort()) {
+      const pre = players[name].precomputed;
+      const keysPre = Object.keys(pre).sort();
+      if (!keysPre.length) continue;
+      const parts = keysPre.map((k) => `${k}=${pre[k].value ?? pre[k].text ?? "—"} [${pre[k].source}]`);
+      facts.push(`Precomputed for ${name}: ${parts.join(" | ")}`);
+    }
+    for (const c of listMetricConflicts(players)) {
+      facts.push(
+        `Disagreement for ${c.player} ${c.metric_key}: precomputed=${c.precomputed} [${c.precomputedSource}] vs computed=${c.computed} [${c.computedSource}: ${c.computedFrom}]`
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      team_id: ctx.team.id,
+      season_id: ctx.season?.id ?? null,
+      facts: facts.join("\n"),
+      players,
+      metrics: metricLeaderboards(agg.byPlayer, agg.availableStatKeys, 8),
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: String(e?.message ?? e) }, { status: 500 });
+    return authErrorResponse(e) ?? NextResponse.json({ error: String(e?.message ?? e) }, { status: 500 });
   }
 }
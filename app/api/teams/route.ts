@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, listTeamsForUser, requireUser } from "../../../lib/auth";
+import { defaultSeason, listSeasons } from "../../../lib/teamContext";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The signed-in user's teams (with role) + their season windows, for the team/season pickers.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(accessTokenFromRequest(req));
+    const supabase = supabaseService();
+    const teams = await listTeamsForUser(supabase, user.id);
+
+    const out = await Promise.all(
+      teams.map(async (t) => {
+        const seasons = await listSeasons(supabase, t.id);
+        return { ...t, seasons, defaultSeasonId: defaultSeason(seasons)?.id ?? null };
+      })
+    );
+
+    return NextResponse.json({ ok: true, user: { id: user.id, email: user.email ?? null }, teams: out });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
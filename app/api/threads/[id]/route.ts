@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext, requireUser } from "../../../../lib/auth";
+import { deleteThread, getThread, listMessages, renameThread } from "../../../../lib/chatThreads";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Only the coach who started a thread can see it, and only while still on the team
+async function loadAuthorized(req: Request, id: string) {
+  const token = accessTokenFromRequest(req);
+  const user = await requireUser(token);
+  const thread = await getThread(supabaseService(), id, user.id);
+  if (thread) await requireTeamContext(token, { teamId: thread.team_id });
+  return thread;
+}
+
+// GET /api/threads/:id → the thread + every message, oldest first
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const thread = await loadAuthorized(req, params.id);
+    if (!thread) return NextResponse.json({ error: "Chat thread not found" }, { status: 404 });
+    const messages = await listMessages(supabaseService(), thread.id);
+    return NextResponse.json({ ok: true, thread, messages });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
+
+// PATCH { title } → rename
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const title = String(body?.title ?? "").trim().slice(0, 120);
+    if (!title) return NextResponse.json({ error: "title required" }, { status: 400 });
+
+    const thread = await loadAuthorized(req, params.id);
+    if (!thread) return NextResponse.json({ error: "Chat thread not found" }, { status: 404 });
+
+    await renameThread(supabaseService(), thread.id, title);
+    return NextResponse.json({ ok: true, id: thread.id, title });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
+
+// DELETE → remove the thread and its messages
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const thread = await loadAuthorized(req, params.id);
+    if (!thread) return NextResponse.json({ error: "Chat thread not found" }, { status: 404 });
+
+    await deleteThread(supabaseService(), thread.id);
+    return NextResponse.json({ ok: true, id: thread.id });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { accessTokenFromRequest, authErrorResponse, requireTeamContext } from "../../../lib/auth";
+import { listThreads } from "../../../lib/chatThreads";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/threads?teamId=... → the signed-in coach's chats for the team, most recent first
+export async function GET(req: Request) {
+  try {
+    const teamId = new URL(req.url).searchParams.get("teamId") ?? "";
+    if (!teamId) return NextResponse.json({ error: "teamId required" }, { status: 400 });
+
+    const { user } = await requireTeamContext(accessTokenFromRequest(req), { teamId });
+
+    const threads = await listThreads(supabaseService(), { userId: user.id, teamId });
+    return NextResponse.json({ ok: true, threads });
+  } catch (e: any) {
+    return authErrorResponse(e) ?? NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
+  }
+}
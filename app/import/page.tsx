@@ -1,65 +1,259 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { getBrowserSession } from "../../lib/supabaseClient";
+import { readNdjson } from "../../lib/ndjson";
+
+type TeamOption = { id: string; name: string; role: string };
+
+type FieldIssue = { field: string; column: string | null; kind: "rejected" | "coerced"; value: string; to?: any; reason: string };
+type RowReport = { line: number; status: "accepted" | "rejected"; issues: FieldIssue[]; payload: Record<string, any> | null };
+type Batch = {
+  id: string;
+  import_type: string;
+  file_name: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  rows_parsed: number;
+  rows_written: number;
+  rows_rejected: number;
+  status: "committed" | "failed" | "rolled_back";
+};
+type Profile = { id: string; name: string; source: string; builtin: boolean; columns: Record<string, string> };
+type Preview = {
+  type: "match_results" | "player_game_stats" | "rallies";
+  alreadyImported: Batch | null;
+  profile: { id: string; name: string; source: string } | null;
+  profileDetected: boolean;
+  encoding: string;
+  delimiter: string;
+  mapping: Array<{ column: string; field: string }>;
+  rows: RowReport[];
+  summary: { rows: number; accepted: number; rejected: number; coerced: number };
+};
+
+// Mirrors IMPORT_ROLES in lib/auth.ts (the server enforces it; this only trims the picker)
+const IMPORT_ROLES = ["head_coach", "director"];
+
+const RAW = "__raw__";
 
 export default function ImportPage() {
-  const [secret, setSecret] = useState("");
-  const [teamId, setTeamId] = useState("7d5c9d23-e78c-4b08-8869-64cece1acee5");
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [teamId, setTeamId] = useState("");
   const [season, setSeason] = useState("fall");
   const [file, setFile] = useState<File | null>(null);
   const [msg, setMsg] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [showAllRows, setShowAllRows] = useState(false);
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [progress, setProgress] = useState<{ phase: string; done: number; total: number } | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [targets, setTargets] = useState<{ fields: string[]; statKeys: string[] }>({ fields: [], statKeys: [] });
+  const [profileId, setProfileId] = useState("auto");
+  // Editable copy of the preview mapping (column → target; RAW = keep under its own name, "" = ignore)
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [profileName, setProfileName] = useState("");
+  const [profileSource, setProfileSource] = useState("");
 
-  async function runImport() {
+  useEffect(() => {
+    getBrowserSession()
+      .then((session) => {
+        if (!session) {
+          window.location.replace("/login?next=/import");
+          return null;
+        }
+        return fetch("/api/teams").then((r) => r.json());
+      })
+      .then((data) => {
+        if (!data) return;
+        const all: TeamOption[] = Array.isArray(data?.teams) ? data.teams : [];
+        const list = all.filter((t) => IMPORT_ROLES.includes(t.role));
+        setTeams(list);
+        if (list[0]) setTeamId(list[0].id);
+        else setMsg("Only head coaches and directors can import. You don't have that role on any team.");
+      })
+      .catch(() => setTeams([]));
+  }, []);
+
+  async function loadBatches(id: string) {
+    if (!id) return setBatches([]);
+    try {
+      const res = await fetch(`/api/import/batches?teamId=${encodeURIComponent(id)}`);
+      const json = await res.json();
+      setBatches(Array.isArray(json?.batches) ? json.batches : []);
+    } catch {
+      setBatches([]);
+    }
+  }
+
+  async function loadProfiles(id: string) {
+    if (!id) return setProfiles([]);
+    try {
+      const res = await fetch(`/api/import/profiles?teamId=${encodeURIComponent(id)}`);
+      const json = await res.json();
+      setProfiles(Array.isArray(json?.profiles) ? json.profiles : []);
+      if (json?.targets) setTargets(json.targets);
+    } catch {
+      setProfiles([]);
+    }
+  }
+
+  useEffect(() => {
+    loadBatches(teamId);
+    loadProfiles(teamId);
+  }, [teamId]);
+
+  function toTarget(statKey: string) {
+    return targets.statKeys.includes(statKey) ? statKey : RAW;
+  }
+
+  async function saveDraftAsProfile() {
+    // Only canonical targets can be saved; RAW columns are kept under their own name anyway
+    const columns: Record<string, string> = {};
+    for (const column of Object.keys(draft)) if (draft[column] !== RAW) columns[column] = draft[column];
+
+    const res = await fetch("/api/import/profiles", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ teamId, name: profileName.trim(), source: profileSource.trim(), columns }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setMsg(`Could not save profile: ${json?.error ?? res.statusText}`);
+      return;
+    }
+    await loadProfiles(teamId);
+    setProfileId(json.id);
+    setMsg(`Saved profile "${profileName.trim()}". Click Preview to re-check the file with it.`);
+  }
+
+  async function rollback(b: Batch) {
+    if (!window.confirm(`Roll back "${b.file_name ?? b.id}"? Rows it added will be deleted and rows it overwrote restored.`)) return;
+    const res = await fetch(`/api/import/batches/${b.id}`, { method: "DELETE" });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) setMsg(`Rollback failed: ${json?.error ?? res.statusText}`);
+    else {
+      const removed = json.removed.matchRows + json.removed.playerRows + json.removed.rallyRows;
+      setMsg(`Rolled back ${b.file_name ?? b.id}: removed ${removed} rows, restored ${json.removed.restoredRows} earlier versions.`);
+    }
+    loadBatches(teamId);
+  }
+
+  // Any change to the inputs invalidates the preview (the coach must re-check before committing)
+  useEffect(() => {
+    setPreview(null);
+  }, [teamId, season, file, profileId]);
+
+  async function postImport(dryRun: boolean) {
+    const form = new FormData();
+    form.append("teamId", teamId);
+    form.append("season", season);
+    form.append("file", file as File);
+    form.append("profileId", profileId);
+    if (dryRun) form.append("dryRun", "1");
+
+    const res = await fetch("/api/import", { method: "POST", body: form });
+
+    // Real imports stream NDJSON progress events; everything else is a single JSON body
+    if (res.ok && res.body && (res.headers.get("content-type") ?? "").includes("ndjson")) {
+      return readImportStream(res.body);
+    }
+
+    const raw = await res.text();
+    let json: any = null;
+    try { json = JSON.parse(raw); } catch {}
+
+    if (!res.ok) throw new Error(json?.error ?? raw ?? res.statusText);
+    return json;
+  }
+
+  async function readImportStream(body: ReadableStream<Uint8Array>) {
+    let final: any = null;
+    await readNdjson(body, (event) => {
+      if (event.type === "progress") setProgress({ phase: event.phase, done: event.done, total: event.total });
+      if (event.type === "error") throw new Error(`${event.error} (nothing was written)`);
+      if (event.type === "done") final = event;
+    });
+
+    if (!final) throw new Error("Import stream ended early; check Past imports for the batch status.");
+    return final;
+  }
+
+  async function runPreview() {
     try {
-      setMsg("Uploading...");
       if (!file) {
         setMsg("Please choose a CSV file first.");
         return;
       }
+      setMsg("Checking file...");
+      const json = await postImport(true);
+      setPreview(json as Preview);
+      setShowAllRows(false);
+      setDraft(
+        Object.fromEntries(
+          (json as Preview).mapping.map((m) => [
+            m.column,
+            m.field === "(ignored)" ? "" : m.field.startsWith("stats.") ? toTarget(m.field.slice(6)) : m.field,
+          ])
+        )
+      );
+      setMsg("");
+    } catch (e: any) {
+      setPreview(null);
+      setMsg(`Preview failed: ${e?.message ?? String(e)}`);
+    }
+  }
 
-      const form = new FormData();
-      form.append("secret", secret);
-      form.append("teamId", teamId);
-      form.append("season", season);
-      form.append("file", file);
-
-      const res = await fetch("/api/import", { method: "POST", body: form });
-      const raw = await res.text();
-      let json: any = null;
-      try { json = JSON.parse(raw); } catch {}
+  async function runImport() {
+    try {
+      if (!file) {
+        setMsg("Please choose a CSV file first.");
+        return;
+      }
+      setMsg("Uploading...");
+      setProgress(null);
+      const json = await postImport(false);
 
-      if (!res.ok) {
-        setMsg(`Import failed: ${json?.error ?? raw ?? res.statusText}`);
+      setPreview(null);
+      loadBatches(teamId);
+      if (json.duplicateOf) {
+        setMsg(json.message);
         return;
       }
 
-      setMsg(`Success! rowsParsed=${json.rowsParsed}, rowsInserted=${json.rowsInserted}`);
+      const delim = json.delimiter === "\t" ? "tab" : json.delimiter;
+      setMsg(
+        `Success! rowsParsed=${json.rowsParsed}, rowsInserted=${json.rowsInserted}, rowsRejected=${json.rowsRejected}\n` +
+          `(read as ${json.encoding}, "${delim}" delimited)`
+      );
     } catch (e: any) {
       setMsg(`Import failed: ${e?.message ?? String(e)}`);
+      loadBatches(teamId);
+    } finally {
+      setProgress(null);
     }
   }
 
+  const flaggedRows = preview ? preview.rows.filter((r) => r.status === "rejected" || r.issues.length > 0) : [];
+  const visibleRows = preview ? (showAllRows ? preview.rows : flaggedRows) : [];
+
   return (
-    <main style={{ padding: 24, maxWidth: 720 }}>
+    <main style={{ padding: 24, maxWidth: 960 }}>
       <h1>MVVC CSV Import</h1>
 
       <label style={{ display: "block", marginTop: 12 }}>
-        Import Secret
-        <input
-          value={secret}
-          onChange={(e) => setSecret(e.target.value)}
-          style={{ display: "block", width: "100%", padding: 8, marginTop: 6 }}
-          placeholder="mvvc-import-2026!"
-        />
-      </label>
-
-      <label style={{ display: "block", marginTop: 12 }}>
-        Team ID
-        <input
+        Team
+        <select
           value={teamId}
           onChange={(e) => setTeamId(e.target.value)}
           style={{ display: "block", width: "100%", padding: 8, marginTop: 6 }}
-        />
+        >
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
       </label>
 
       <label style={{ display: "block", marginTop: 12 }}>
@@ -75,6 +269,23 @@ export default function ImportPage() {
         </select>
       </label>
 
+      <label style={{ display: "block", marginTop: 12 }}>
+        Mapping profile (player stats)
+        <select
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          style={{ display: "block", width: "100%", padding: 8, marginTop: 6 }}
+        >
+          <option value="auto">Auto-detect from headers</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+              {p.builtin ? "" : " (saved)"}
+            </option>
+          ))}
+        </select>
+      </label>
+
       <label style={{ display: "block", marginTop: 12 }}>
         CSV File
         <input
@@ -85,15 +296,198 @@ export default function ImportPage() {
         />
       </label>
 
-      <button
-        type="button"
-        onClick={runImport}
-        style={{ marginTop: 16, padding: "10px 14px", fontWeight: 600 }}
-      >
-        Import CSV
-      </button>
+      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+        <button type="button" onClick={runPreview} style={{ padding: "10px 14px", fontWeight: 600 }}>
+          Preview
+        </button>
+        <button
+          type="button"
+          onClick={runImport}
+          disabled={!preview || preview.summary.accepted === 0}
+          style={{ padding: "10px 14px", fontWeight: 600 }}
+        >
+          {preview ? `Commit ${preview.summary.accepted} rows` : "Commit import"}
+        </button>
+      </div>
+
+      {progress && (
+        <div style={{ marginTop: 16 }}>
+          <progress value={progress.done} max={Math.max(1, progress.total)} style={{ width: "100%" }} />
+          <div style={{ fontSize: 13 }}>
+            {progress.phase === "committing"
+              ? `Committing ${progress.total} rows in one transaction...`
+              : `Staged ${progress.done} of ${progress.total} rows...`}
+          </div>
+        </div>
+      )}
 
       <p style={{ marginTop: 16, whiteSpace: "pre-wrap" }}>{msg}</p>
+
+      {preview && (
+        <section style={{ marginTop: 16 }}>
+          <h2 style={{ fontSize: 18 }}>Preview (nothing written yet)</h2>
+          {preview.alreadyImported && (
+            <p style={{ color: "#b45309" }}>
+              This exact file was already imported on {preview.alreadyImported.created_at.slice(0, 10)}. Committing again
+              does nothing — roll that import back first if you need to re-import it.
+            </p>
+          )}
+          <p>
+            Detected <b>{preview.type}</b> • read as {preview.encoding}, &quot;
+            {preview.delimiter === "\t" ? "tab" : preview.delimiter}&quot; delimited
+            <br />
+            {preview.summary.rows} rows: <b>{preview.summary.accepted} accepted</b>, {preview.summary.rejected} rejected,{" "}
+            {preview.summary.coerced} with coerced values
+            {preview.profile && (
+              <>
+                <br />
+                Mapping profile: <b>{preview.profile.name}</b>
+                {preview.profileDetected ? " (auto-detected)" : ""}
+              </>
+            )}
+          </p>
+
+          <h3 style={{ fontSize: 15 }}>Column mapping</h3>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>CSV column</th>
+                <th style={cellStyle}>Stored as</th>
+                {preview.type === "player_game_stats" && <th style={cellStyle}>Change to</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.mapping.map((m) => (
+                <tr key={m.column}>
+                  <td style={cellStyle}>{m.column}</td>
+                  <td style={{ ...cellStyle, color: m.field === "(ignored)" ? "#9ca3af" : undefined }}>{m.field}</td>
+                  {preview.type === "player_game_stats" && (
+                    <td style={cellStyle}>
+                      <select
+                        value={draft[m.column] ?? RAW}
+                        onChange={(e) => setDraft((d) => ({ ...d, [m.column]: e.target.value }))}
+                      >
+                        <option value={RAW}>keep as stats.{m.column}</option>
+                        <option value="">(ignore)</option>
+                        {[...targets.fields, ...targets.statKeys].map((t) => (
+                          <option key={t} value={t}>
+                            {t}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {preview.type === "player_game_stats" && (
+            <div style={{ display: "flex", gap: 8, marginTop: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="Profile name" style={{ padding: 6 }} />
+              <input
+                value={profileSource}
+                onChange={(e) => setProfileSource(e.target.value)}
+                placeholder="Stats app (e.g. solostats)"
+                style={{ padding: 6 }}
+              />
+              <button type="button" onClick={saveDraftAsProfile} disabled={!profileName.trim()} style={{ fontSize: 12 }}>
+                Save mapping as profile
+              </button>
+            </div>
+          )}
+
+          <h3 style={{ fontSize: 15, marginTop: 16 }}>
+            {showAllRows ? "All rows" : `Rows needing attention (${flaggedRows.length})`}{" "}
+            <button type="button" onClick={() => setShowAllRows((v) => !v)} style={{ marginLeft: 8, fontSize: 12 }}>
+              {showAllRows ? "Show flagged only" : "Show all rows"}
+            </button>
+          </h3>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Line</th>
+                <th style={cellStyle}>Status</th>
+                <th style={cellStyle}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((r) => (
+                <tr key={r.line}>
+                  <td style={cellStyle}>{r.line}</td>
+                  <td style={{ ...cellStyle, color: r.status === "accepted" ? "#15803d" : "#b91c1c", fontWeight: 600 }}>
+                    {r.status}
+                  </td>
+                  <td style={cellStyle}>
+                    {r.issues.length === 0 && "OK"}
+                    {r.issues.map((x, idx) => (
+                      <div key={idx}>
+                        <b>{x.kind}</b> {x.column ?? x.field}: {x.value ? `"${x.value}"` : "(empty)"}
+                        {x.kind === "coerced" ? ` → ${x.to === null ? "null" : JSON.stringify(x.to)}` : ""} — {x.reason}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td style={cellStyle} colSpan={3}>
+                    Every row is clean.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section style={{ marginTop: 24 }}>
+        <h2 style={{ fontSize: 18 }}>Past imports</h2>
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>When</th>
+              <th style={cellStyle}>File</th>
+              <th style={cellStyle}>Type</th>
+              <th style={cellStyle}>By</th>
+              <th style={cellStyle}>Rows (written / rejected)</th>
+              <th style={cellStyle}>Status</th>
+              <th style={cellStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {batches.map((b) => (
+              <tr key={b.id}>
+                <td style={cellStyle}>{new Date(b.created_at).toLocaleString()}</td>
+                <td style={cellStyle}>{b.file_name ?? "—"}</td>
+                <td style={cellStyle}>{b.import_type}</td>
+                <td style={cellStyle}>{b.created_by_email ?? "—"}</td>
+                <td style={cellStyle}>
+                  {b.rows_written} / {b.rows_rejected}
+                </td>
+                <td style={cellStyle}>{b.status}</td>
+                <td style={cellStyle}>
+                  {b.status !== "rolled_back" && (
+                    <button type="button" onClick={() => rollback(b)} style={{ fontSize: 12 }}>
+                      Roll back
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {batches.length === 0 && (
+              <tr>
+                <td style={cellStyle} colSpan={7}>
+                  No imports yet for this team.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
     </main>
   );
 }
+
+const tableStyle: React.CSSProperties = { borderCollapse: "collapse", width: "100%", fontSize: 13, background: "#fff" };
+const cellStyle: React.CSSProperties = { border: "1px solid #e5e7eb", padding: "6px 8px", textAlign: "left", verticalAlign: "top" };
@@ -0,0 +1,278 @@
+// app/lineup/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../lib/auth";
+import { resolveTeamContext, seasonLabel, withSeasonWindow } from "../../lib/teamContext";
+import { computeAggregates, type StatRow } from "../../lib/aggregates";
+import { BACK_ROW, FRONT_ROW, ROLE_LABELS, buildLineups, type Lineup, type Rotation } from "../../lib/lineup";
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function LineupPage({ searchParams }: { searchParams: { team?: string; season?: string; out?: string } }) {
+  const supabase = supabaseService();
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect("/login?next=/lineup");
+
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Lineup</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  const { data, error } = await withSeasonWindow(
+    supabase
+      .from("player_game_stats")
+      .select("player_name,position,game_date,opponent,stats")
+      .eq("team_id", ctx.team.id),
+    "game_date",
+    ctx.season
+  ).limit(15000);
+
+  if (error) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Lineup</h1>
+        <p style={styles.error}>Error loading player_game_stats: {error.message}</p>
+      </main>
+    );
+  }
+
+  // "out" = comma-separated players who aren't available (injury, travel)
+  const out = String(searchParams?.out ?? "")
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+
+  const agg = computeAggregates([], (data ?? []) as StatRow[]);
+  const lineups = buildLineups(agg.byPlayer, { unavailable: out });
+
+  return (
+    <main style={styles.page}>
+      <header style={styles.header}>
+        <div>
+          <div style={styles.kicker}>
+            {ctx.team.name} • {seasonLabel(ctx.season)}
+          </div>
+          <h1 style={styles.h1}>Starting rotations</h1>
+        </div>
+
+        <form method="get" style={styles.picker}>
+          <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+            <option value="">Current season</option>
+            {ctx.seasons.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+          <input name="out" defaultValue={out.join(", ")} placeholder="Unavailable (comma-separated)" style={styles.input} />
+          <button type="submit" style={styles.pickerButton}>
+            Apply
+          </button>
+        </form>
+      </header>
+
+      {lineups.unlistedPositions.length > 0 && (
+        <p style={styles.notice}>
+          No position on file for {lineups.unlistedPositions.join(", ")}. They only fill spots nobody listed at that position can.
+        </p>
+      )}
+
+      <LineupSection title="5–1" subtitle="one setter; three front-row attackers in rotations 1–3" lineup={lineups.fiveOne} />
+      <LineupSection title="6–2" subtitle="two setters, each sets from the back row" lineup={lineups.sixTwo} />
+    </main>
+  );
+}
+
+function LineupSection({ title, subtitle, lineup }: { title: string; subtitle: string; lineup: Lineup | null }) {
+  return (
+    <section style={styles.section}>
+      <h2 style={styles.h2}>
+        {title} <span style={styles.smallMuted}>{subtitle}</span>
+      </h2>
+      <div style={styles.underline} />
+
+      {!lineup ? (
+        <p style={styles.smallMuted}>Not enough players listed at the needed positions for a {title}.</p>
+      ) : (
+        <>
+          <div style={styles.orderRow}>
+            {lineup.order.map((s, i) => (
+              <span key={s.player} style={styles.pill} title={ROLE_LABELS[s.role]}>
+                {i + 1}. {s.player} <b>{s.role}</b>
+              </span>
+            ))}
+            {lineup.libero && (
+              <span style={{ ...styles.pill, ...styles.liberoPill }}>
+                {lineup.libero.player} <b>L</b>
+              </span>
+            )}
+            {lineup.specialists.map((s) => (
+              <span key={s.player} style={styles.pill}>
+                {s.player} <b>{s.role} sub</b>
+              </span>
+            ))}
+          </div>
+
+          {lineup.warnings.map((w) => (
+            <p key={w} style={styles.notice}>
+              {w}
+            </p>
+          ))}
+
+          <div style={styles.rotationGrid}>
+            {lineup.rotations.map((r) => (
+              <RotationCard key={r.number} rotation={r} />
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function RotationCard({ rotation: r }: { rotation: Rotation }) {
+  const subFor = new Map(r.subs.map((x) => [x.for, x]));
+  const cell = (z: (typeof FRONT_ROW)[number]) => {
+    const slot = r.zones[z];
+    const sub = subFor.get(slot.player);
+    return (
+      <div key={z} style={{ ...styles.zone, ...(slot.player === r.setter ? styles.zoneSetter : {}) }}>
+        <div style={styles.zoneNum}>{z}</div>
+        <div style={styles.zonePlayer}>{slot.player}</div>
+        <div style={styles.smallMuted}>{slot.role}</div>
+        {sub && (
+          <div style={styles.zoneSub}>
+            ↔ {sub.in} ({sub.inRole}){z === 1 ? " after serve" : ""}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.cardLabel}>
+        Rotation {r.number} • {r.frontRowAttackers} front-row attackers
+      </div>
+      <div style={styles.net}>net</div>
+      <div style={styles.court}>{[...FRONT_ROW, ...BACK_ROW].map(cell)}</div>
+      <div style={styles.smallMuted}>
+        Serves: <b>{r.server}</b> • Sets: <b>{r.setter}</b> (releases from {r.receive.setterReleaseFrom})
+      </div>
+      <div style={styles.smallMuted}>
+        Serve receive: {r.receive.passers.join(", ") || "—"}
+        {r.receive.hidden.length ? ` • hidden: ${r.receive.hidden.join(", ")}` : ""}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 980,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+  },
+  header: { display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, marginBottom: 16 },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white" },
+  input: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, minWidth: 200 },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+  h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
+  h2: { fontSize: 18, margin: "0 0 8px", lineHeight: 1.2 },
+  underline: { height: 2, width: 56, background: "#111827", opacity: 0.12, borderRadius: 99, marginBottom: 12 },
+
+  section: { marginTop: 22 },
+  orderRow: { display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 10 },
+  pill: {
+    display: "inline-block",
+    padding: "4px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(17,24,39,0.10)",
+    background: "rgba(17,24,39,0.02)",
+    fontSize: 12,
+  },
+  liberoPill: { background: "rgba(234,179,8,0.12)", border: "1px solid rgba(234,179,8,0.35)" },
+
+  rotationGrid: { display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(290px, 1fr))", gap: 12 },
+  card: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    padding: 12,
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+  cardLabel: { fontSize: 13, color: "#6b7280", fontWeight: 700 },
+  net: {
+    textAlign: "center",
+    fontSize: 10,
+    letterSpacing: 2,
+    textTransform: "uppercase",
+    color: "#6b7280",
+    borderBottom: "3px double rgba(17,24,39,0.35)",
+  },
+  court: { display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 6 },
+  zone: { position: "relative", border: "1px solid rgba(17,24,39,0.08)", borderRadius: 10, padding: "8px 6px", minHeight: 64, textAlign: "center" },
+  zoneSetter: { background: "rgba(59,130,246,0.08)", border: "1px solid rgba(59,130,246,0.35)" },
+  zoneNum: { position: "absolute", top: 4, left: 6, fontSize: 10, color: "#9ca3af", fontWeight: 700 },
+  zonePlayer: { fontWeight: 750, fontSize: 13, marginTop: 6 },
+  zoneSub: { fontSize: 11, color: "#92400e", marginTop: 2 },
+  smallMuted: { fontSize: 12, color: "#6b7280", fontWeight: 400 },
+
+  notice: {
+    margin: "8px 0",
+    padding: 10,
+    borderRadius: 12,
+    border: "1px solid rgba(234,179,8,0.35)",
+    background: "rgba(234,179,8,0.08)",
+    color: "#854d0e",
+    fontSize: 13,
+  },
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
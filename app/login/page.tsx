@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getBrowserSession, supabaseBrowser } from "../../lib/supabaseClient";
+
+function nextPath() {
+  if (typeof window === "undefined") return "/";
+  const next = new URLSearchParams(window.location.search).get("next") ?? "/";
+  // Only same-site paths; browsers read "/\evil.com" as "//evil.com", so resolve it and compare origins
+  if (!next.startsWith("/") || next.includes("\\")) return "/";
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export default function LoginPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // Already signed in (or a magic link just landed) → go straight to where they were headed
+  useEffect(() => {
+    getBrowserSession().then((session) => {
+      if (session) window.location.replace(nextPath());
+    });
+  }, []);
+
+  async function signInWithPassword() {
+    setMsg("Signing in...");
+    const { error } = await supabaseBrowser().auth.signInWithPassword({ email: email.trim(), password });
+    if (error) {
+      setMsg(`Sign-in failed: ${error.message}`);
+      return;
+    }
+    await getBrowserSession();
+    window.location.replace(nextPath());
+  }
+
+  async function sendMagicLink() {
+    if (!email.trim()) {
+      setMsg("Enter your email first.");
+      return;
+    }
+    setMsg("Sending link...");
+    const { error } = await supabaseBrowser().auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}/login?next=${encodeURIComponent(nextPath())}` },
+    });
+    setMsg(error ? `Could not send link: ${error.message}` : "Check your email for a sign-in link.");
+  }
+
+  return (
+    <main style={{ padding: 24, maxWidth: 420, margin: "40px auto", background: "#fff", borderRadius: 14 }}>
+      <h1>Coach sign-in</h1>
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        Email
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          style={{ display: "block", width: "100%", padding: 8, marginTop: 6 }}
+          autoComplete="email"
+        />
+      </label>
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && signInWithPassword()}
+          style={{ display: "block", width: "100%", padding: 8, marginTop: 6 }}
+          autoComplete="current-password"
+        />
+      </label>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+        <button type="button" onClick={signInWithPassword} style={{ padding: "10px 14px", fontWeight: 600 }}>
+          Sign in
+        </button>
+        <button type="button" onClick={sendMagicLink} style={{ padding: "10px 14px" }}>
+          Email me a link
+        </button>
+      </div>
+
+      <p style={{ marginTop: 16, whiteSpace: "pre-wrap" }}>{msg}</p>
+    </main>
+  );
+}
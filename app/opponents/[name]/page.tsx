@@ -0,0 +1,399 @@
+// app/opponents/[name]/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../../lib/auth";
+import { resolveTeamContext, seasonLabel } from "../../../lib/teamContext";
+import { buildOpponentReport, fetchSiblingMatches, fetchTeamSeasonRows, formatRecord } from "../../../lib/opponentReport";
+import { formatSets } from "../../../lib/setScores";
+import { METRIC_BY_KEY, computeMetric, formatMetric } from "../../../lib/metrics";
+import { statLabel } from "../../../lib/intents";
+import { computeRatings, predictMatch, type Prediction } from "../../../lib/ratings";
+
+// Box-score columns for "our lines vs them"
+const LINE_KEYS = ["attack_kills", "attack_errors", "attack_attempts", "setting_assists", "serve_aces", "serve_errors", "digs_successful", "blocks_solo", "blocks_assist"];
+
+function fmtDate(d: string | null) {
+  if (!d) return "";
+  const [y, m, day] = d.split("-");
+  if (!y || !m || !day) return d;
+  return `${m}/${day}/${y.slice(2)}`;
+}
+
+function decodeName(raw: string) {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function OpponentPage({
+  params,
+  searchParams,
+}: {
+  params: { name: string };
+  searchParams: { team?: string; season?: string };
+}) {
+  const supabase = supabaseService();
+  const requested = decodeName(params.name);
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect(`/login?next=/opponents/${encodeURIComponent(requested)}`);
+
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>{requested}</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  let report: ReturnType<typeof buildOpponentReport> = null;
+  let prediction: Prediction | null = null;
+  try {
+    const [{ matches, statsRows }, siblings] = await Promise.all([
+      fetchTeamSeasonRows(supabase, { teamId: ctx.team.id, season: ctx.season }),
+      fetchSiblingMatches(supabase, { teams, currentTeamId: ctx.team.id, season: ctx.season }),
+    ]);
+    report = buildOpponentReport({ query: requested, matches, statsRows, siblings });
+    if (report) prediction = predictMatch(computeRatings(matches), report.club);
+  } catch (e: any) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>{requested}</h1>
+        <p style={styles.error}>Error loading results: {e?.message ?? String(e)}</p>
+      </main>
+    );
+  }
+
+  const hitting = METRIC_BY_KEY.hitting_pct;
+
+  return (
+    <main style={styles.page}>
+      <header style={styles.header}>
+        <div>
+          <div style={styles.kicker}>
+            {ctx.team.name} • {seasonLabel(ctx.season)} • scouting report
+          </div>
+          <h1 style={styles.h1}>vs {report?.club ?? requested}</h1>
+          {report && report.matchedNames.length > 1 && <div style={styles.smallMuted}>Includes: {report.matchedNames.join(", ")}</div>}
+        </div>
+
+        <form method="get" style={styles.picker}>
+          <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+            <option value="">Current season</option>
+            {ctx.seasons.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" style={styles.pickerButton}>
+            Apply
+          </button>
+        </form>
+      </header>
+
+      {!report ? (
+        <p style={styles.error}>
+          No matches vs “{requested}” in {seasonLabel(ctx.season)}.
+        </p>
+      ) : (
+        <>
+          <section style={styles.grid}>
+            <div style={styles.card}>
+              <div style={styles.cardLabel}>Head-to-head</div>
+              <div style={styles.bigStat}>
+                {report.record.wins}-{report.record.losses}
+              </div>
+              <div style={styles.subStat}>{report.matches.length} matches</div>
+            </div>
+            <div style={styles.card}>
+              <div style={styles.cardLabel}>Sets</div>
+              <div style={styles.bigStat}>
+                {report.record.setsWon}-{report.record.setsLost}
+              </div>
+            </div>
+            <div style={styles.card}>
+              <div style={styles.cardLabel}>Points</div>
+              <div style={styles.bigStat}>
+                {report.record.pointsFor - report.record.pointsAgainst > 0 ? "+" : ""}
+                {report.record.pointsFor - report.record.pointsAgainst}
+              </div>
+              <div style={styles.subStat}>
+                {report.record.pointsFor}-{report.record.pointsAgainst} over {report.record.matchesWithScores} matches with set scores
+              </div>
+            </div>
+            {prediction && (
+              <div style={styles.card}>
+                <div style={styles.cardLabel}>Next meeting</div>
+                <div style={styles.bigStat}>{Math.round(prediction.winProbability * 100)}%</div>
+                <div style={styles.subStat}>
+                  likely {prediction.expectedScore} • rating {prediction.ourRating} vs {prediction.theirRating}
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Every meeting</h2>
+            <div style={styles.underline} />
+            <div style={styles.tableWrap}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Date</th>
+                    <th style={styles.th}>Team</th>
+                    <th style={styles.thCenter}>Result</th>
+                    <th style={styles.th}>Sets</th>
+                    <th style={styles.th}>Tournament • Round</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.matches.map((m, idx) => (
+                    <tr key={`${m.date}-${m.opponent}-${idx}`}>
+                      <td style={styles.td}>{fmtDate(m.date)}</td>
+                      <td style={styles.td}>{m.opponent}</td>
+                      <td style={styles.tdCenter}>
+                        <span style={{ ...styles.pill, ...(m.result === "W" ? styles.win : m.result === "L" ? styles.loss : {}) }}>{m.result ?? "—"}</span>
+                      </td>
+                      <td style={styles.td}>{m.sets ? formatSets(m.sets) : m.score ?? "—"}</td>
+                      <td style={styles.td}>
+                        {m.tournament ?? "—"}
+                        {m.round ? ` • ${m.round}` : ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Tournaments met</h2>
+            <div style={styles.underline} />
+            <div style={styles.tableWrap}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Tournament</th>
+                    <th style={styles.th}>Rounds</th>
+                    <th style={styles.thCenter}>W-L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.tournaments.map((t) => (
+                    <tr key={t.tournament}>
+                      <td style={styles.td}>{t.tournament}</td>
+                      <td style={styles.td}>{t.rounds.join(", ") || "—"}</td>
+                      <td style={styles.tdCenter}>
+                        {t.wins}-{t.losses}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Our players in these matches</h2>
+            <div style={styles.underline} />
+            {Object.keys(report.playerTotals).length === 0 ? (
+              <p style={styles.smallMuted}>No box-score rows on the dates we played them.</p>
+            ) : (
+              <div style={{ ...styles.tableWrap, overflowX: "auto" }}>
+                <table style={styles.table}>
+                  <thead>
+                    <tr>
+                      <th style={styles.th}>Player</th>
+                      {LINE_KEYS.map((k) => (
+                        <th key={k} style={styles.thCenter}>
+                          {statLabel(k)}
+                        </th>
+                      ))}
+                      <th style={styles.thCenter}>{hitting.label}</th>
+                      <th style={styles.thCenter}>SR</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.keys(report.playerTotals)
+                      .sort((a, b) => (report!.playerTotals[b].totals.attack_kills ?? 0) - (report!.playerTotals[a].totals.attack_kills ?? 0))
+                      .map((p) => {
+                        const agg = report!.playerTotals[p];
+                        const hit = computeMetric(hitting, agg.totals);
+                        return (
+                          <tr key={p}>
+                            <td style={styles.td}>{p}</td>
+                            {LINE_KEYS.map((k) => (
+                              <td key={k} style={styles.tdCenter}>
+                                {agg.totals[k] ?? 0}
+                              </td>
+                            ))}
+                            <td style={styles.tdCenter}>{hit.value === null ? "—" : formatMetric(hitting, hit.value)}</td>
+                            <td style={styles.tdCenter}>{agg.srAttempts ? `${(agg.srWeightedSum / agg.srAttempts).toFixed(2)} / ${agg.srAttempts}` : "—"}</td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Common opponents</h2>
+            <div style={styles.underline} />
+            {report.commonOpponents.length === 0 ? (
+              <p style={styles.smallMuted}>None yet — this needs another of your teams to have played {report.club} and someone we played.</p>
+            ) : (
+              <div style={styles.tableWrap}>
+                <table style={styles.table}>
+                  <thead>
+                    <tr>
+                      <th style={styles.th}>Common opponent</th>
+                      <th style={styles.th}>Us vs them</th>
+                      <th style={styles.th}>Via</th>
+                      <th style={styles.th}>Via vs them</th>
+                      <th style={styles.th}>Via vs {report.club}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.commonOpponents.map((c) => (
+                      <tr key={`${c.opponent}-${c.via.team}`}>
+                        <td style={styles.td}>{c.opponent}</td>
+                        <td style={styles.td}>{formatRecord(c.us)}</td>
+                        <td style={styles.td}>{c.via.team}</td>
+                        <td style={styles.td}>{formatRecord(c.via.vsOpponent)}</td>
+                        <td style={styles.td}>{formatRecord(c.via.vsClub)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 980,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+  },
+  header: { display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, marginBottom: 16 },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white" },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+  h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
+  h2: { fontSize: 18, margin: "0 0 8px", lineHeight: 1.2 },
+  underline: { height: 2, width: 56, background: "#111827", opacity: 0.12, borderRadius: 99, marginBottom: 12 },
+
+  grid: { display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 12, marginBottom: 18 },
+  card: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    padding: 14,
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  cardLabel: { fontSize: 13, color: "#6b7280", fontWeight: 600, marginBottom: 6 },
+  bigStat: { fontSize: 28, fontWeight: 800, letterSpacing: -0.5 },
+  subStat: { fontSize: 13, color: "#6b7280", marginTop: 4 },
+
+  section: { marginTop: 18 },
+
+  tableWrap: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    overflow: "hidden",
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  table: { width: "100%", borderCollapse: "separate", borderSpacing: 0 },
+  th: {
+    textAlign: "left",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  thCenter: {
+    textAlign: "center",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  td: { padding: "10px 12px", borderBottom: "1px solid rgba(17,24,39,0.06)", verticalAlign: "top", fontSize: 14 },
+  tdCenter: {
+    padding: "10px 12px",
+    borderBottom: "1px solid rgba(17,24,39,0.06)",
+    textAlign: "center",
+    verticalAlign: "top",
+    fontSize: 14,
+  },
+  smallMuted: { fontSize: 12, color: "#6b7280" },
+  pill: {
+    display: "inline-block",
+    padding: "4px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(17,24,39,0.10)",
+    background: "rgba(17,24,39,0.02)",
+    fontSize: 12,
+    fontWeight: 700,
+  },
+  win: { background: "rgba(34,197,94,0.12)", color: "#166534" },
+  loss: { background: "rgba(239,68,68,0.10)", color: "#991b1b" },
+
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
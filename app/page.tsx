@@ -3,16 +3,30 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { getBrowserSession, signOut } from "../lib/supabaseClient";
+import { readNdjson } from "../lib/ndjson";
+import { CHART_LANG, parseChartSpec } from "../lib/charts";
+import TrendChart from "./TrendChart";
 
 type Role = "user" | "assistant";
-type Message = { id: string; role: Role; text: string };
+type Message = { id: string; role: Role; text: string; live?: boolean }; // live: raw model deltas, not the server's final text
+type SeasonOption = { id: string; label: string };
+type TeamOption = { id: string; name: string; seasons: SeasonOption[]; defaultSeasonId: string | null };
+type ThreadSummary = { id: string; title: string; season_id: string | null; updated_at: string };
 
 function uid() {
   return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
 }
 
+// Text of a ```chart block (the <pre><code class="language-chart"> node), else null
+function chartSource(node: any): string | null {
+  const code = node?.children?.[0];
+  const classes = code?.properties?.className;
+  if (!Array.isArray(classes) || !classes.includes(`language-${CHART_LANG}`)) return null;
+  return (code.children ?? []).map((c: any) => c.value ?? "").join("");
+}
+
 const ASSISTANT_NAME = "MVVC Analyst";
-const TEAM_NAME = "MVVC 14 Black";
 const LOGO_SRC = "/mvvc-logo.png"; // put logo in /public/mvvc-logo.png
 
 export default function Page() {
@@ -21,7 +35,7 @@ export default function Page() {
       id: uid(),
       role: "assistant",
       text:
-        `Hi — I’m **${ASSISTANT_NAME}** for **${TEAM_NAME}**.\n\n` +
+        `Hi — I’m **${ASSISTANT_NAME}**. Pick a team and season above, then ask away.\n\n` +
         `Try:\n` +
         `• **team roster**\n` +
         `• **show every game result**\n` +
@@ -32,11 +46,95 @@ export default function Page() {
 
   const [input, setInput] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [teamId, setTeamId] = useState("");
+  const [seasonId, setSeasonId] = useState("");
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
 
+  const team = useMemo(() => teams.find((t) => t.id === teamId) ?? null, [teams, teamId]);
+
+  useEffect(() => {
+    getBrowserSession()
+      .then((session) => {
+        if (!session) {
+          window.location.replace("/login?next=/");
+          return null;
+        }
+        return fetch("/api/teams").then((r) => r.json());
+      })
+      .then((data) => {
+        if (!data) return;
+        const list: TeamOption[] = Array.isArray(data?.teams) ? data.teams : [];
+        setTeams(list);
+        if (list[0]) {
+          setTeamId(list[0].id);
+          setSeasonId(list[0].defaultSeasonId ?? "");
+        }
+      })
+      .catch(() => setTeams([]));
+  }, []);
+
+  function onTeamChange(id: string) {
+    setTeamId(id);
+    setSeasonId(teams.find((t) => t.id === id)?.defaultSeasonId ?? "");
+    clearChat(); // threads belong to one team
+  }
+
+  async function loadThreads(id: string) {
+    if (!id) return setThreads([]);
+    try {
+      const res = await fetch(`/api/threads?teamId=${encodeURIComponent(id)}`);
+      const json = await res.json();
+      setThreads(Array.isArray(json?.threads) ? json.threads : []);
+    } catch {
+      setThreads([]);
+    }
+  }
+
+  useEffect(() => {
+    loadThreads(teamId);
+  }, [teamId]);
+
+  async function openThread(id: string) {
+    if (isSending) return;
+    const res = await fetch(`/api/threads/${id}`);
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setMessages([{ id: uid(), role: "assistant", text: `**Error:** ${json?.error ?? "Could not open that chat."}` }]);
+      return;
+    }
+    setThreadId(id);
+    const startedIn = json.thread?.season_id;
+    if (startedIn && team?.seasons.some((x) => x.id === startedIn)) setSeasonId(startedIn);
+    const saved: Message[] = (json.messages ?? []).map((m: any) => ({ id: String(m.id), role: m.role, text: m.content }));
+    setMessages(saved.length ? saved : [{ id: uid(), role: "assistant", text: "This chat has no messages yet." }]);
+  }
+
+  async function renameThreadPrompt(t: ThreadSummary) {
+    const title = window.prompt("Rename chat", t.title)?.trim();
+    if (!title || title === t.title) return;
+    await fetch(`/api/threads/${t.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    loadThreads(teamId);
+  }
+
+  async function deleteThreadConfirm(t: ThreadSummary) {
+    if (!window.confirm(`Delete "${t.title}"? This cannot be undone.`)) return;
+    await fetch(`/api/threads/${t.id}`, { method: "DELETE" });
+    if (t.id === threadId) clearChat();
+    loadThreads(teamId);
+  }
+
+  // Follow the answer while it streams in, not just when a message is added
+  const lastText = messages[messages.length - 1]?.text ?? "";
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]);
+  }, [messages.length, lastText.length]);
 
   const canSend = useMemo(() => input.trim().length > 0 && !isSending, [input, isSending]);
 
@@ -51,21 +149,52 @@ export default function Page() {
     const thinkingId = uid();
     setMessages((prev) => [...prev, { id: thinkingId, role: "assistant", text: "_Thinking…_" }]);
 
+    const setText = (text: string, live = false) => setMessages((prev) => prev.map((m) => (m.id === thinkingId ? { ...m, text, live } : m)));
+
     try {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question }),
+        body: JSON.stringify({ question, thread_id: threadId, team_id: teamId || null, season_id: seasonId || null, stream: true }),
       });
 
-      const data = await res.json();
-      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : `Request failed (${res.status})`);
+      // Server errors before the answer starts come back as plain JSON
+      if (!res.body || !(res.headers.get("Content-Type") ?? "").includes("ndjson")) {
+        const data = await res.json();
+        if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : `Request failed (${res.status})`);
+        const answer = typeof data?.answer === "string" && data.answer.trim() ? data.answer.trim() : "No answer generated.";
+        setText(answer);
+        if (data?.thread_id) setThreadId(data.thread_id);
+        loadThreads(teamId);
+        return;
+      }
 
-      const answer = typeof data?.answer === "string" && data.answer.trim() ? data.answer.trim() : "No answer generated.";
-      setMessages((prev) => prev.map((m) => (m.id === thinkingId ? { ...m, text: answer } : m)));
+      // Markdown re-renders as deltas arrive; "replace" swaps in the server's fallback answer
+      let text = "";
+      let live = false;
+      let finished = false;
+      await readNdjson(res.body, (event) => {
+        if (event.type === "delta") {
+          text += event.text;
+          live = true;
+        }
+        if (event.type === "replace") {
+          text = event.text;
+          live = false;
+        }
+        if (event.type === "done") {
+          finished = true;
+          if (event.thread_id) setThreadId(event.thread_id);
+        }
+        if (event.type === "delta" || event.type === "replace") setText(text, live);
+      });
+
+      if (!text.trim()) throw new Error("No answer generated.");
+      if (!finished) setText(`${text}\n\n_(Connection dropped — this answer may be incomplete.)_`, live);
+      loadThreads(teamId);
     } catch (e: any) {
       const msg = typeof e?.message === "string" ? e.message : "Unknown error.";
-      setMessages((prev) => prev.map((m) => (m.id === thinkingId ? { ...m, text: `**Error:** ${msg}` } : m)));
+      setText(`**Error:** ${msg}`);
     } finally {
       setIsSending(false);
     }
@@ -78,7 +207,13 @@ export default function Page() {
     }
   }
 
+  async function onSignOut() {
+    await signOut();
+    window.location.replace("/login");
+  }
+
   function clearChat() {
+    setThreadId(null);
     setMessages([{ id: uid(), role: "assistant", text: `New chat started. Try **team roster** or **show every game result**.` }]);
   }
 
@@ -118,33 +253,67 @@ export default function Page() {
                 {ASSISTANT_NAME}
               </div>
               <div style={{ fontSize: 12, color: "rgba(15,23,42,0.65)", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
-                {TEAM_NAME}
+                {team?.name ?? "No team selected"}
               </div>
             </div>
           </div>
 
-          <button
-            onClick={clearChat}
-            style={{
-              border: "1px solid rgba(15,23,42,0.14)",
-              background: "#fff",
-              color: "#0f172a",
-              padding: "10px 12px",
-              borderRadius: 12,
-              cursor: "pointer",
-              fontSize: 13,
-              fontWeight: 800,
-              boxShadow: "0 6px 16px rgba(15,23,42,0.06)",
-            }}
-          >
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginLeft: "auto" }}>
+            <select value={teamId} onChange={(e) => onTeamChange(e.target.value)} style={selectStyle}>
+              {teams.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <select value={seasonId} onChange={(e) => setSeasonId(e.target.value)} style={selectStyle}>
+              {!team?.seasons.length && <option value="">All dates</option>}
+              {(team?.seasons ?? []).map((x) => (
+                <option key={x.id} value={x.id}>
+                  {x.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button onClick={clearChat} style={headerButtonStyle}>
             New chat
           </button>
+          <button onClick={onSignOut} style={headerButtonStyle}>
+            Sign out
+          </button>
         </div>
       </header>
 
       <section style={{ flex: 1, width: "100%" }}>
-        <div style={{ maxWidth: 1040, margin: "0 auto", padding: "18px 16px" }}>
-          <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        <div style={{ maxWidth: 1320, margin: "0 auto", padding: "18px 16px", display: "flex", gap: 16, alignItems: "flex-start" }}>
+          {/* Past chats for this team (only the signed-in coach's own) */}
+          <aside style={sidebarStyle}>
+            <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(15,23,42,0.65)", marginBottom: 8 }}>Chats</div>
+            {threads.length === 0 && <div style={{ fontSize: 12, color: "rgba(15,23,42,0.55)" }}>No saved chats yet.</div>}
+            {threads.map((t) => (
+              <div
+                key={t.id}
+                style={{
+                  ...threadRowStyle,
+                  background: t.id === threadId ? "rgba(37,99,235,0.08)" : "transparent",
+                  borderColor: t.id === threadId ? "rgba(37,99,235,0.25)" : "transparent",
+                }}
+              >
+                <button onClick={() => openThread(t.id)} style={threadTitleStyle} title={t.title}>
+                  {t.title}
+                </button>
+                <button onClick={() => renameThreadPrompt(t)} style={threadActionStyle} title="Rename">
+                  ✎
+                </button>
+                <button onClick={() => deleteThreadConfirm(t)} style={threadActionStyle} title="Delete">
+                  ×
+                </button>
+              </div>
+            ))}
+          </aside>
+
+          <div style={{ display: "flex", flexDirection: "column", gap: 14, flex: 1, minWidth: 0 }}>
             {messages.map((m) => {
               const isUser = m.role === "user";
               return (
@@ -182,6 +351,15 @@ export default function Page() {
                         ol: ({ children }) => <ol style={{ margin: "8px 0 10px 18px" }}>{children}</ol>,
                         li: ({ children }) => <li style={{ marginBottom: 6 }}>{children}</li>,
                         strong: ({ children }) => <strong style={{ fontWeight: 950 }}>{children}</strong>,
+                        pre: ({ node, children }) => {
+                          const chart = chartSource(node);
+                          if (chart === null) return <pre>{children}</pre>;
+                          // Only the server's final text carries real charts; mid-stream blocks are the model's own
+                          const spec = m.live ? null : parseChartSpec(chart);
+                          if (spec) return <TrendChart spec={spec} />;
+                          // A named chart is swapped for the real one when the answer finishes
+                          return <div style={{ fontSize: 12, color: "rgba(15,23,42,0.55)", margin: "8px 0" }}>{m.live ? "Drawing chart…" : "Chart unavailable."}</div>;
+                        },
                         table: ({ children }) => (
                           <div style={{ overflowX: "auto", margin: "10px 0 12px 0" }}>
                             <table style={{ width: "100%", borderCollapse: "separate", borderSpacing: 0, fontSize: 13 }}>{children}</table>
@@ -271,3 +449,74 @@ export default function Page() {
     </main>
   );
 }
+
+const selectStyle: React.CSSProperties = {
+  border: "1px solid rgba(15,23,42,0.14)",
+  background: "#fff",
+  color: "#0f172a",
+  padding: "9px 10px",
+  borderRadius: 12,
+  fontSize: 13,
+  fontWeight: 700,
+  maxWidth: 180,
+};
+
+const headerButtonStyle: React.CSSProperties = {
+  border: "1px solid rgba(15,23,42,0.14)",
+  background: "#fff",
+  color: "#0f172a",
+  padding: "10px 12px",
+  borderRadius: 12,
+  cursor: "pointer",
+  fontSize: 13,
+  fontWeight: 800,
+  boxShadow: "0 6px 16px rgba(15,23,42,0.06)",
+};
+
+const sidebarStyle: React.CSSProperties = {
+  width: 240,
+  flexShrink: 0,
+  position: "sticky",
+  top: 88,
+  maxHeight: "calc(100vh - 200px)",
+  overflowY: "auto",
+  background: "#fff",
+  border: "1px solid rgba(15,23,42,0.10)",
+  borderRadius: 14,
+  padding: 10,
+  boxShadow: "0 6px 16px rgba(15,23,42,0.06)",
+};
+
+const threadRowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 2,
+  borderRadius: 10,
+  border: "1px solid transparent",
+  marginBottom: 2,
+};
+
+const threadTitleStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  textAlign: "left",
+  background: "transparent",
+  border: "none",
+  padding: "8px 6px",
+  fontSize: 13,
+  fontWeight: 700,
+  color: "#0f172a",
+  cursor: "pointer",
+  whiteSpace: "nowrap",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+};
+
+const threadActionStyle: React.CSSProperties = {
+  background: "transparent",
+  border: "none",
+  padding: "4px 6px",
+  fontSize: 13,
+  color: "rgba(15,23,42,0.55)",
+  cursor: "pointer",
+};
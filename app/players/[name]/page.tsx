@@ -0,0 +1,409 @@
+// app/players/[name]/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../../lib/auth";
+import { resolveTeamContext, seasonLabel, withSeasonWindow } from "../../../lib/teamContext";
+import { computeAggregates, type StatRow } from "../../../lib/aggregates";
+import { buildPlayerProfile, findPlayerName, isLowerBetter } from "../../../lib/playerProfile";
+import { statLabel } from "../../../lib/intents";
+import { playerMonthlyChart, srMonthlyChart } from "../../../lib/charts";
+import TrendChart from "../../TrendChart";
+
+function fmtDate(d: string | null) {
+  if (!d) return "";
+  const [y, m, day] = d.split("-");
+  if (!y || !m || !day) return d;
+  return `${m}/${day}/${y.slice(2)}`;
+}
+
+function fmtChange(n: number) {
+  if (n === 0) return "±0";
+  return `${n > 0 ? "+" : ""}${n}`;
+}
+
+function decodeName(raw: string) {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function PlayerPage({
+  params,
+  searchParams,
+}: {
+  params: { name: string };
+  searchParams: { team?: string; season?: string };
+}) {
+  const supabase = supabaseService();
+  const requested = decodeName(params.name);
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect(`/login?next=/players/${encodeURIComponent(requested)}`);
+
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>{requested}</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  // Whole team for the window: ranks need every teammate
+  const { data, error } = await withSeasonWindow(
+    supabase
+      .from("player_game_stats")
+      .select("player_name,position,game_date,opponent,stats")
+      .eq("team_id", ctx.team.id),
+    "game_date",
+    ctx.season
+  )
+    .order("game_date", { ascending: false })
+    .limit(15000);
+
+  if (error) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>{requested}</h1>
+        <p style={styles.error}>Error loading player_game_stats: {error.message}</p>
+      </main>
+    );
+  }
+
+  const statsRows = (data ?? []) as StatRow[];
+  const agg = computeAggregates([], statsRows);
+  const name = findPlayerName(requested, Object.keys(agg.byPlayer));
+  const profile = name ? buildPlayerProfile(name, statsRows, agg.byPlayer) : null;
+  const charts = profile
+    ? [
+        playerMonthlyChart(profile.name, statsRows.filter((r) => (r.player_name ?? "").trim() === profile.name)),
+        srMonthlyChart(
+          Object.fromEntries(profile.srByMonth.map((m) => [m.month, { attempts: m.attempts, weightedSum: m.rating * m.attempts }])),
+          `${profile.name}: serve-receive by month`
+        ),
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <main style={styles.page}>
+      <header style={styles.header}>
+        <div>
+          <div style={styles.kicker}>
+            {ctx.team.name} • {seasonLabel(ctx.season)}
+          </div>
+          <h1 style={styles.h1}>{profile?.name ?? requested}</h1>
+          {profile?.position ? <div style={styles.smallMuted}>{profile.position}</div> : null}
+        </div>
+
+        <form method="get" style={styles.picker}>
+          <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+            <option value="">Current season</option>
+            {ctx.seasons.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" style={styles.pickerButton}>
+            Apply
+          </button>
+        </form>
+      </header>
+
+      {!profile ? (
+        <p style={styles.error}>
+          No box-score rows for “{requested}” on {ctx.team.name} in {seasonLabel(ctx.season)}.
+        </p>
+      ) : (
+        <>
+          <section style={styles.grid}>
+            <div style={styles.card}>
+              <div style={styles.cardLabel}>Games</div>
+              <div style={styles.bigStat}>{profile.gamesPlayed}</div>
+              <div style={styles.subStat}>rows in player_game_stats</div>
+            </div>
+
+            <div style={styles.card}>
+              <div style={styles.cardLabel}>Serve-receive</div>
+              <div style={styles.bigStat}>{profile.serveReceive ? profile.serveReceive.rating.toFixed(2) : "—"}</div>
+              <div style={styles.subStat}>
+                {profile.serveReceive ? `0–3 scale on ${profile.serveReceive.attempts} attempts` : "no serve-receive attempts"}
+              </div>
+            </div>
+          </section>
+
+          {/* Season totals + team rank */}
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Season totals</h2>
+            <div style={styles.underline} />
+            <div style={styles.tableWrap}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Stat</th>
+                    <th style={styles.thCenter}>Total</th>
+                    <th style={styles.thCenter}>Team rank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.ranks.map((r) => (
+                    <tr key={r.key}>
+                      <td style={styles.td}>
+                        {statLabel(r.key)}
+                        {r.lowerIsBetter ? <span style={styles.smallMuted}> (fewer is better)</span> : null}
+                      </td>
+                      <td style={styles.tdCenter}>{r.value}</td>
+                      <td style={styles.tdCenter}>
+                        <span style={styles.pill}>
+                          {r.rank} of {r.of}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  {profile.ranks.length === 0 && (
+                    <tr>
+                      <td style={styles.td} colSpan={3}>
+                        No stats recorded yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Recent form */}
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Last {profile.trend.games} games vs season</h2>
+            <div style={styles.underline} />
+            <div style={styles.tableWrap}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Stat (per game)</th>
+                    <th style={styles.thCenter}>Recent</th>
+                    <th style={styles.thCenter}>Season</th>
+                    <th style={styles.thCenter}>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.trend.rows.map((t) => {
+                    const good = t.change === 0 ? null : (t.change > 0) !== isLowerBetter(t.key);
+                    return (
+                      <tr key={t.key}>
+                        <td style={styles.td}>{statLabel(t.key)}</td>
+                        <td style={styles.tdCenter}>{t.recentPerGame}</td>
+                        <td style={styles.tdCenter}>{t.seasonPerGame}</td>
+                        <td style={{ ...styles.tdCenter, ...(good === null ? {} : good ? styles.up : styles.down) }}>{fmtChange(t.change)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Trends */}
+          {charts.length > 0 && (
+            <section style={styles.section}>
+              <h2 style={styles.h2}>Trends</h2>
+              <div style={styles.underline} />
+              <div style={styles.chartGrid}>
+                {charts.map((c) => (
+                  <TrendChart key={c!.title} spec={c!} />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* SR by month */}
+          {profile.srByMonth.length > 0 && (
+            <section style={styles.section}>
+              <h2 style={styles.h2}>Serve-receive by month</h2>
+              <div style={styles.underline} />
+              <div style={styles.tableWrap}>
+                <table style={styles.table}>
+                  <thead>
+                    <tr>
+                      <th style={styles.th}>Month</th>
+                      <th style={styles.thCenter}>Rating</th>
+                      <th style={styles.thCenter}>Attempts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.srByMonth.map((m) => (
+                      <tr key={m.month}>
+                        <td style={styles.td}>{m.month}</td>
+                        <td style={styles.tdCenter}>{m.rating.toFixed(2)}</td>
+                        <td style={styles.tdCenter}>{m.attempts}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {/* Game log */}
+          <section style={styles.section}>
+            <h2 style={styles.h2}>Game log</h2>
+            <div style={styles.underline} />
+            <div style={{ ...styles.tableWrap, overflowX: "auto" }}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Date</th>
+                    <th style={styles.th}>Opponent</th>
+                    {profile.statKeys.map((k) => (
+                      <th key={k} style={styles.thCenter}>
+                        {statLabel(k)}
+                      </th>
+                    ))}
+                    <th style={styles.thCenter}>SR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.games.map((g, idx) => (
+                    <tr key={`${g.date}-${g.opponent}-${idx}`}>
+                      <td style={styles.td}>{fmtDate(g.date)}</td>
+                      <td style={styles.td}>{g.opponent ?? "—"}</td>
+                      {profile.statKeys.map((k) => (
+                        <td key={k} style={styles.tdCenter}>
+                          {g.stats[k] ?? 0}
+                        </td>
+                      ))}
+                      <td style={styles.tdCenter}>
+                        {g.serveReceive ? `${g.serveReceive.rating.toFixed(2)} / ${g.serveReceive.attempts}` : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 980,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+  },
+  header: { display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, marginBottom: 16 },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white" },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+  h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
+  h2: { fontSize: 18, margin: "0 0 8px", lineHeight: 1.2 },
+  underline: { height: 2, width: 56, background: "#111827", opacity: 0.12, borderRadius: 99, marginBottom: 12 },
+
+  grid: { display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: 12, marginBottom: 18 },
+  card: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    padding: 14,
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  cardLabel: { fontSize: 13, color: "#6b7280", fontWeight: 600, marginBottom: 6 },
+  bigStat: { fontSize: 28, fontWeight: 800, letterSpacing: -0.5 },
+  subStat: { fontSize: 13, color: "#6b7280", marginTop: 4 },
+
+  section: { marginTop: 18 },
+  chartGrid: { display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(380px, 1fr))", gap: 12 },
+
+  tableWrap: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    overflow: "hidden",
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  table: { width: "100%", borderCollapse: "separate", borderSpacing: 0 },
+  th: {
+    textAlign: "left",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  thCenter: {
+    textAlign: "center",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  td: { padding: "10px 12px", borderBottom: "1px solid rgba(17,24,39,0.06)", verticalAlign: "top", fontSize: 14 },
+  tdCenter: {
+    padding: "10px 12px",
+    borderBottom: "1px solid rgba(17,24,39,0.06)",
+    textAlign: "center",
+    verticalAlign: "top",
+    fontSize: 14,
+  },
+  smallMuted: { fontSize: 12, color: "#6b7280" },
+  pill: {
+    display: "inline-block",
+    padding: "4px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(17,24,39,0.10)",
+    background: "rgba(17,24,39,0.02)",
+    fontSize: 12,
+    fontWeight: 700,
+  },
+  up: { color: "#15803d", fontWeight: 700 },
+  down: { color: "#b91c1c", fontWeight: 700 },
+
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
@@ -0,0 +1,315 @@
+// app/players/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../lib/auth";
+import { resolveTeamContext, seasonLabel, withSeasonWindow } from "../../lib/teamContext";
+import { computeAggregates, type StatRow } from "../../lib/aggregates";
+import { ROLE_LABELS, type Role } from "../../lib/lineup";
+import { formatMetric } from "../../lib/metrics";
+import { SR_KEY, buildLeaderboard, sortLeaderboard, type LeaderboardColumn, type Normalization } from "../../lib/leaderboard";
+import { statLabel } from "../../lib/intents";
+
+type SearchParams = { team?: string; season?: string; sort?: string; dir?: string; mode?: string; pos?: string; min?: string };
+
+const MODES: { value: Normalization; label: string }[] = [
+  { value: "total", label: "Totals" },
+  { value: "match", label: "Per match" },
+  { value: "set", label: "Per set" },
+];
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+function columnLabel(c: LeaderboardColumn) {
+  if (c.metric) return c.metric.label;
+  if (c.kind === "sr") return "SR";
+  return statLabel(c.key);
+}
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function PlayersPage({ searchParams }: { searchParams: SearchParams }) {
+  const supabase = supabaseService();
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect("/login?next=/players");
+
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Players</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  // Same rows and window as chat, so a kill total here is the one chat quotes
+  const { data, error } = await withSeasonWindow(
+    supabase
+      .from("player_game_stats")
+      .select("player_name,position,game_date,opponent,stats")
+      .eq("team_id", ctx.team.id),
+    "game_date",
+    ctx.season
+  ).limit(15000);
+
+  if (error) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Players</h1>
+        <p style={styles.error}>Error loading player_game_stats: {error.message}</p>
+      </main>
+    );
+  }
+
+  const statsRows = (data ?? []) as StatRow[];
+  const agg = computeAggregates([], statsRows);
+
+  // "min" blank = each metric's own threshold; a number overrides them all (0 shows everyone)
+  const minRaw = String(searchParams?.min ?? "").trim();
+  const minAttempts = minRaw !== "" && Number.isFinite(Number(minRaw)) && Number(minRaw) >= 0 ? Math.floor(Number(minRaw)) : undefined;
+  const mode = MODES.some((m) => m.value === searchParams?.mode) ? (searchParams.mode as Normalization) : "total";
+  const pos = ROLES.includes(searchParams?.pos as Role) || searchParams?.pos === "none" ? searchParams.pos! : "";
+
+  const board = buildLeaderboard(agg.byPlayer, statsRows, agg.availableStatKeys, { normalization: mode, minAttempts });
+  const rows = board.rows.filter((r) => (!pos ? true : pos === "none" ? !r.role : r.role === pos));
+
+  const sortCol = board.columns.find((c) => c.key === searchParams?.sort);
+  const sortKey = sortCol ? sortCol.key : searchParams?.sort === "player" || searchParams?.sort === "games" ? searchParams.sort : board.columns[0]?.key ?? "player";
+  const defaultDir = (key: string) => (key === "player" || board.columns.find((c) => c.key === key)?.lowerIsBetter ? "asc" : "desc");
+  const dir = searchParams?.dir === "asc" || searchParams?.dir === "desc" ? searchParams.dir : defaultDir(sortKey);
+  const sorted = sortLeaderboard(rows, sortKey, dir);
+
+  const baseParams = {
+    team: ctx.team.id,
+    ...(ctx.season?.id && searchParams?.season ? { season: ctx.season.id } : {}),
+    ...(board.normalization !== "total" ? { mode: board.normalization } : {}),
+    ...(pos ? { pos } : {}),
+    ...(minAttempts !== undefined ? { min: String(minAttempts) } : {}),
+  };
+  // Clicking the sorted column flips it; any other column starts at its "best first" direction
+  const sortHref = (key: string) => {
+    const nextDir = key === sortKey ? (dir === "asc" ? "desc" : "asc") : defaultDir(key);
+    return `/players?${new URLSearchParams({ ...baseParams, sort: key, dir: nextDir }).toString()}`;
+  };
+  const arrow = (key: string) => (key === sortKey ? (dir === "asc" ? " ▲" : " ▼") : "");
+  const profileQuery = new URLSearchParams({ team: ctx.team.id, ...(searchParams?.season ? { season: searchParams.season } : {}) }).toString();
+
+  return (
+    <main style={styles.page}>
+      <header style={styles.header}>
+        <div>
+          <div style={styles.kicker}>
+            {ctx.team.name} • {seasonLabel(ctx.season)}
+          </div>
+          <h1 style={styles.h1}>Players</h1>
+        </div>
+
+        <form method="get" style={styles.picker}>
+          <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+            <option value="">Current season</option>
+            {ctx.seasons.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+          <select name="mode" defaultValue={board.normalization} style={styles.select}>
+            {MODES.map((m) => (
+              <option key={m.value} value={m.value} disabled={m.value === "set" && !board.perSetAvailable}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <select name="pos" defaultValue={pos} style={styles.select}>
+            <option value="">All positions</option>
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+            <option value="none">No position listed</option>
+          </select>
+          <input name="min" type="number" min={0} defaultValue={minRaw} placeholder="Min attempts" style={styles.input} />
+          <input type="hidden" name="sort" value={sortKey} />
+          <button type="submit" style={styles.pickerButton}>
+            Apply
+          </button>
+        </form>
+      </header>
+
+      {mode === "set" && !board.perSetAvailable && <p style={styles.notice}>This team's stats have no sets_played column, so per-set numbers aren't available; showing totals.</p>}
+      <p style={styles.smallMuted}>
+        {board.normalization === "total" ? "Season totals" : board.normalization === "match" ? "Counting stats divided by matches played" : "Counting stats divided by sets played"}.
+        Rates (hitting %, SR, per-set metrics) are the same in every view.{" "}
+        {minAttempts === undefined ? "Rates below their usual minimum attempts" : `Rates with fewer than ${minAttempts} attempts`} show greyed and sort last; hover a value
+        for its attempt count.
+      </p>
+
+      {sorted.length === 0 ? (
+        <p style={styles.smallMuted}>No player stats{pos ? " for that position" : ""} in this season.</p>
+      ) : (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th}>
+                  <a href={sortHref("player")} style={styles.sortLink}>
+                    Player{arrow("player")}
+                  </a>
+                </th>
+                <th style={styles.thCenter}>
+                  <a href={sortHref("games")} style={styles.sortLink}>
+                    GP{arrow("games")}
+                  </a>
+                </th>
+                {board.columns.map((c) => (
+                  <th key={c.key} style={{ ...styles.thCenter, ...(c.kind === "stat" ? {} : styles.rateHead) }} title={c.metric?.label ?? c.key}>
+                    <a href={sortHref(c.key)} style={styles.sortLink}>
+                      {columnLabel(c)}
+                      {arrow(c.key)}
+                    </a>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((r) => (
+                <tr key={r.player}>
+                  <td style={styles.td}>
+                    <a href={`/players/${encodeURIComponent(r.player)}?${profileQuery}`} style={styles.link}>
+                      {r.player}
+                    </a>
+                    {r.position ? <span style={styles.smallMuted}> {r.position}</span> : null}
+                  </td>
+                  <td style={styles.tdCenter}>{r.games}</td>
+                  {board.columns.map((c) => {
+                    const cell = r.cells[c.key];
+                    const text = !cell || cell.value === null ? "—" : c.metric ? formatMetric(c.metric, cell.value) : c.kind === "sr" ? cell.value.toFixed(2) : String(cell.value);
+                    const greyed = cell && cell.value !== null && !cell.qualified;
+                    return (
+                      <td
+                        key={c.key}
+                        style={{ ...styles.tdCenter, ...(c.key === sortKey ? styles.sortedCell : {}), ...(greyed ? styles.unqualified : {}) }}
+                        title={cell?.attempts !== undefined ? `${cell.attempts} attempts${greyed ? " (below threshold)" : ""}` : undefined}
+                      >
+                        {text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {board.columns.some((c) => c.key === SR_KEY) && <p style={styles.smallMuted}>SR = serve-receive rating, weighted by attempts (0–3).</p>}
+    </main>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 1200,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+  },
+  header: { display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, marginBottom: 16, flexWrap: "wrap" },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white" },
+  input: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, width: 120 },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+  h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
+
+  tableWrap: {
+    marginTop: 12,
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    overflowX: "auto",
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  table: { width: "100%", borderCollapse: "separate", borderSpacing: 0 },
+  th: {
+    textAlign: "left",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  thCenter: {
+    textAlign: "center",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 8px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+    whiteSpace: "nowrap",
+  },
+  rateHead: { background: "rgba(59,130,246,0.06)" },
+  sortLink: { color: "inherit", textDecoration: "none" },
+  td: { padding: "10px 12px", borderBottom: "1px solid rgba(17,24,39,0.06)", verticalAlign: "top", fontSize: 14, whiteSpace: "nowrap" },
+  tdCenter: {
+    padding: "10px 8px",
+    borderBottom: "1px solid rgba(17,24,39,0.06)",
+    textAlign: "center",
+    verticalAlign: "top",
+    fontSize: 14,
+    whiteSpace: "nowrap",
+  },
+  sortedCell: { fontWeight: 800 },
+  unqualified: { color: "#9ca3af", fontWeight: 400 },
+  link: { color: "#1d4ed8", textDecoration: "none", fontWeight: 650 },
+  smallMuted: { fontSize: 12, color: "#6b7280", fontWeight: 400 },
+
+  notice: {
+    margin: "8px 0",
+    padding: 10,
+    borderRadius: 12,
+    border: "1px solid rgba(234,179,8,0.35)",
+    background: "rgba(234,179,8,0.08)",
+    color: "#854d0e",
+    fontSize: 13,
+  },
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
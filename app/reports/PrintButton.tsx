@@ -0,0 +1,10 @@
+"use client";
+
+// window.print() needs a click handler, so this one button is a client component
+export default function PrintButton({ style }: { style?: React.CSSProperties }) {
+  return (
+    <button type="button" onClick={() => window.print()} style={style}>
+      Print / save as PDF
+    </button>
+  );
+}
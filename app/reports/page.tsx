@@ -0,0 +1,259 @@
+// app/reports/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../lib/auth";
+import { resolveTeamContext } from "../../lib/teamContext";
+import { REPORT_KINDS, isReportKind, loadReport, tournamentNames, type ReportCell, type ReportKind } from "../../lib/reports";
+import PrintButton from "./PrintButton";
+
+type SearchParams = { team?: string; season?: string; kind?: string; tournament?: string; opponent?: string };
+
+function cell(v: ReportCell) {
+  return v === null || v === "" ? "—" : v;
+}
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function ReportsPage({ searchParams }: { searchParams: SearchParams }) {
+  const supabase = supabaseService();
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect("/login?next=/reports");
+
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Reports</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  const kind: ReportKind = isReportKind(searchParams?.kind) ? searchParams.kind : "season";
+  const tournament = String(searchParams?.tournament ?? "").trim();
+  const opponent = String(searchParams?.opponent ?? "").trim();
+
+  let loaded: Awaited<ReturnType<typeof loadReport>> | null = null;
+  let loadError: string | null = null;
+  try {
+    loaded = await loadReport(supabase, { ctx, teams, kind, tournament, opponent });
+  } catch (e: any) {
+    loadError = e?.message ?? String(e);
+  }
+  const report = loaded?.report ?? null;
+  const matches = loaded?.matches ?? [];
+  const tournamentOptions = tournamentNames(matches);
+  const opponentOptions = Array.from(new Set(matches.map((m) => (m.opponent ?? "").trim()).filter(Boolean))).sort();
+
+  const csvHref = (table: string) =>
+    `/api/reports?${new URLSearchParams({
+      teamId: ctx.team.id,
+      ...(ctx.season ? { seasonId: ctx.season.id } : {}),
+      kind,
+      ...(kind === "tournament" ? { tournament } : {}),
+      ...(kind === "scouting" ? { opponent } : {}),
+      table,
+      format: "csv",
+    }).toString()}`;
+
+  const missing =
+    kind === "tournament" && !tournament
+      ? "Pick a tournament."
+      : kind === "scouting" && !opponent
+        ? "Pick an opponent."
+        : kind === "tournament"
+          ? `No matches at "${tournament}" in this season.`
+          : `No matches vs "${opponent}" in this season.`;
+
+  return (
+    <main style={styles.page} className="report-page">
+      {/* Picker + print / CSV controls never print */}
+      <form method="get" style={styles.picker} className="no-print">
+        <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+          <option value="">Current season</option>
+          {ctx.seasons.map((x) => (
+            <option key={x.id} value={x.id}>
+              {x.label}
+            </option>
+          ))}
+        </select>
+        <select name="kind" defaultValue={kind} style={styles.select}>
+          {REPORT_KINDS.map((k) => (
+            <option key={k.kind} value={k.kind}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        <select name="tournament" defaultValue={tournament} style={styles.select}>
+          <option value="">Tournament (for a recap)</option>
+          {tournamentOptions.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select name="opponent" defaultValue={opponent} style={styles.select}>
+          <option value="">Opponent (for scouting)</option>
+          {opponentOptions.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+        <button type="submit" style={styles.pickerButton}>
+          Show
+        </button>
+        {report && <PrintButton style={styles.secondaryButton} />}
+      </form>
+
+      {loadError ? (
+        <p style={styles.error}>Error loading report data: {loadError}</p>
+      ) : !report ? (
+        <p style={styles.smallMuted}>{missing}</p>
+      ) : (
+        <>
+          <header style={styles.header}>
+            <div style={styles.kicker}>{report.subtitle}</div>
+            <h1 style={styles.h1}>{report.title}</h1>
+          </header>
+
+          <section style={styles.summary}>
+            {report.summary.map((s) => (
+              <div key={s.label} style={styles.summaryItem}>
+                <div style={styles.cardLabel}>{s.label}</div>
+                <div style={styles.summaryValue}>{s.value}</div>
+              </div>
+            ))}
+          </section>
+          {report.notes.map((n) => (
+            <p key={n} style={styles.smallMuted}>
+              {n}
+            </p>
+          ))}
+
+          {report.tables.map((t) => (
+            <section key={t.key} style={styles.section} className="report-section">
+              <div style={styles.tableHead}>
+                <h2 style={styles.h2}>{t.title}</h2>
+                {t.rows.length > 0 && (
+                  <a href={csvHref(t.key)} style={styles.csvLink} className="no-print">
+                    Download CSV
+                  </a>
+                )}
+              </div>
+              {t.rows.length === 0 ? (
+                <p style={styles.smallMuted}>None.</p>
+              ) : (
+                <table style={styles.table}>
+                  <thead>
+                    <tr>
+                      {t.columns.map((c) => (
+                        <th key={c} style={styles.th}>
+                          {c}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {t.rows.map((r, i) => (
+                      <tr key={i}>
+                        {r.map((v, j) => (
+                          <td key={j} style={typeof v === "number" ? styles.tdNum : styles.td}>
+                            {cell(v)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {t.note && t.rows.length > 0 && <p style={styles.smallMuted}>{t.note}</p>}
+            </section>
+          ))}
+        </>
+      )}
+    </main>
+  );
+}
+
+// Print-first: black on white, compact tables, no shadows
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 1100,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+    background: "white",
+    minHeight: "100%",
+  },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 18 },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white", maxWidth: 220 },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+  secondaryButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "white",
+    color: "#111827",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
+
+  header: { marginBottom: 12 },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  h1: { fontSize: 24, margin: "4px 0 0", lineHeight: 1.15 },
+  h2: { fontSize: 16, margin: 0, lineHeight: 1.2 },
+
+  summary: { display: "flex", flexWrap: "wrap", gap: 8, marginBottom: 8 },
+  summaryItem: { border: "1px solid rgba(17,24,39,0.15)", borderRadius: 8, padding: "6px 10px", minWidth: 120 },
+  cardLabel: { fontSize: 11, color: "#6b7280", fontWeight: 700, textTransform: "uppercase", letterSpacing: 0.4 },
+  summaryValue: { fontSize: 15, fontWeight: 750, marginTop: 2 },
+
+  section: { marginTop: 18 },
+  tableHead: { display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: 6 },
+  csvLink: { fontSize: 12, color: "#1d4ed8", textDecoration: "none", fontWeight: 650 },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: 12 },
+  th: { textAlign: "left", padding: "4px 6px", borderBottom: "1.5px solid #111827", fontWeight: 700, whiteSpace: "nowrap" },
+  td: { padding: "4px 6px", borderBottom: "1px solid rgba(17,24,39,0.12)", verticalAlign: "top" },
+  tdNum: { padding: "4px 6px", borderBottom: "1px solid rgba(17,24,39,0.12)", verticalAlign: "top", textAlign: "right", fontVariantNumeric: "tabular-nums" },
+  smallMuted: { fontSize: 12, color: "#6b7280" },
+
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
@@ -0,0 +1,291 @@
+// app/results/[id]/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { supabaseService } from "../../../lib/supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "../../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../../lib/auth";
+import { parseStats, toNum, type StatRow } from "../../../lib/aggregates";
+import { isDecidingSet, isDeuceSet, matchSetCounts, matchSets, pointTotals } from "../../../lib/setScores";
+import { sameClub } from "../../../lib/opponentReport";
+import { isLowerBetter, orderStatKeys } from "../../../lib/playerProfile";
+import { statLabel } from "../../../lib/intents";
+
+type MatchRow = {
+  id: number;
+  team_id: string;
+  match_date: string | null;
+  tournament: string | null;
+  opponent: string | null;
+  result: "W" | "L" | null;
+  score: string | null;
+  round: string | null;
+  sets_won: number | null;
+  sets_lost: number | null;
+  set_diff: number | null;
+  set_scores: any;
+  points_for: number | null;
+  points_against: number | null;
+};
+
+function fmtDate(d: string | null) {
+  if (!d) return "";
+  const [y, m, day] = d.split("-");
+  if (!y || !m || !day) return d;
+  return `${m}/${day}/${y.slice(2)}`;
+}
+
+export const dynamic = "force-dynamic"; // always fresh
+
+export default async function MatchPage({ params, searchParams }: { params: { id: string }; searchParams: Record<string, string | undefined> }) {
+  const supabase = supabaseService();
+
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect(`/login?next=/results/${encodeURIComponent(params.id)}`);
+
+  // Back to the dashboard with the same team / season / filters
+  const back = new URLSearchParams();
+  for (const k of ["team", "season", "from", "to", "tournament", "opponent"]) if (searchParams?.[k]) back.set(k, searchParams[k]!);
+  const backHref = `/results${back.toString() ? `?${back.toString()}` : ""}`;
+
+  const id = Number(params.id);
+  const teams = await listTeamsForUser(supabase, user.id);
+  const { data, error } = Number.isInteger(id)
+    ? await supabase
+        .from("match_results")
+        .select("id,team_id,match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff,set_scores,points_for,points_against")
+        .eq("id", id)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  // Someone else's team's match reads the same as a missing one
+  const match = (data as MatchRow | null) && teams.some((t) => t.id === (data as MatchRow).team_id) ? (data as MatchRow) : null;
+  if (error || !match) {
+    return (
+      <main style={styles.page}>
+        <a href={backHref} style={styles.back}>
+          ← Results
+        </a>
+        <h1 style={styles.h1}>Match</h1>
+        <p style={styles.error}>{error ? `Error loading match_results: ${error.message}` : "Match not found."}</p>
+      </main>
+    );
+  }
+
+  const team = teams.find((t) => t.id === match.team_id)!;
+  const profileQuery = new URLSearchParams({ team: match.team_id, ...(searchParams?.season ? { season: searchParams.season } : {}) }).toString();
+
+  // Box score: that day's rows against the same club (exports spell opponents differently)
+  let boxRows: StatRow[] = [];
+  let boxError: string | null = null;
+  if (match.match_date) {
+    const res = await supabase
+      .from("player_game_stats")
+      .select("player_name,position,game_date,opponent,stats")
+      .eq("team_id", match.team_id)
+      .eq("game_date", match.match_date)
+      .limit(500);
+    if (res.error) boxError = res.error.message;
+    boxRows = ((res.data ?? []) as StatRow[]).filter((r) => !r.opponent || !match.opponent || sameClub(r.opponent, match.opponent));
+  }
+
+  const players = boxRows
+    .map((r) => {
+      const raw = parseStats(r.stats);
+      const stats: Record<string, number> = {};
+      for (const k of Object.keys(raw)) stats[k] = toNum(raw[k]);
+      return { player: (r.player_name ?? "").trim(), position: r.position, stats };
+    })
+    .filter((p) => p.player)
+    .sort((a, b) => (b.stats.attack_kills ?? 0) - (a.stats.attack_kills ?? 0) || a.player.localeCompare(b.player));
+  const statKeys = orderStatKeys(players.flatMap((p) => Object.keys(p.stats))).filter((k) => players.some((p) => p.stats[k]));
+  const totals: Record<string, number> = {};
+  for (const p of players) for (const k of statKeys) totals[k] = (totals[k] ?? 0) + (p.stats[k] ?? 0);
+
+  const sets = matchSets(match);
+  const counts = matchSetCounts(match);
+  const points = sets ? pointTotals(sets) : null;
+  const isWin = match.result === "W";
+
+  return (
+    <main style={styles.page}>
+      <a href={backHref} style={styles.back}>
+        ← Results
+      </a>
+      <header style={styles.header}>
+        <div style={styles.kicker}>
+          {team.name} • {fmtDate(match.match_date)} • {match.tournament ?? "Unknown Tournament"}
+          {match.round ? ` • ${match.round}` : ""}
+        </div>
+        <h1 style={styles.h1}>
+          <span style={{ ...styles.resultDot, ...(isWin ? styles.dotWin : styles.dotLoss) }} /> {match.result ? (isWin ? "Win" : "Loss") : "—"} vs{" "}
+          {match.opponent ?? "Unknown"}
+        </h1>
+        <div style={styles.subStat}>
+          {match.score ?? "No score recorded"}
+          {counts ? ` • sets ${counts.won}-${counts.lost}` : ""}
+          {points ? ` • points ${points.pointsFor}-${points.pointsAgainst}` : ""}
+        </div>
+      </header>
+
+      <section style={styles.section}>
+        <h2 style={styles.h2}>Set scores</h2>
+        <div style={styles.underline} />
+        {!sets ? (
+          <p style={styles.smallMuted}>No per-set scores for this match{match.score ? ` (score on file: ${match.score})` : ""}.</p>
+        ) : (
+          <div style={styles.tableWrap}>
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={styles.th}>Set</th>
+                  <th style={styles.thCenter}>Us</th>
+                  <th style={styles.thCenter}>Them</th>
+                  <th style={styles.th}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sets.map((x, i) => {
+                  const flags = [isDecidingSet(sets, i) ? "deciding" : "", isDeuceSet(sets, i) ? "deuce" : ""].filter(Boolean).join(" • ");
+                  return (
+                    <tr key={i}>
+                      <td style={styles.td}>{i + 1}</td>
+                      <td style={{ ...styles.tdCenter, ...(x.us > x.them ? styles.won : {}) }}>{x.us}</td>
+                      <td style={{ ...styles.tdCenter, ...(x.them > x.us ? styles.lost : {}) }}>{x.them}</td>
+                      <td style={styles.td}>
+                        <span style={styles.smallMuted}>{flags}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <h2 style={styles.h2}>Box score</h2>
+        <div style={styles.underline} />
+        {boxError ? (
+          <p style={styles.error}>Error loading player_game_stats: {boxError}</p>
+        ) : players.length === 0 ? (
+          <p style={styles.smallMuted}>No player_game_stats rows for {fmtDate(match.match_date) || "this date"} vs {match.opponent ?? "this opponent"}.</p>
+        ) : (
+          <div style={{ ...styles.tableWrap, overflowX: "auto" }}>
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={styles.th}>Player</th>
+                  {statKeys.map((k) => (
+                    <th key={k} style={styles.thCenter} title={k}>
+                      {statLabel(k)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {players.map((p) => (
+                  <tr key={p.player}>
+                    <td style={styles.td}>
+                      <a href={`/players/${encodeURIComponent(p.player)}?${profileQuery}`} style={styles.link}>
+                        {p.player}
+                      </a>
+                      {p.position ? <span style={styles.smallMuted}> {p.position}</span> : null}
+                    </td>
+                    {statKeys.map((k) => (
+                      <td key={k} style={{ ...styles.tdCenter, ...(isLowerBetter(k) && p.stats[k] ? styles.errorCell : {}) }}>
+                        {p.stats[k] ?? 0}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td style={{ ...styles.td, fontWeight: 800 }}>Team</td>
+                  {statKeys.map((k) => (
+                    <td key={k} style={{ ...styles.tdCenter, fontWeight: 800 }}>
+                      {Number(totals[k].toFixed(2))}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    padding: 18,
+    maxWidth: 980,
+    margin: "0 auto",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji"',
+    color: "#111827",
+  },
+  back: { fontSize: 13, color: "#6b7280", textDecoration: "none" },
+  header: { marginTop: 8, marginBottom: 16 },
+  kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
+  h2: { fontSize: 18, margin: "0 0 8px", lineHeight: 1.2 },
+  underline: { height: 2, width: 56, background: "#111827", opacity: 0.12, borderRadius: 99, marginBottom: 12 },
+  subStat: { fontSize: 13, color: "#6b7280", marginTop: 4 },
+
+  section: { marginTop: 18 },
+
+  tableWrap: {
+    border: "1px solid rgba(17,24,39,0.10)",
+    borderRadius: 14,
+    overflow: "hidden",
+    background: "white",
+    boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
+  },
+  table: { width: "100%", borderCollapse: "separate", borderSpacing: 0 },
+  th: {
+    textAlign: "left",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 12px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+  },
+  thCenter: {
+    textAlign: "center",
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: 700,
+    padding: "12px 8px",
+    background: "rgba(17,24,39,0.02)",
+    borderBottom: "1px solid rgba(17,24,39,0.08)",
+    whiteSpace: "nowrap",
+  },
+  td: { padding: "10px 12px", borderBottom: "1px solid rgba(17,24,39,0.06)", verticalAlign: "top", fontSize: 14, whiteSpace: "nowrap" },
+  tdCenter: {
+    padding: "10px 8px",
+    borderBottom: "1px solid rgba(17,24,39,0.06)",
+    textAlign: "center",
+    verticalAlign: "top",
+    fontSize: 14,
+  },
+  won: { fontWeight: 800, color: "#166534" },
+  lost: { fontWeight: 800, color: "#991b1b" },
+  errorCell: { color: "#991b1b" },
+  link: { color: "#1d4ed8", textDecoration: "none", fontWeight: 650 },
+  smallMuted: { fontSize: 12, color: "#6b7280" },
+  resultDot: { width: 12, height: 12, borderRadius: 999, display: "inline-block", verticalAlign: "middle" },
+  dotWin: { background: "#22c55e" },
+  dotLoss: { background: "#ef4444" },
+
+  error: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: "1px solid rgba(239,68,68,0.25)",
+    background: "rgba(239,68,68,0.06)",
+    color: "#991b1b",
+    fontSize: 13,
+  },
+};
@@ -1,9 +1,18 @@
 // app/results/page.tsx
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
 import { supabaseService } from "../../lib/supabaseServer";
-
-const TEAM_ID = "7d5c9d23-e78c-4b08-8869-64cece1acee5"; // MVVC 14 Black
+import { ACCESS_TOKEN_COOKIE } from "../../lib/supabaseClient";
+import { getUserFromToken, listTeamsForUser } from "../../lib/auth";
+import { resolveTeamContext, seasonLabel, withSeasonWindow } from "../../lib/teamContext";
+import { computeSetRecord, matchSetCounts, matchSets } from "../../lib/setScores";
+import { computeAggregates, type StatRow } from "../../lib/aggregates";
+import { sameClub } from "../../lib/opponentReport";
+import { recordChart, srMonthlyChart, teamMonthlyChart } from "../../lib/charts";
+import TrendChart from "../TrendChart";
 
 type MatchRow = {
+  id: number;
   match_date: string | null; // date
   tournament: string | null;
   opponent: string | null;
@@ -13,6 +22,9 @@ type MatchRow = {
   sets_won: number | null;
   sets_lost: number | null;
   set_diff: number | null;
+  set_scores: any; // [{us, them}] parsed at import
+  points_for: number | null;
+  points_against: number | null;
 };
 
 function fmtDate(d: string | null) {
@@ -23,17 +35,76 @@ function fmtDate(d: string | null) {
   return `${m}/${day}/${y.slice(2)}`;
 }
 
+type SearchParams = { team?: string; season?: string; from?: string; to?: string; tournament?: string; opponent?: string };
+
+const UNKNOWN_TOURNAMENT = "Unknown Tournament";
+
+function tournamentName(m: MatchRow) {
+  return (m.tournament ?? "").trim() || UNKNOWN_TOURNAMENT;
+}
+
+// YYYY-MM-DD or nothing (date inputs send "" when cleared)
+function isoParam(v: string | undefined) {
+  const s = String(v ?? "").trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : "";
+}
+
+/** Filters live in the URL so a filtered view can be bookmarked / shared; `to` is inclusive. */
+function readFilters(sp: SearchParams) {
+  return {
+    from: isoParam(sp?.from),
+    to: isoParam(sp?.to),
+    tournament: String(sp?.tournament ?? "").trim(),
+    opponent: String(sp?.opponent ?? "").trim(),
+  };
+}
+
+function applyFilters(matches: MatchRow[], f: ReturnType<typeof readFilters>) {
+  return matches.filter((m) => {
+    if (f.from && (!m.match_date || m.match_date < f.from)) return false;
+    if (f.to && (!m.match_date || m.match_date > f.to)) return false;
+    if (f.tournament && tournamentName(m) !== f.tournament) return false;
+    if (f.opponent && (m.opponent ?? "").trim() !== f.opponent) return false;
+    return true;
+  });
+}
+
 export const dynamic = "force-dynamic"; // always fresh
 
-export default async function ResultsPage() {
+export default async function ResultsPage({ searchParams }: { searchParams: SearchParams }) {
   const supabase = supabaseService();
 
-  const { data, error } = await supabase
-    .from("match_results")
-    .select("match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff")
-    .eq("team_id", TEAM_ID)
+  const user = await getUserFromToken(cookies().get(ACCESS_TOKEN_COOKIE)?.value);
+  if (!user) redirect("/login?next=/results");
+
+  // Only the user's own teams are selectable / readable
+  const teams = await listTeamsForUser(supabase, user.id);
+  const ctx = await resolveTeamContext(supabase, {
+    teamId: searchParams?.team,
+    seasonId: searchParams?.season,
+    teams,
+    fallbackToFirst: true,
+  });
+
+  if (!ctx) {
+    return (
+      <main style={styles.page}>
+        <h1 style={styles.h1}>Results</h1>
+        <p style={styles.error}>You are not a member of any team yet. Ask a director to add you in team_members.</p>
+      </main>
+    );
+  }
+
+  const { data, error } = await withSeasonWindow(
+    supabase
+      .from("match_results")
+      .select("id,match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff,set_scores,points_for,points_against")
+      .eq("team_id", ctx.team.id),
+    "match_date",
+    ctx.season
+  )
     .order("match_date", { ascending: false })
-    .limit(300);
+    .limit(5000);
 
   if (error) {
     return (
@@ -44,7 +115,20 @@ export default async function ResultsPage() {
     );
   }
 
-  const matches: MatchRow[] = (data ?? []) as any;
+  // The whole season feeds the filter options; everything below is computed from the filtered rows
+  const seasonMatches: MatchRow[] = (data ?? []) as any;
+  const filters = readFilters(searchParams);
+  const matches = applyFilters(seasonMatches, filters);
+  const filtered = matches.length !== seasonMatches.length || !!(filters.from || filters.to || filters.tournament || filters.opponent);
+
+  const tournamentOptions = Array.from(new Set(seasonMatches.map(tournamentName))).sort();
+  const opponentOptions = Array.from(new Set(seasonMatches.map((m) => (m.opponent ?? "").trim()).filter(Boolean))).sort();
+
+  // Team + season without the other filters (clear link) and with them (match links come back here)
+  const baseQuery = new URLSearchParams({ team: ctx.team.id, ...(ctx.season ? { season: ctx.season.id } : {}) });
+  const fullQuery = new URLSearchParams(baseQuery);
+  for (const k of ["from", "to", "tournament", "opponent"] as const) if (filters[k]) fullQuery.set(k, filters[k]);
+  const matchHref = (m: MatchRow) => `/results/${m.id}?${fullQuery.toString()}`;
 
   // Overall record
   let wins = 0;
@@ -55,29 +139,38 @@ export default async function ResultsPage() {
   for (const m of matches) {
     if (m.result === "W") wins += 1;
     if (m.result === "L") losses += 1;
-    if (typeof m.sets_won === "number") setsWon += m.sets_won;
-    if (typeof m.sets_lost === "number") setsLost += m.sets_lost;
+    const sets = matchSetCounts(m); // set columns, else derived from the score
+    if (sets) {
+      setsWon += sets.won;
+      setsLost += sets.lost;
+    }
   }
 
+  const setRecord = computeSetRecord(matches.map((m) => matchSets(m)).filter(Boolean));
+
   const totalMatches = wins + losses;
   const matchWinPct = totalMatches ? (wins / totalMatches) * 100 : 0;
   const totalSets = setsWon + setsLost;
   const setWinPct = totalSets ? (setsWon / totalSets) * 100 : 0;
 
-  // Group by tournament
+  // Group by tournament (each keeps its matches for the expandable rows)
   const byTournament = new Map<
     string,
-    { tournament: string; w: number; l: number; sw: number; sl: number; lastDate: string | null }
+    { tournament: string; w: number; l: number; sw: number; sl: number; lastDate: string | null; matches: MatchRow[] }
   >();
 
   for (const m of matches) {
-    const t = (m.tournament ?? "Unknown Tournament").trim() || "Unknown Tournament";
-    const cur = byTournament.get(t) ?? { tournament: t, w: 0, l: 0, sw: 0, sl: 0, lastDate: null };
+    const t = tournamentName(m);
+    const cur = byTournament.get(t) ?? { tournament: t, w: 0, l: 0, sw: 0, sl: 0, lastDate: null, matches: [] };
+    cur.matches.push(m);
 
     if (m.result === "W") cur.w += 1;
     if (m.result === "L") cur.l += 1;
-    if (typeof m.sets_won === "number") cur.sw += m.sets_won;
-    if (typeof m.sets_lost === "number") cur.sl += m.sets_lost;
+    const sets = matchSetCounts(m);
+    if (sets) {
+      cur.sw += sets.won;
+      cur.sl += sets.lost;
+    }
 
     // latest date (matches are already sorted desc, but be safe)
     if (!cur.lastDate || (m.match_date && m.match_date > cur.lastDate)) cur.lastDate = m.match_date;
@@ -91,21 +184,106 @@ export default async function ResultsPage() {
     return bd.localeCompare(ad);
   });
 
-  // Recent matches (top 12)
-  const recent = matches.slice(0, 12);
+  // Recent matches (top 12), or every match the filters leave
+  const recent = filtered ? matches : matches.slice(0, 12);
+
+  // Trend charts: box-score rows for the same window; a filtered view keeps only the filtered matches' days + opponents
+  const statsRes = await withSeasonWindow(
+    supabase
+      .from("player_game_stats")
+      .select("player_name,position,game_date,opponent,stats")
+      .eq("team_id", ctx.team.id),
+    "game_date",
+    ctx.season
+  ).limit(15000);
+  const statsRows = ((statsRes.data ?? []) as StatRow[]).filter(
+    (r) =>
+      !filtered ||
+      matches.some((m) => m.match_date === r.game_date && (!r.opponent || !m.opponent || sameClub(r.opponent, m.opponent)))
+  );
+  const trendAgg = computeAggregates([], statsRows);
+  const charts = [recordChart(matches), teamMonthlyChart(trendAgg.teamByMonth), srMonthlyChart(trendAgg.srByMonth)].filter(Boolean);
 
   return (
     <main style={styles.page}>
       <header style={styles.header}>
         <div>
-          <div style={styles.kicker}>MVVC 14 Black</div>
+          <div style={styles.kicker}>
+            {ctx.team.name} • {seasonLabel(ctx.season)}
+          </div>
           <h1 style={styles.h1}>Results Dashboard</h1>
         </div>
+
+        {/* Team / season picker (plain GET form → URL-driven state) */}
+        <form method="get" style={styles.picker}>
+          <select name="team" defaultValue={ctx.team.id} style={styles.select}>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select name="season" defaultValue={ctx.season?.id ?? ""} style={styles.select}>
+            <option value="">Current season</option>
+            {ctx.seasons.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" style={styles.pickerButton}>
+            Apply
+          </button>
+        </form>
       </header>
 
+      {/* Filters (same GET form pattern; team + season ride along as hidden fields) */}
+      <form method="get" style={styles.filters}>
+        <input type="hidden" name="team" value={ctx.team.id} />
+        {ctx.season && <input type="hidden" name="season" value={ctx.season.id} />}
+        <label style={styles.filterLabel}>
+          From
+          <input type="date" name="from" defaultValue={filters.from} style={styles.select} />
+        </label>
+        <label style={styles.filterLabel}>
+          To
+          <input type="date" name="to" defaultValue={filters.to} style={styles.select} />
+        </label>
+        <label style={styles.filterLabel}>
+          Tournament
+          <select name="tournament" defaultValue={filters.tournament} style={styles.select}>
+            <option value="">All</option>
+            {tournamentOptions.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={styles.filterLabel}>
+          Opponent
+          <select name="opponent" defaultValue={filters.opponent} style={styles.select}>
+            <option value="">All</option>
+            {opponentOptions.map((o) => (
+              <option key={o} value={o}>
+                {o}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" style={styles.pickerButton}>
+          Filter
+        </button>
+        {filtered && (
+          <a href={`/results?${baseQuery.toString()}`} style={styles.clearLink}>
+            Clear
+          </a>
+        )}
+      </form>
+
       {/* Summary cards */}
 <section style={styles.grid} className="summary-grid">        <div style={styles.card}>
-          <div style={styles.cardLabel}>Overall record</div>
+          <div style={styles.cardLabel}>{filtered ? "Record (filtered)" : "Overall record"}</div>
           <div style={styles.bigStat}>
             {wins}-{losses}
           </div>
@@ -123,71 +301,123 @@ export default async function ResultsPage() {
         <div style={styles.card}>
           <div style={styles.cardLabel}>Matches logged</div>
           <div style={styles.bigStat}>{matches.length}</div>
-          <div style={styles.subStat}>pulled from match_results</div>
+          <div style={styles.subStat}>{filtered ? `of ${seasonMatches.length} this season` : "pulled from match_results"}</div>
+        </div>
+
+        <div style={styles.card}>
+          <div style={styles.cardLabel}>Points</div>
+          <div style={styles.bigStat}>
+            {setRecord.pointDiff > 0 ? "+" : ""}
+            {setRecord.pointDiff}
+          </div>
+          <div style={styles.subStat}>
+            {setRecord.pointsFor}-{setRecord.pointsAgainst} over {setRecord.matchesWithScores} matches with set scores
+          </div>
+        </div>
+
+        <div style={styles.card}>
+          <div style={styles.cardLabel}>Deciding sets</div>
+          <div style={styles.bigStat}>
+            {setRecord.decidingSets.won}-{setRecord.decidingSets.lost}
+          </div>
+          <div style={styles.subStat}>3rd set of 3 / 5th set of 5</div>
+        </div>
+
+        <div style={styles.card}>
+          <div style={styles.cardLabel}>Deuce sets</div>
+          <div style={styles.bigStat}>
+            {setRecord.deuceSets.won}-{setRecord.deuceSets.lost}
+          </div>
+          <div style={styles.subStat}>sets won past 25 (15 in a deciding set)</div>
         </div>
       </section>
 
-      {/* Tournament table */}
+      {/* Trends */}
+      <section style={styles.section}>
+        <h2 style={styles.h2}>Trends</h2>
+        <div style={styles.underline} />
+        {statsRes.error && <p style={styles.error}>Error loading player_game_stats: {statsRes.error.message}</p>}
+        {charts.length === 0 ? (
+          <p style={styles.smallMuted}>Nothing to chart yet{filtered ? " for these filters" : ""}.</p>
+        ) : (
+          <div style={styles.chartGrid}>
+            {charts.map((c) => (
+              <TrendChart key={c!.title} spec={c!} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Tournaments: each row expands to its matches */}
       <section style={styles.section}>
         <h2 style={styles.h2}>Tournaments</h2>
         <div style={styles.underline} />
         <div style={styles.tableWrap}>
-          <table style={styles.table}>
-            <thead>
-              <tr>
-                <th style={styles.th}>Tournament</th>
-                <th style={styles.thCenter}>W-L</th>
-                <th style={styles.thCenter}>Sets</th>
-                <th style={styles.thCenter}>Last</th>
-              </tr>
-            </thead>
-            <tbody>
-              {tournamentRows.map((t) => {
-                const total = t.w + t.l;
-                const pct = total ? (t.w / total) * 100 : 0;
-                return (
-                  <tr key={t.tournament}>
-                    <td style={styles.td}>
-                      <div style={styles.tournamentName}>{t.tournament}</div>
-                      <div style={styles.smallMuted}>{pct.toFixed(1)}% match win</div>
-                    </td>
-                    <td style={styles.tdCenter}>
-                      <span style={styles.pill}>
-                        {t.w}-{t.l}
-                      </span>
-                    </td>
-                    <td style={styles.tdCenter}>
-                      <span style={styles.pill}>
-                        {t.sw}-{t.sl}
-                      </span>
-                    </td>
-                    <td style={styles.tdCenter}>{fmtDate(t.lastDate)}</td>
-                  </tr>
-                );
-              })}
-              {tournamentRows.length === 0 && (
-                <tr>
-                  <td style={styles.td} colSpan={4}>
-                    No tournaments found yet.
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
+          <div style={{ ...styles.tournamentGrid, ...styles.tournamentHead }}>
+            <span>Tournament</span>
+            <span style={styles.center}>W-L</span>
+            <span style={styles.center}>Sets</span>
+            <span style={styles.center}>Last</span>
+          </div>
+          {tournamentRows.map((t) => {
+            const total = t.w + t.l;
+            const pct = total ? (t.w / total) * 100 : 0;
+            return (
+              <details key={t.tournament} open={tournamentRows.length === 1} style={styles.tournamentRow}>
+                <summary style={{ ...styles.tournamentGrid, ...styles.tournamentSummary }}>
+                  <span>
+                    <div style={styles.tournamentName}>{t.tournament}</div>
+                    <div style={styles.smallMuted}>
+                      {pct.toFixed(1)}% match win • {t.matches.length} match{t.matches.length === 1 ? "" : "es"}
+                    </div>
+                  </span>
+                  <span style={styles.center}>
+                    <span style={styles.pill}>
+                      {t.w}-{t.l}
+                    </span>
+                  </span>
+                  <span style={styles.center}>
+                    <span style={styles.pill}>
+                      {t.sw}-{t.sl}
+                    </span>
+                  </span>
+                  <span style={styles.center}>{fmtDate(t.lastDate)}</span>
+                </summary>
+                <table style={styles.table}>
+                  <tbody>
+                    {t.matches.map((m) => (
+                      <tr key={m.id}>
+                        <td style={styles.tdNested}>{fmtDate(m.match_date)}</td>
+                        <td style={styles.tdNested}>{m.round ?? "—"}</td>
+                        <td style={styles.tdNested}>
+                          <a href={matchHref(m)} style={styles.link}>
+                            {m.result === "W" ? "W" : m.result === "L" ? "L" : "—"} vs {m.opponent ?? "Unknown"}
+                          </a>
+                        </td>
+                        <td style={styles.tdNested}>{m.score ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            );
+          })}
+          {tournamentRows.length === 0 && <div style={styles.td}>No tournaments found{filtered ? " for these filters" : " yet"}.</div>}
         </div>
       </section>
 
       {/* Recent matches */}
       <section style={styles.section}>
-        <h2 style={styles.h2}>Recent matches</h2>
+        <h2 style={styles.h2}>{filtered ? `Matches (${matches.length})` : "Recent matches"}</h2>
         <div style={styles.underline} />
 
         <div style={styles.list}>
           {recent.map((m, idx) => {
             const res = m.result ?? "";
             const isWin = res === "W";
+            const sets = matchSetCounts(m);
             return (
-              <div key={`${m.match_date}-${m.opponent}-${idx}`} style={styles.matchRow}>
+              <a key={`${m.match_date}-${m.opponent}-${idx}`} href={matchHref(m)} style={styles.matchRow}>
                 <div style={styles.matchLeft}>
                   <div style={styles.matchTop}>
                     <span style={{ ...styles.resultDot, ...(isWin ? styles.dotWin : styles.dotLoss) }} />
@@ -203,17 +433,20 @@ export default async function ResultsPage() {
 
                 <div style={styles.matchRight}>
                   <div style={styles.score}>{m.score ?? ""}</div>
-                  {typeof m.sets_won === "number" && typeof m.sets_lost === "number" ? (
+                  {sets ? (
                     <div style={styles.smallMuted}>
-                      Sets {m.sets_won}-{m.sets_lost}
+                      Sets {sets.won}-{sets.lost}
+                      {typeof m.points_for === "number" && typeof m.points_against === "number"
+                        ? ` • ${m.points_for - m.points_against > 0 ? "+" : ""}${m.points_for - m.points_against} pts`
+                        : ""}
                     </div>
                   ) : null}
                 </div>
-              </div>
+              </a>
             );
           })}
 
-          {recent.length === 0 && <div style={styles.smallMuted}>No matches found yet.</div>}
+          {recent.length === 0 && <div style={styles.smallMuted}>No matches found{filtered ? " for these filters" : " yet"}.</div>}
         </div>
       </section>
     </main>
@@ -231,6 +464,21 @@ const styles: Record<string, React.CSSProperties> = {
   },
   header: { display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, marginBottom: 16 },
   kicker: { fontSize: 13, color: "#6b7280", fontWeight: 600, letterSpacing: 0.2 },
+  picker: { display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" },
+  filters: { display: "flex", gap: 10, alignItems: "flex-end", flexWrap: "wrap", marginBottom: 16 },
+  filterLabel: { display: "flex", flexDirection: "column", gap: 4, fontSize: 12, color: "#6b7280", fontWeight: 600 },
+  clearLink: { fontSize: 13, color: "#6b7280", alignSelf: "center" },
+  select: { padding: "6px 8px", borderRadius: 10, border: "1px solid rgba(17,24,39,0.14)", fontSize: 13, background: "white" },
+  pickerButton: {
+    padding: "6px 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(17,24,39,0.14)",
+    background: "#111827",
+    color: "white",
+    fontSize: 13,
+    fontWeight: 700,
+    cursor: "pointer",
+  },
   h1: { fontSize: 26, margin: "4px 0 0", lineHeight: 1.15 },
   h2: { fontSize: 18, margin: "0 0 8px", lineHeight: 1.2 },
   underline: { height: 2, width: 56, background: "#111827", opacity: 0.12, borderRadius: 99, marginBottom: 12 },
@@ -254,6 +502,7 @@ const styles: Record<string, React.CSSProperties> = {
   subStat: { fontSize: 13, color: "#6b7280", marginTop: 4 },
 
   section: { marginTop: 18 },
+  chartGrid: { display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(380px, 1fr))", gap: 12 },
 
   tableWrap: {
     border: "1px solid rgba(17,24,39,0.10)",
@@ -263,33 +512,15 @@ const styles: Record<string, React.CSSProperties> = {
     boxShadow: "0 1px 10px rgba(17,24,39,0.04)",
   },
   table: { width: "100%", borderCollapse: "separate", borderSpacing: 0 },
-  th: {
-    textAlign: "left",
-    fontSize: 12,
-    color: "#6b7280",
-    fontWeight: 700,
-    padding: "12px 12px",
-    background: "rgba(17,24,39,0.02)",
-    borderBottom: "1px solid rgba(17,24,39,0.08)",
-  },
-  thCenter: {
-    textAlign: "center",
-    fontSize: 12,
-    color: "#6b7280",
-    fontWeight: 700,
-    padding: "12px 12px",
-    background: "rgba(17,24,39,0.02)",
-    borderBottom: "1px solid rgba(17,24,39,0.08)",
-    width: 90,
-  },
   td: { padding: "12px 12px", borderBottom: "1px solid rgba(17,24,39,0.06)", verticalAlign: "top" },
-  tdCenter: {
-    padding: "12px 12px",
-    borderBottom: "1px solid rgba(17,24,39,0.06)",
-    textAlign: "center",
-    verticalAlign: "top",
-  },
   tournamentName: { fontWeight: 750, fontSize: 14, marginBottom: 2 },
+  tournamentGrid: { display: "grid", gridTemplateColumns: "1fr 90px 90px 90px", alignItems: "center", gap: 8, padding: "12px 12px" },
+  tournamentHead: { fontSize: 12, color: "#6b7280", fontWeight: 700, background: "rgba(17,24,39,0.02)", borderBottom: "1px solid rgba(17,24,39,0.08)" },
+  tournamentRow: { borderBottom: "1px solid rgba(17,24,39,0.06)" },
+  tournamentSummary: { cursor: "pointer", listStyle: "none" },
+  tdNested: { padding: "8px 12px", borderTop: "1px solid rgba(17,24,39,0.04)", fontSize: 13, background: "rgba(17,24,39,0.015)" },
+  center: { textAlign: "center" },
+  link: { color: "#1d4ed8", textDecoration: "none", fontWeight: 650 },
   smallMuted: { fontSize: 12, color: "#6b7280" },
   pill: {
     display: "inline-block",
@@ -318,6 +549,8 @@ const styles: Record<string, React.CSSProperties> = {
     padding: 10,
     borderRadius: 12,
     border: "1px solid rgba(17,24,39,0.06)",
+    color: "inherit",
+    textDecoration: "none",
   },
   matchLeft: { minWidth: 0, flex: 1 },
   matchRight: { textAlign: "right", minWidth: 120 },
@@ -0,0 +1,262 @@
+import { computeSetRecord, matchSetCounts, matchSets, pointTotals, type SetScore } from "./setScores";
+
+/**
+ * Season aggregation over raw match_results + player_game_stats rows.
+ * Shared by chat, the stats query route and the pages so every surface reports the same numbers.
+ */
+
+export type MatchRow = {
+  match_date: string | null;
+  tournament: string | null;
+  opponent: string | null;
+  result: string | null;
+  score: string | null;
+  round: string | null;
+  sets_won: number | null;
+  sets_lost: number | null;
+  set_diff: number | null;
+  set_scores: any; // jsonb [{us, them}] or null
+  points_for: number | null;
+  points_against: number | null;
+};
+
+export type StatRow = {
+  player_name: string | null;
+  position: string | null;
+  game_date: string | null;
+  opponent: string | null;
+  stats: any; // jsonb (object or stringified JSON)
+};
+
+export type PlayerAgg = {
+  position: string | null;
+  totals: Record<string, number>;
+  srAttempts: number;
+  srWeightedSum: number;
+};
+
+export function toNum(v: any): number {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === "number") return Number.isFinite(v) ? v : 0;
+  const str = String(v).trim();
+  if (!str) return 0;
+  const n = Number(str);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function parseStats(stats: any): Record<string, any> {
+  if (!stats) return {};
+  if (typeof stats === "object") return stats;
+  try {
+    return JSON.parse(stats);
+  } catch {
+    return {};
+  }
+}
+
+export function normalizeWinLoss(result: string | null): "W" | "L" | null {
+  if (!result) return null;
+  const r = result.toLowerCase();
+  if (r === "w" || r.includes("won") || r.includes("win")) return "W";
+  if (r === "l" || r.includes("lost") || r.includes("loss")) return "L";
+  return null;
+}
+
+export function safeIso(d: string | null) {
+  const x = (d ?? "").trim();
+  return x && x.includes("-") ? x : "";
+}
+
+export function monthKey(isoDate: string) {
+  return isoDate.slice(0, 7);
+}
+
+export function topNForKey(byPlayer: Record<string, PlayerAgg>, key: string, n: number) {
+  return Object.keys(byPlayer)
+    .map((p) => ({ player: p, value: toNum(byPlayer[p].totals[key]) }))
+    .filter((x) => x.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, n);
+}
+
+export function topNPassersOverall(byPlayer: Record<string, PlayerAgg>, n: number) {
+  return Object.keys(byPlayer)
+    .map((p) => {
+      const att = byPlayer[p].srAttempts;
+      const sum = byPlayer[p].srWeightedSum;
+      const r = att > 0 ? sum / att : 0;
+      return { player: p, rating: Number(r.toFixed(2)), attempts: att };
+    })
+    .filter((x) => x.attempts > 0)
+    .sort((a, b) => b.rating - a.rating)
+    .slice(0, n);
+}
+
+/** set_diff column, else derived from the score (older rows / CSVs without set columns). */
+export function matchSetDiff(m: MatchRow): number | null {
+  if (typeof m.set_diff === "number") return m.set_diff;
+  const counts = matchSetCounts(m);
+  return counts ? counts.won - counts.lost : null;
+}
+
+export function computeAggregates(matches: MatchRow[], statsRows: StatRow[]) {
+  let wins = 0;
+  let losses = 0;
+
+  // Opponent breakdown + trouble opponents
+  const opp: Record<
+    string,
+    {
+      matches: number;
+      wins: number;
+      losses: number;
+      setDiff: number;
+      pointDiff: number;
+      lastDate: string;
+      lastScore?: string | null;
+    }
+  > = {};
+
+  // Per-set scores (stored or parsed from score text) for point / deciding-set / deuce-set records
+  const scoredMatches: SetScore[][] = [];
+
+  // last match
+  let lastMatch: MatchRow | null = null;
+
+  for (const m of matches) {
+    const iso = safeIso(m.match_date);
+    if (iso) {
+      if (!lastMatch || safeIso(lastMatch.match_date).localeCompare(iso) < 0) lastMatch = m;
+    }
+
+    const wl = normalizeWinLoss(m.result);
+    if (wl === "W") wins++;
+    if (wl === "L") losses++;
+
+    const opponent = (m.opponent ?? "").trim() || "Unknown Opponent";
+    if (!opp[opponent]) opp[opponent] = { matches: 0, wins: 0, losses: 0, setDiff: 0, pointDiff: 0, lastDate: "", lastScore: null };
+    opp[opponent].matches += 1;
+    if (wl === "W") opp[opponent].wins += 1;
+    if (wl === "L") opp[opponent].losses += 1;
+
+    opp[opponent].setDiff += toNum(matchSetDiff(m));
+
+    const sets = matchSets(m);
+    if (sets) {
+      scoredMatches.push(sets);
+      const t = pointTotals(sets);
+      opp[opponent].pointDiff += t.pointsFor - t.pointsAgainst;
+    }
+    if (iso && opp[opponent].lastDate.localeCompare(iso) < 0) {
+      opp[opponent].lastDate = iso;
+      opp[opponent].lastScore = m.score ?? null;
+    }
+  }
+
+  const byPlayer: Record<string, PlayerAgg> = {};
+  const teamByMonth: Record<string, Record<string, number>> = {};
+  const srByMonth: Record<string, { attempts: number; weightedSum: number }> = {};
+  const statKeySet = new Set<string>();
+
+  for (const row of statsRows) {
+    const player = (row.player_name ?? "").trim();
+    if (!player) continue;
+
+    const stats = parseStats(row.stats);
+    const pos = (row.position ?? stats.position ?? null) as string | null;
+
+    const iso = safeIso(row.game_date);
+    const mk = iso ? monthKey(iso) : "";
+
+    if (!byPlayer[player]) byPlayer[player] = { position: pos, totals: {}, srAttempts: 0, srWeightedSum: 0 };
+    if (!byPlayer[player].position && pos) byPlayer[player].position = pos;
+
+    for (const key of Object.keys(stats)) {
+      if (key === "player_name" || key === "position" || key === "opponent" || key === "match_date" || key === "source_file") continue;
+      const n = toNum(stats[key]);
+      if (n === 0) continue;
+
+      statKeySet.add(key);
+      byPlayer[player].totals[key] = (byPlayer[player].totals[key] ?? 0) + n;
+
+      if (mk) {
+        teamByMonth[mk] = teamByMonth[mk] ?? {};
+        teamByMonth[mk][key] = (teamByMonth[mk][key] ?? 0) + n;
+      }
+    }
+
+    const srAtt = toNum(stats.serve_receive_attempts);
+    const srRating = toNum(stats.serve_receive_passing_rating);
+    if (srAtt > 0) {
+      byPlayer[player].srAttempts += srAtt;
+      byPlayer[player].srWeightedSum += srRating * srAtt;
+
+      if (mk) {
+        srByMonth[mk] = srByMonth[mk] ?? { attempts: 0, weightedSum: 0 };
+        srByMonth[mk].attempts += srAtt;
+        srByMonth[mk].weightedSum += srRating * srAtt;
+      }
+    }
+  }
+
+  // Team SR overall
+  let teamSrAttempts = 0;
+  let teamSrWeightedSum = 0;
+  for (const p of Object.keys(byPlayer)) {
+    teamSrAttempts += byPlayer[p].srAttempts;
+    teamSrWeightedSum += byPlayer[p].srWeightedSum;
+  }
+  const teamSrRating = teamSrAttempts > 0 ? teamSrWeightedSum / teamSrAttempts : 0;
+
+  // Positions map
+  const positions: Record<string, string | null> = {};
+  for (const p of Object.keys(byPlayer)) positions[p] = byPlayer[p].position ?? null;
+
+  // Last 5 losses (for "what would we change in losses?")
+  const lossesList = matches
+    .filter((m) => normalizeWinLoss(m.result) === "L" && safeIso(m.match_date))
+    .slice()
+    .sort((a, b) => safeIso(b.match_date).localeCompare(safeIso(a.match_date)))
+    .slice(0, 5)
+    .map((m) => ({
+      date: m.match_date,
+      opponent: m.opponent,
+      tournament: m.tournament,
+      round: m.round,
+      score: m.score,
+      set_diff: matchSetDiff(m),
+    }));
+
+  // Opponent summary sorted by "trouble" (losses, then setDiff)
+  const opponentSummary = Object.keys(opp)
+    .map((k) => ({
+      opponent: k,
+      matches: opp[k].matches,
+      wins: opp[k].wins,
+      losses: opp[k].losses,
+      setDiff: opp[k].setDiff,
+      pointDiff: opp[k].pointDiff,
+      lastDate: opp[k].lastDate || null,
+      lastScore: opp[k].lastScore ?? null,
+    }))
+    .sort((a, b) => (b.losses !== a.losses ? b.losses - a.losses : a.setDiff - b.setDiff));
+
+  return {
+    wins,
+    losses,
+    lastMatch,
+    lossesList,
+    byPlayer,
+    positions,
+    opponentSummary,
+    setRecord: computeSetRecord(scoredMatches),
+    availableStatKeys: Array.from(statKeySet.values()).sort(),
+    teamServeReceive: teamSrAttempts > 0 ? { scale: "0-3", rating: Number(teamSrRating.toFixed(2)), attempts: teamSrAttempts } : null,
+    teamByMonth,
+    srByMonth,
+    hasMatches: matches.length > 0,
+    hasStats: Object.keys(byPlayer).length > 0,
+  };
+}
+
+export type Aggregates = ReturnType<typeof computeAggregates>;
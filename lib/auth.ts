@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { supabaseService } from "./supabaseServer";
+import { ACCESS_TOKEN_COOKIE } from "./supabaseClient";
+import { listTeams, resolveTeamContext, type TeamContext, type TeamRow } from "./teamContext";
+
+/**
+ * Server-side auth + team_members role checks.
+ * Routes still read data with the service role, so these checks are the only gate — call them first.
+ */
+
+export type TeamRole = "head_coach" | "assistant_coach" | "director" | "read_only";
+
+export const IMPORT_ROLES: TeamRole[] = ["head_coach", "director"];
+
+export class AuthError extends Error {
+  status: 401 | 403 | 404;
+  constructor(status: 401 | 403 | 404, message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+function readCookie(header: string | null, name: string) {
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return null;
+}
+
+/** Bearer token from the Authorization header, else the mirrored session cookie. */
+export function accessTokenFromRequest(req: Request) {
+  const auth = req.headers.get("authorization") ?? "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  if (m) return m[1].trim();
+  return readCookie(req.headers.get("cookie"), ACCESS_TOKEN_COOKIE);
+}
+
+export async function getUserFromToken(token: string | null | undefined): Promise<User | null> {
+  if (!token) return null;
+  const { data, error } = await supabaseService().auth.getUser(token);
+  if (error) return null;
+  return data?.user ?? null;
+}
+
+export async function requireUser(token: string | null | undefined) {
+  const user = await getUserFromToken(token);
+  if (!user) throw new AuthError(401, "Not signed in");
+  return user;
+}
+
+export async function listMemberships(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase.from("team_members").select("team_id,role").eq("user_id", userId);
+  if (error) throw error;
+  return (data ?? []) as Array<{ team_id: string; role: TeamRole }>;
+}
+
+/** Teams the user belongs to, each with their role. */
+export async function listTeamsForUser(supabase: SupabaseClient, userId: string) {
+  const memberships = await listMemberships(supabase, userId);
+  const roleByTeam = new Map(memberships.map((m) => [m.team_id, m.role]));
+  const teams = await listTeams(supabase);
+  return teams
+    .filter((t) => roleByTeam.has(t.id))
+    .map((t) => ({ ...t, role: roleByTeam.get(t.id)! })) as Array<TeamRow & { role: TeamRole }>;
+}
+
+/**
+ * Resolve team + season for a signed-in user and enforce membership (and optionally a role).
+ * No teamId → the user's first team.
+ */
+export async function requireTeamContext(
+  token: string | null | undefined,
+  opts: { teamId?: string | null; seasonId?: string | null; roles?: TeamRole[] }
+): Promise<{ user: User; role: TeamRole; ctx: TeamContext; teams: Array<TeamRow & { role: TeamRole }> }> {
+  const user = await requireUser(token);
+  const supabase = supabaseService();
+  const teams = await listTeamsForUser(supabase, user.id);
+
+  const wanted = (opts.teamId ?? "").trim();
+  if (wanted && !teams.some((t) => t.id === wanted)) throw new AuthError(403, "You are not a member of this team");
+  if (!teams.length) throw new AuthError(403, "You are not a member of any team yet");
+
+  const ctx = await resolveTeamContext(supabase, { teamId: wanted, seasonId: opts.seasonId, teams });
+  if (!ctx) throw new AuthError(404, "Unknown team");
+
+  const role = teams.find((t) => t.id === ctx.team.id)!.role;
+  if (opts.roles && !opts.roles.includes(role)) {
+    throw new AuthError(403, `This action requires one of: ${opts.roles.join(", ")} (you are ${role})`);
+  }
+
+  return { user, role, ctx, teams };
+}
+
+/** JSON response for an AuthError, or null if `e` is something else. */
+export function authErrorResponse(e: any) {
+  if (e instanceof AuthError) return NextResponse.json({ error: e.message }, { status: e.status });
+  return null;
+}
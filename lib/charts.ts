@@ -0,0 +1,193 @@
+import { monthKey, normalizeWinLoss, parseStats, safeIso, toNum, type MatchRow } from "./aggregates";
+import { isLowerBetter } from "./playerProfile";
+
+/**
+ * Trend chart data: team kills / errors / aces and SR by month (computeAggregates' teamByMonth and
+ * srByMonth), a player's month-by-month line, and the running W-L by date.
+ * A ChartSpec is plain JSON so the same shape renders on the server pages (app/TrendChart.tsx) and
+ * inside chat answers, where it travels as a fenced ```chart block.
+ */
+
+export type ChartPoint = { x: string; y: number };
+
+export type ChartSeries = { label: string; points: ChartPoint[] };
+
+export type ChartSpec = {
+  title: string;
+  kind: "line" | "bar";
+  yLabel?: string;
+  yMin?: number;
+  yMax?: number;
+  series: ChartSeries[];
+};
+
+export const CHART_LANG = "chart";
+
+// Past this a chat chart is unreadable anyway (and a runaway block shouldn't freeze the page)
+const MAX_SERIES = 6;
+const MAX_POINTS = 120;
+
+// "Errors" is every counting stat that ends in error(s): attack, serve, ball-handling, ...
+function errorTotal(stats: Record<string, number>) {
+  return Object.keys(stats).reduce((n, k) => (isLowerBetter(k) ? n + toNum(stats[k]) : n), 0);
+}
+
+function round2(n: number) {
+  return Number(n.toFixed(2));
+}
+
+/** Kills, errors and aces per month from computeAggregates().teamByMonth. */
+export function teamMonthlyChart(teamByMonth: Record<string, Record<string, number>>): ChartSpec | null {
+  const months = Object.keys(teamByMonth).sort();
+  if (!months.length) return null;
+  const line = (label: string, value: (t: Record<string, number>) => number) => ({
+    label,
+    points: months.map((m) => ({ x: m, y: round2(value(teamByMonth[m])) })),
+  });
+  return {
+    title: "Team kills, errors and aces by month",
+    kind: "line",
+    yMin: 0,
+    series: [line("Kills", (t) => toNum(t.attack_kills)), line("Errors", errorTotal), line("Aces", (t) => toNum(t.serve_aces))],
+  };
+}
+
+/** Attempts-weighted SR rating (0–3) per month; same for the team (srByMonth) or one player. */
+export function srMonthlyChart(srByMonth: Record<string, { attempts: number; weightedSum: number }>, title = "Team serve-receive by month"): ChartSpec | null {
+  const months = Object.keys(srByMonth)
+    .filter((m) => srByMonth[m].attempts > 0)
+    .sort();
+  if (!months.length) return null;
+  return {
+    title,
+    kind: "line",
+    yLabel: "SR (0–3)",
+    yMin: 0,
+    yMax: 3,
+    series: [{ label: "SR rating", points: months.map((m) => ({ x: m, y: round2(srByMonth[m].weightedSum / srByMonth[m].attempts) })) }],
+  };
+}
+
+/** Cumulative wins and losses after each match day, oldest first. */
+export function recordChart(matches: MatchRow[]): ChartSpec | null {
+  const byDay = new Map<string, { w: number; l: number }>();
+  for (const m of matches) {
+    const day = safeIso(m.match_date);
+    const wl = normalizeWinLoss(m.result);
+    if (!day || !wl) continue;
+    const cur = byDay.get(day) ?? { w: 0, l: 0 };
+    if (wl === "W") cur.w++;
+    else cur.l++;
+    byDay.set(day, cur);
+  }
+  const days = Array.from(byDay.keys()).sort();
+  if (!days.length) return null;
+
+  let w = 0;
+  let l = 0;
+  const wins: ChartPoint[] = [];
+  const losses: ChartPoint[] = [];
+  for (const d of days) {
+    w += byDay.get(d)!.w;
+    l += byDay.get(d)!.l;
+    wins.push({ x: d, y: w });
+    losses.push({ x: d, y: l });
+  }
+  return { title: `Running record (${w}-${l})`, kind: "line", yMin: 0, series: [{ label: "Wins", points: wins }, { label: "Losses", points: losses }] };
+}
+
+/** One player's kills / errors / aces by month, from their player_game_stats rows. */
+export function playerMonthlyChart(name: string, rows: Array<{ game_date: string | null; stats: any }>): ChartSpec | null {
+  const months: Record<string, Record<string, number>> = {};
+  for (const r of rows) {
+    const iso = safeIso(r.game_date);
+    if (!iso) continue;
+    const mk = monthKey(iso);
+    const stats = parseStats(r.stats);
+    const cur = (months[mk] = months[mk] ?? {});
+    for (const k of Object.keys(stats)) cur[k] = (cur[k] ?? 0) + toNum(stats[k]);
+  }
+  const chart = teamMonthlyChart(months);
+  return chart ? { ...chart, title: `${name}: kills, errors and aces by month` } : null;
+}
+
+/* -------------------------- Chat blocks -------------------------- */
+
+/** The fenced block chat answers embed; app/page.tsx renders it as a chart. */
+export function chartBlock(spec: ChartSpec) {
+  return "```" + CHART_LANG + "\n" + JSON.stringify(spec) + "\n```";
+}
+
+// Chat answers name a chart instead of spelling out its data: ```chart\nrecord\n```
+// Any ```chart fence, through its closing fence (or the end of a cut-off answer)
+const CHART_FENCE = new RegExp("```" + CHART_LANG + "[ \\t]*\\n([\\s\\S]*?)(?:```|$)", "g");
+
+// A block body that is only a chart name (not yet expanded)
+function isChartRef(text: string) {
+  return /^\s*[A-Za-z][\w-]*\s*$/.test(text);
+}
+
+/**
+ * Swaps each named chart block for the full one, so the numbers always come from the server's data
+ * and the model spends a few tokens per chart. Unknown names and chart blocks with data the model
+ * wrote itself become a short note: only blocks built here reach the client.
+ */
+export function expandChartRefs(text: string, charts: Record<string, ChartSpec | null>) {
+  return text.replace(CHART_FENCE, (_, body: string) => {
+    if (!isChartRef(body)) return "_(No chart: charts can only show the team's data.)_";
+    const name = body.trim();
+    const spec = Object.prototype.hasOwnProperty.call(charts, name) ? charts[name] : null;
+    return spec ? chartBlock(spec) : `_(No "${name}" chart for this window.)_`;
+  });
+}
+
+/** A chart block's JSON → ChartSpec, or null when it isn't one (half-streamed, hand-written, malformed). */
+export function parseChartSpec(text: string): ChartSpec | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.series)) return null;
+
+  const series: ChartSeries[] = raw.series
+    .slice(0, MAX_SERIES)
+    .map((s: any) => ({
+      label: String(s?.label ?? ""),
+      points: (Array.isArray(s?.points) ? s.points : [])
+        .slice(0, MAX_POINTS)
+        .map((p: any) => ({ x: String(p?.x ?? ""), y: Number(p?.y) }))
+        .filter((p: ChartPoint) => p.x && Number.isFinite(p.y)),
+    }))
+    .filter((s: ChartSeries) => s.points.length > 0);
+  if (!series.length) return null;
+
+  const num = (v: any) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+  return {
+    title: String(raw.title ?? ""),
+    kind: raw.kind === "bar" ? "bar" : "line",
+    yLabel: typeof raw.yLabel === "string" ? raw.yLabel : undefined,
+    yMin: num(raw.yMin),
+    yMax: num(raw.yMax),
+    series,
+  };
+}
+
+/** teamByMonth + srByMonth as rows for FACTS_JSON (the numbers behind the team charts). */
+export function monthlyTrendRows(teamByMonth: Record<string, Record<string, number>>, srByMonth: Record<string, { attempts: number; weightedSum: number }>) {
+  return Array.from(new Set([...Object.keys(teamByMonth), ...Object.keys(srByMonth)]))
+    .sort()
+    .map((month) => {
+      const t = teamByMonth[month] ?? {};
+      const sr = srByMonth[month];
+      return {
+        month,
+        kills: toNum(t.attack_kills),
+        errors: errorTotal(t),
+        aces: toNum(t.serve_aces),
+        srRating: sr?.attempts ? round2(sr.weightedSum / sr.attempts) : null,
+        srAttempts: sr?.attempts ?? 0,
+      };
+    });
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isUuid } from "./supabaseServer";
+
+/**
+ * chat_threads / chat_messages: saved conversations, one owner (coach) and one team per thread.
+ * The chat route appends each question + answer and sends the recent turns back to the model,
+ * so follow-ups ("what about vs. them in pool play?") keep their referent.
+ */
+
+// Turns (question + answer pairs) sent back to the model; older ones are dropped
+export const HISTORY_TURNS = 6;
+// Per-message cap in the model input (long tables from earlier answers add little)
+const HISTORY_MESSAGE_CHARS = 1500;
+
+export type ChatThread = {
+  id: string;
+  team_id: string;
+  user_id: string;
+  season_id: string | null;
+  title: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ChatMessage = {
+  id: number;
+  thread_id: string;
+  role: "user" | "assistant";
+  content: string;
+  source: string | null; // answers: the provider name ("openai", "scripted", ...) or "fallback"
+  created_at: string;
+};
+
+const THREAD_COLUMNS = "id,team_id,user_id,season_id,title,created_at,updated_at";
+
+export function titleFromQuestion(question: string) {
+  const q = question.replace(/\s+/g, " ").trim();
+  return q.length > 60 ? `${q.slice(0, 57)}…` : q || "New chat";
+}
+
+/** The user's threads for one team, most recently active first. */
+export async function listThreads(supabase: SupabaseClient, opts: { userId: string; teamId: string; limit?: number }) {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select(THREAD_COLUMNS)
+    .eq("user_id", opts.userId)
+    .eq("team_id", opts.teamId)
+    .order("updated_at", { ascending: false })
+    .limit(opts.limit ?? 50);
+  if (error) throw error;
+  return (data ?? []) as ChatThread[];
+}
+
+/** null when the thread doesn't exist or belongs to someone else (callers answer 404 either way). */
+export async function getThread(supabase: SupabaseClient, id: string, userId: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase.from("chat_threads").select(THREAD_COLUMNS).eq("id", id).eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as ChatThread | null;
+}
+
+export async function createThread(
+  supabase: SupabaseClient,
+  thread: { userId: string; teamId: string; seasonId: string | null; title: string }
+) {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert({ user_id: thread.userId, team_id: thread.teamId, season_id: thread.seasonId, title: thread.title })
+    .select(THREAD_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as ChatThread;
+}
+
+export async function renameThread(supabase: SupabaseClient, id: string, title: string) {
+  const { error } = await supabase.from("chat_threads").update({ title }).eq("id", id);
+  if (error) throw error;
+}
+
+/** Messages go with it (on delete cascade). */
+export async function deleteThread(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase.from("chat_threads").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Oldest first. With `limit`, the most recent `limit` messages. */
+export async function listMessages(supabase: SupabaseClient, threadId: string, limit?: number) {
+  let q = supabase
+    .from("chat_messages")
+    .select("id,thread_id,role,content,source,created_at")
+    .eq("thread_id", threadId)
+    .order("id", { ascending: false });
+  if (limit) q = q.limit(limit);
+  const { data, error } = await q;
+  if (error) throw error;
+  return ((data ?? []) as ChatMessage[]).reverse();
+}
+
+/** Append messages and bump the thread to the top of the sidebar. */
+export async function appendMessages(
+  supabase: SupabaseClient,
+  threadId: string,
+  messages: Array<{ role: "user" | "assistant"; content: string; source?: string | null }>
+) {
+  const rows = messages.map((m) => ({ thread_id: threadId, role: m.role, content: m.content, source: m.source ?? null }));
+  const { error } = await supabase.from("chat_messages").insert(rows);
+  if (error) throw error;
+
+  const touched = await supabase.from("chat_threads").update({ updated_at: new Date().toISOString() }).eq("id", threadId);
+  if (touched.error) throw touched.error;
+}
+
+/** Recent turns for the model input, clipped. */
+export function historyForModel(messages: ChatMessage[]) {
+  return messages.slice(-HISTORY_TURNS * 2).map((m) => ({
+    role: m.role,
+    content: m.content.length > HISTORY_MESSAGE_CHARS ? `${m.content.slice(0, HISTORY_MESSAGE_CHARS)}…` : m.content,
+  }));
+}
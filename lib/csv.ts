@@ -0,0 +1,238 @@
+/**
+ * RFC 4180 CSV parsing for stats-app exports.
+ * Handles quoted fields (embedded delimiters, "" escapes, newlines), UTF-8/UTF-16 BOMs,
+ * Windows-1252 files, and comma / semicolon / tab / pipe delimiters.
+ * Errors carry the 1-based physical line where the problem starts.
+ */
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export type CsvRecord = {
+  line: number; // physical line where the record starts (header is line 1 unless blank lines precede it)
+  values: Record<string, string>;
+};
+
+export type ParsedCsv = {
+  header: string[];
+  rows: CsvRecord[];
+  delimiter: CsvDelimiter;
+};
+
+export class CsvParseError extends Error {
+  line: number;
+  reason: string;
+  constructor(line: number, reason: string) {
+    super(`CSV line ${line}: ${reason}`);
+    this.name = "CsvParseError";
+    this.line = line;
+    this.reason = reason;
+  }
+}
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+
+/* -------------------------- Encoding -------------------------- */
+
+function looksLikeUtf16(bytes: Uint8Array, evenOdd: 0 | 1) {
+  // ASCII-heavy UTF-16 without a BOM: most bytes at one parity are 0x00
+  const n = Math.min(bytes.length, 400);
+  if (n < 4) return false;
+  let zeros = 0;
+  for (let i = evenOdd; i < n; i += 2) if (bytes[i] === 0) zeros++;
+  return zeros / (n / 2) > 0.6;
+}
+
+export function decodeCsvBytes(bytes: Uint8Array): { text: string; encoding: CsvEncoding } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "utf-8" };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "utf-16le" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes.subarray(2)), encoding: "utf-16be" };
+  }
+  if (looksLikeUtf16(bytes, 1)) return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "utf-16le" };
+  if (looksLikeUtf16(bytes, 0)) return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "utf-16be" };
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8" };
+  } catch {
+    // Not valid UTF-8 → legacy Excel "ANSI" export
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252" };
+  }
+}
+
+/* -------------------------- Delimiter -------------------------- */
+
+/** Pick the delimiter that occurs most often (outside quotes) in the header line. Ties → comma. */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts: Record<string, number> = { ",": 0, ";": 0, "\t": 0, "|": 0 };
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) {
+      if (Object.values(counts).some((n) => n > 0)) break; // stop after the first non-empty line
+    } else if (!inQuotes && ch in counts) counts[ch]++;
+  }
+
+  let best: CsvDelimiter = ",";
+  for (const d of DELIMITERS) if (counts[d] > counts[best]) best = d;
+  return best;
+}
+
+/* -------------------------- Parser -------------------------- */
+
+/** Split text into records of raw string fields. Each record remembers the line it started on. */
+function tokenize(text: string, delimiter: CsvDelimiter) {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+  let fieldStarted = false; // distinguishes an empty last field ("a,") from an empty line
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = "";
+    fieldStarted = false;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"' && field.trim() === "") {
+      // Quoted field (leading spaces before the quote are tolerated and dropped)
+      const openLine = line;
+      field = "";
+      i++;
+      let closed = false;
+      while (i < text.length) {
+        const c = text[i];
+        if (c === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          closed = true;
+          i++;
+          break;
+        }
+        if (c === "\n") line++;
+        if (c === "\r" && text[i + 1] !== "\n") line++;
+        field += c;
+        i++;
+      }
+      if (!closed) throw new CsvParseError(openLine, "quoted field is never closed (missing closing \")");
+
+      while (delimiter !== "\t" && text[i] === " ") i++;
+      const next = text[i];
+      if (next !== undefined && next !== delimiter && next !== "\r" && next !== "\n") {
+        throw new CsvParseError(line, `unexpected character ${JSON.stringify(next)} after closing quote`);
+      }
+      fieldStarted = true;
+      continue;
+    }
+
+    if (ch === '"') {
+      throw new CsvParseError(line, `stray quote inside unquoted field ${JSON.stringify(field + '"')} (quote the whole field and double inner quotes)`);
+    }
+
+    if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+      fieldStarted = true;
+      i++;
+      continue;
+    }
+
+    if (ch === "\r" || ch === "\n") {
+      if (fieldStarted || field !== "" || fields.length) endRecord();
+      i += ch === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      line++;
+      recordLine = line;
+      continue;
+    }
+
+    field += ch;
+    fieldStarted = true;
+    i++;
+  }
+
+  if (fieldStarted || field !== "" || fields.length) endRecord();
+  return records;
+}
+
+/**
+ * Parse CSV text (already decoded). Throws CsvParseError on malformed input, including rows
+ * whose column count doesn't match the header — so values never silently shift into the wrong column.
+ */
+export function parseCsv(text: string, opts: { delimiter?: CsvDelimiter } = {}): ParsedCsv {
+  const clean = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = opts.delimiter ?? detectDelimiter(clean);
+  const records = tokenize(clean, delimiter);
+  if (!records.length) return { header: [], rows: [], delimiter };
+
+  const headerRec = records[0];
+  const header = headerRec.fields.map((h) => h.trim());
+  const seen = new Set<string>();
+  header.forEach((h) => {
+    if (!h) return;
+    if (seen.has(h)) throw new CsvParseError(headerRec.line, `duplicate column name "${h}"`);
+    seen.add(h);
+  });
+
+  const rows: CsvRecord[] = [];
+  for (const rec of records.slice(1)) {
+    // Skip rows that are entirely empty (e.g. ",,,," padding from spreadsheets)
+    if (rec.fields.every((f) => f.trim() === "")) continue;
+
+    if (rec.fields.length !== header.length) {
+      throw new CsvParseError(
+        rec.line,
+        `expected ${header.length} columns (from the header) but found ${rec.fields.length}` +
+          (rec.fields.length > header.length ? " — an unquoted delimiter inside a value?" : "")
+      );
+    }
+
+    const values: Record<string, string> = {};
+    header.forEach((h, idx) => {
+      if (h) values[h] = rec.fields[idx].trim(); // columns with an empty header are dropped
+    });
+    rows.push({ line: rec.line, values });
+  }
+
+  return { header: header.filter(Boolean), rows, delimiter };
+}
+
+/** European-locale exports (";" delimited) write decimals as "1,42". Convert those to "1.42". */
+export function normalizeDecimalCommas(values: Record<string, string>) {
+  const out: Record<string, string> = {};
+  for (const k of Object.keys(values)) {
+    const v = values[k];
+    out[k] = /^-?\d+,\d+$/.test(v) ? v.replace(",", ".") : v;
+  }
+  return out;
+}
+
+/* -------------------------- Writing -------------------------- */
+
+// Spreadsheets run cells starting with = + - @ as formulas; a leading ' keeps names like "=Vision" text
+function csvCell(v: string | number | null | undefined) {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : "";
+  const s = /^[=+@]|^-(?!\d)/.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** RFC 4180 text (CRLF, BOM so Excel reads UTF-8 names correctly). */
+export function toCsv(header: string[], rows: Array<Array<string | number | null | undefined>>) {
+  return "\uFEFF" + [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,297 @@
+/**
+ * Post-generation grounding check: every number, record / score and player name in the model's Markdown
+ * answer should trace back to FACTS_JSON (or the question). Unsupported claims are flagged inline and
+ * the share of supported claims is the grounding score.
+ * Deliberately lenient: a number counts as supported if any fact rounds to it, since the check is for
+ * invented stats, not for which fact a sentence meant. A count written next to a stat word ("7 kills")
+ * is held to the numbers filed under that stat, however small.
+ */
+
+export type ClaimKind = "number" | "percent" | "pair" | "name";
+
+export type Claim = {
+  kind: ClaimKind;
+  text: string; // as written in the answer
+  index: number; // offset in the answer
+  supported: boolean;
+};
+
+export type GroundingReport = {
+  score: number; // supported / checked (1 when nothing was checkable)
+  checked: number;
+  supported: number;
+  unsupported: Claim[];
+};
+
+export const UNVERIFIED_MARK = " ⚠️";
+
+// Single digits show up everywhere in prose ("top 5", "rotation 1", "3 adjustments", "5–1"); skip them
+// unless a stat word says what they count
+const MIN_CHECKED = 10;
+const MAX_DECIMALS = 3;
+
+// a-b with a dash or en dash, not part of a date, time or longer number
+const PAIR_RE = /(?<![\d.\-–/:])(\d{1,3})\s?[-–]\s?(\d{1,3})(?![\d.%\-–/:])/g;
+const NUMBER_RE = /(?<![\w.\-–/:])[+-]?(\d+(?:\.\d+)?|\.\d+)(%?)(?![\w\-–/:]|\.\d)/g;
+const DATE_RE = /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g;
+// **Two Words** / **Three Word Name** — what a player or opponent looks like in a bolded answer
+const BOLD_NAME_RE = /\*\*([A-Z][A-Za-z'.-]+(?: [A-Z][A-Za-z'.-]+){1,2})\*\*/g;
+
+// Stat words a count can sit next to, each with the stem its FACTS_JSON keys use
+const STAT_WORDS = "(kills?|aces?|digs?|blocks?|errors?|assists?)";
+const STAT_STEMS = ["kill", "ace", "dig", "block", "error", "assist"];
+// "7 kills", "7 attack errors", "12 total digs"
+const COUNT_STAT_RE = new RegExp(`(?<![\\w.\\-–/:])(\\d+)\\s+(?:(?:total|solo|assisted|serve|service|attack|ball-handling|reception|block)\\s+)?${STAT_WORDS}\\b`, "gi");
+// "kills: 7", "aces of 3"
+const STAT_COUNT_RE = new RegExp(`\\b${STAT_WORDS}\\s*(?::|=|of)\\s*(\\d+)(?![\\w.])`, "gi");
+// Who a stat line is about: "Troy had 7 kills", "**Troy**: 7 kills", "Troy (7 kills)", "Troy — 7 kills"
+const STAT_SUBJECT_RE = new RegExp(
+  `(\\*\\*)?\\b([A-Z][A-Za-z'.-]+(?: [A-Z][A-Za-z'.-]+){0,2})\\1?\\s*(?:had|has|with|recorded|added|posted|led with|:|—|–|-|\\()\\s*\\d+(?:\\.\\d+)?\\s+(?:\\w+\\s+)?${STAT_WORDS}\\b`,
+  "g"
+);
+// Capitalized words that open a stat line without naming anyone
+const NOT_NAMES = new Set(
+  (
+    "the a an we our us they their he she his her it its this that these those team total overall season match matches set sets " +
+    "opponents opponent everyone nobody each both average avg top best most leader leaders and but also then in on at vs " +
+    "against after before during when while " +
+    "january february march april may june july august september october november december"
+  ).split(" ")
+);
+
+// Field pairs that read as a record / score when written "a-b"
+const PAIR_KEYS: Array<[string, string]> = [
+  ["wins", "losses"],
+  ["won", "lost"],
+  ["w", "l"],
+  ["setsWon", "setsLost"],
+  ["sets_won", "sets_lost"],
+  ["pointsFor", "pointsAgainst"],
+  ["points_for", "points_against"],
+  ["us", "them"],
+];
+
+type Known = {
+  numbers: Set<string>;
+  percents: Set<string>;
+  pairs: Set<string>;
+  byStat: Record<string, Set<string>>; // stem → numbers filed under a key naming that stat
+  roster: string[]; // lowercased players.profiles / players.positions names
+  teams: string; // our team name + opponent names, lowercased
+  text: string;
+};
+
+function statStems(key: string) {
+  const words = key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z]+/);
+  return STAT_STEMS.filter((stem) => words.some((w) => w.startsWith(stem)));
+}
+
+function stemOf(word: string) {
+  return STAT_STEMS.find((stem) => word.toLowerCase().startsWith(stem))!;
+}
+
+function addStatNumber(known: Known, stems: string[], n: number) {
+  if (!Number.isFinite(n)) return;
+  for (const stem of stems) for (let d = 0; d <= MAX_DECIMALS; d++) known.byStat[stem].add(Math.abs(n).toFixed(d));
+}
+
+function addNumber(known: Known, n: number) {
+  if (!Number.isFinite(n)) return;
+  const a = Math.abs(n);
+  for (let d = 0; d <= MAX_DECIMALS; d++) {
+    known.numbers.add(a.toFixed(d));
+    known.percents.add(a.toFixed(d));
+    known.percents.add((a * 100).toFixed(d));
+  }
+}
+
+function addPair(known: Known, a: number, b: number) {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return;
+  known.pairs.add(`${a}-${b}`);
+  known.pairs.add(`${b}-${a}`); // "lost 20-25" is often written winner-first
+  if (a + b > 0) addNumber(known, a / (a + b)); // 12-4 → 75% (win %, set %, sideout-style shares)
+}
+
+function scanString(known: Known, s: string, stems: string[] = []) {
+  for (const m of Array.from(s.matchAll(PAIR_RE))) addPair(known, Number(m[1]), Number(m[2]));
+  for (const m of Array.from(s.replace(PAIR_RE, " ").matchAll(NUMBER_RE))) {
+    addNumber(known, Number(m[1]));
+    addStatNumber(known, stems, Number(m[1]));
+  }
+  for (const m of Array.from(s.matchAll(COUNT_STAT_RE))) addStatNumber(known, [stemOf(m[2])], Number(m[1]));
+  for (const m of Array.from(s.matchAll(STAT_COUNT_RE))) addStatNumber(known, [stemOf(m[1])], Number(m[2]));
+}
+
+/**
+ * Every value a claim may rest on: numbers (also by the stat their key names), "a-b" pairs, array lengths,
+ * the roster, team / opponent names and the text of all strings.
+ */
+export function collectKnown(facts: any, extraText: string[] = []): Known {
+  const known: Known = {
+    numbers: new Set(),
+    percents: new Set(),
+    pairs: new Set(),
+    byStat: Object.fromEntries(STAT_STEMS.map((stem) => [stem, new Set<string>()])),
+    roster: Array.from(new Set([...Object.keys(facts?.players?.profiles ?? {}), ...Object.keys(facts?.players?.positions ?? {})]))
+      .map((n) => n.trim().toLowerCase())
+      .filter(Boolean),
+    teams: "",
+    text: "",
+  };
+  const strings: string[] = [...extraText];
+  const teams: string[] = [String(facts?.team?.name ?? "")];
+  const seen = new Set<any>();
+
+  // stems: the stats named by the keys on the way down ("killsTop5" → kill), so a leader's 7 counts as 7 kills
+  const walk = (v: any, stems: string[], key: string) => {
+    if (v === null || v === undefined) return;
+    if (typeof v === "number") {
+      addNumber(known, v);
+      return addStatNumber(known, stems, v);
+    }
+    if (typeof v === "string") {
+      strings.push(v);
+      if (key === "opponent") teams.push(v);
+      return scanString(known, v, stems);
+    }
+    if (typeof v !== "object" || seen.has(v)) return;
+    seen.add(v);
+    if (Array.isArray(v)) {
+      addNumber(known, v.length); // "we played 24 matches"
+      v.forEach((x) => walk(x, stems, key));
+      return;
+    }
+    for (const [a, b] of PAIR_KEYS) if (typeof v[a] === "number" && typeof v[b] === "number") addPair(known, v[a], v[b]);
+    for (const k of Object.keys(v)) {
+      if (k.startsWith("_")) continue; // internal helpers the model never sees
+      strings.push(k);
+      const more = statStems(k);
+      walk(v[k], more.length ? Array.from(new Set([...stems, ...more])) : stems, k);
+    }
+  };
+  walk(facts, [], "");
+  extraText.forEach((s) => scanString(known, s));
+  known.teams = teams.join("\n").toLowerCase();
+  known.text = strings.join("\n").toLowerCase();
+  return known;
+}
+
+function hasWords(haystack: string, phrase: string) {
+  return new RegExp(`(^|[^a-z])${phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^a-z])`).test(haystack);
+}
+
+// Full roster name, or a first / last name (or both) of one player: "Troy", "Troy Smith", "Smith"
+function onRoster(name: string, roster: string[]) {
+  const words = name.toLowerCase().split(" ");
+  return roster.some((p) => {
+    const playerWords = p.split(/\s+/);
+    return words.every((w) => playerWords.includes(w));
+  });
+}
+
+// A player claim: on the roster, or (for a team-level line) our team or an opponent. Without a roster
+// in the facts there is nothing to hold it to but the facts' text.
+function nameSupported(name: string, known: Known, statLine: boolean) {
+  const lower = name.toLowerCase();
+  if (onRoster(name, known.roster) || hasWords(known.teams, lower)) return true;
+  if (statLine && known.roster.length) return false;
+  return hasWords(known.text, lower);
+}
+
+// Fenced code (chart blocks included) is blanked out, keeping offsets so flags land in the right place
+function proseOnly(answer: string) {
+  return answer.replace(/```[\s\S]*?(```|$)/g, (m) => m.replace(/[^\n]/g, " "));
+}
+
+function decimals(s: string) {
+  const i = s.indexOf(".");
+  return i < 0 ? 0 : s.length - i - 1;
+}
+
+/** Extract the answer's checkable claims and test each against `known`. */
+export function checkClaims(answer: string, known: Known): Claim[] {
+  const claims: Claim[] = [];
+  // Dates are context, not claims
+  let text = proseOnly(answer).replace(DATE_RE, (m) => " ".repeat(m.length));
+
+  // Counts with a stat word: offset of the number → the stat's stem
+  const statCounts = new Map<number, string>();
+  for (const m of Array.from(text.matchAll(COUNT_STAT_RE))) statCounts.set(m.index!, stemOf(m[2]));
+  for (const m of Array.from(text.matchAll(STAT_COUNT_RE))) statCounts.set(m.index! + m[0].length - m[2].length, stemOf(m[1]));
+
+  for (const m of Array.from(text.matchAll(PAIR_RE))) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    if (Math.max(a, b) < MIN_CHECKED) continue;
+    claims.push({ kind: "pair", text: m[0], index: m.index!, supported: known.pairs.has(`${a}-${b}`) });
+  }
+  text = text.replace(PAIR_RE, (m) => " ".repeat(m.length));
+
+  for (const m of Array.from(text.matchAll(NUMBER_RE))) {
+    const raw = m[1].startsWith(".") ? `0${m[1]}` : m[1];
+    const n = Number(raw);
+    const isPct = m[2] === "%";
+    const stem = statCounts.get(m.index!);
+    const key = n.toFixed(Math.min(decimals(raw), MAX_DECIMALS));
+    if (stem && Number.isFinite(n)) {
+      // Held to that stat's numbers when the facts have any, else to every number
+      const pool = known.byStat[stem].size ? known.byStat[stem] : known.numbers;
+      claims.push({ kind: "number", text: m[0], index: m.index!, supported: pool.has(key) });
+      continue;
+    }
+    if (!Number.isFinite(n) || (Number.isInteger(n) && n < MIN_CHECKED && !isPct)) continue;
+    if (!isPct && Number.isInteger(n) && n >= 1990 && n <= 2100) continue; // years
+    claims.push({ kind: isPct ? "percent" : "number", text: m[0], index: m.index!, supported: (isPct ? known.percents : known.numbers).has(key) });
+  }
+
+  // Who a stat line is about, bolded or not; then any other bolded multi-word name
+  const named = new Set<number>();
+  const prose = proseOnly(answer);
+  for (const m of Array.from(prose.matchAll(STAT_SUBJECT_RE))) {
+    // "Then Troy had 7 kills" → Troy
+    const words = m[2].split(" ");
+    while (words.length && NOT_NAMES.has(words[0].toLowerCase())) words.shift();
+    if (!words.length) continue;
+    const name = words.join(" ");
+    const index = m.index! + m[0].indexOf(name) - (m[1] && name === m[2] ? 2 : 0);
+    named.add(index);
+    claims.push({ kind: "name", text: name, index, supported: nameSupported(name, known, true) });
+  }
+  for (const m of Array.from(prose.matchAll(BOLD_NAME_RE))) {
+    if (named.has(m.index!)) continue;
+    claims.push({ kind: "name", text: m[1], index: m.index!, supported: nameSupported(m[1], known, false) });
+  }
+
+  return claims.sort((a, b) => a.index - b.index);
+}
+
+/** Grounding report for an answer against the facts payload (plus the question, which may quote numbers). */
+export function verifyGrounding(answer: string, facts: any, opts: { question?: string } = {}): GroundingReport {
+  const claims = checkClaims(answer, collectKnown(facts, opts.question ? [opts.question] : []));
+  const unsupported = claims.filter((c) => !c.supported);
+  const supported = claims.length - unsupported.length;
+  return { score: claims.length ? Number((supported / claims.length).toFixed(3)) : 1, checked: claims.length, supported, unsupported };
+}
+
+/** Mark each unsupported claim inline and add a one-line note at the end. */
+export function flagUnsupported(answer: string, report: GroundingReport) {
+  if (!report.unsupported.length) return answer;
+  let out = answer;
+  // Right to left so earlier offsets stay valid
+  for (const c of report.unsupported.slice().sort((a, b) => b.index - a.index)) {
+    // A bolded name is flagged after its closing **
+    const end = c.index + c.text.length + (c.kind === "name" && answer.startsWith("**", c.index) ? 4 : 0);
+    out = out.slice(0, end) + UNVERIFIED_MARK + out.slice(end);
+  }
+  const n = report.unsupported.length;
+  return `${out}\n\n_${UNVERIFIED_MARK.trim()} ${n} ${n === 1 ? "value" : "values"} above could not be found in the team's data; double-check before sharing._`;
+}
+
+/** Corrective turn for a second attempt: which claims had no support. */
+export function regenerationNote(report: GroundingReport) {
+  const list = Array.from(new Set(report.unsupported.map((c) => c.text))).join(", ");
+  return `These values in your answer are not in FACTS_JSON: ${list}. Rewrite the answer using only values that appear in FACTS_JSON (or leave the number out).`;
+}
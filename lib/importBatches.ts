@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ImportType } from "./importRows";
+import { isUuid } from "./supabaseServer";
+
+/**
+ * import_batches: one row per CSV upload (who, when, file hash, counts).
+ * Rows written by an upload carry its import_batch_id so the whole upload can be rolled back.
+ *
+ * Write path: createBatch (pending) → stageRows (chunked bulk inserts into import_staging)
+ * → commitBatch (one Postgres transaction moves everything into the real table).
+ */
+
+// Rows per staging insert. Big enough to be fast, small enough to stay under request size limits.
+export const STAGING_CHUNK_SIZE = 500;
+
+export type ImportBatch = {
+  id: string;
+  team_id: string;
+  import_type: ImportType;
+  file_name: string | null;
+  file_hash: string;
+  created_by: string | null;
+  created_by_email: string | null;
+  rows_parsed: number;
+  rows_written: number;
+  rows_rejected: number;
+  status: "pending" | "committed" | "failed" | "rolled_back";
+  error: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+};
+
+const BATCH_COLUMNS =
+  "id,team_id,import_type,file_name,file_hash,created_by,created_by_email,rows_parsed,rows_written,rows_rejected,status,error,created_at,rolled_back_at";
+
+export function hashFile(bytes: Uint8Array) {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/** A live (not rolled back) upload of the exact same bytes for this team, if any. */
+export async function findCommittedBatchByHash(supabase: SupabaseClient, teamId: string, fileHash: string) {
+  const { data, error } = await supabase
+    .from("import_batches")
+    .select(BATCH_COLUMNS)
+    .eq("team_id", teamId)
+    .eq("file_hash", fileHash)
+    .eq("status", "committed")
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return ((data ?? [])[0] ?? null) as ImportBatch | null;
+}
+
+export async function createBatch(
+  supabase: SupabaseClient,
+  batch: Pick<ImportBatch, "team_id" | "import_type" | "file_name" | "file_hash" | "created_by" | "created_by_email" | "rows_parsed" | "rows_rejected">
+) {
+  const { data, error } = await supabase
+    .from("import_batches")
+    .insert({ ...batch, status: "pending" })
+    .select(BATCH_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as ImportBatch;
+}
+
+export async function updateBatch(supabase: SupabaseClient, id: string, patch: Partial<ImportBatch>) {
+  const { error } = await supabase.from("import_batches").update(patch).eq("id", id);
+  if (error) throw error;
+}
+
+/** Bulk-insert validated payloads into import_staging, one chunk per request. */
+export async function stageRows(
+  supabase: SupabaseClient,
+  batchId: string,
+  rows: Array<{ line: number; payload: Record<string, any> }>,
+  onProgress?: (staged: number, total: number) => void | Promise<void>
+) {
+  for (let i = 0; i < rows.length; i += STAGING_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + STAGING_CHUNK_SIZE).map((r) => ({ batch_id: batchId, line: r.line, payload: r.payload }));
+    const { error } = await supabase.from("import_staging").insert(chunk);
+    if (error) throw new Error(`Staging failed near CSV line ${chunk[0].line}: ${error.message}`);
+    await onProgress?.(Math.min(i + STAGING_CHUNK_SIZE, rows.length), rows.length);
+  }
+}
+
+/** Move the staged rows into the real table (all-or-nothing; see commit_import_batch in schema.sql). */
+export async function commitBatch(supabase: SupabaseClient, batchId: string) {
+  const { data, error } = await supabase.rpc("commit_import_batch", { p_batch_id: batchId });
+  if (error) throw new Error(`Commit failed, nothing was written: ${error.message}`);
+  return Number(data ?? 0);
+}
+
+/** Mark a batch failed and drop whatever was staged for it. */
+export async function failBatch(supabase: SupabaseClient, batchId: string, message: string) {
+  await supabase.from("import_staging").delete().eq("batch_id", batchId);
+  await updateBatch(supabase, batchId, { status: "failed", error: message });
+}
+
+export async function getBatch(supabase: SupabaseClient, id: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase.from("import_batches").select(BATCH_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as ImportBatch | null;
+}
+
+export async function listBatches(supabase: SupabaseClient, teamId: string, limit = 50) {
+  const { data, error } = await supabase
+    .from("import_batches")
+    .select(BATCH_COLUMNS)
+    .eq("team_id", teamId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as ImportBatch[];
+}
+
+/**
+ * Undo the batch and mark it rolled back (atomic; see rollback_import_batch in schema.sql): rows it added
+ * are deleted, rows it overwrote get their earlier version back.
+ */
+export async function rollbackBatch(supabase: SupabaseClient, id: string, userId: string) {
+  const { data, error } = await supabase.rpc("rollback_import_batch", { p_batch_id: id, p_user_id: userId });
+  if (error) throw error;
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    matchRows: Number(row?.match_rows ?? 0),
+    playerRows: Number(row?.player_rows ?? 0),
+    rallyRows: Number(row?.rally_rows ?? 0),
+    restoredRows: Number(row?.restored_rows ?? 0),
+  };
+}
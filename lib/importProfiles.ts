@@ -0,0 +1,200 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Column mapping profiles for player-stats exports.
+ * A profile translates one stats app's headers into our fields + canonical stat keys
+ * (the keys computeAggregates and the leaderboards read). Built-ins live here; coaches can save
+ * more per team in import_mapping_profiles.
+ */
+
+// Row fields (not stats)
+export const PLAYER_ROW_FIELDS = ["player_name", "game_date", "opponent", "position", "source_file"];
+
+// Canonical stat keys stored in player_game_stats.stats
+export const CANONICAL_STAT_KEYS = [
+  "attack_kills",
+  "attack_errors",
+  "attack_attempts",
+  "setting_assists",
+  "serve_aces",
+  "serve_errors",
+  "serve_attempts",
+  "serve_receive_attempts",
+  "serve_receive_passing_rating",
+  "serve_receive_errors",
+  "digs_successful",
+  "dig_errors",
+  "blocks_solo",
+  "blocks_assist",
+  "block_errors",
+  "sets_played",
+];
+
+export type MappingProfile = {
+  id: string; // "builtin:<slug>" or a uuid from import_mapping_profiles
+  name: string;
+  source: string; // the stats app the export comes from
+  builtin: boolean;
+  // header → row field or canonical stat key; "" = ignore the column. Headers match case-insensitively.
+  columns: Record<string, string>;
+};
+
+export const BUILTIN_PROFILES: MappingProfile[] = [
+  {
+    id: "builtin:mvvc",
+    name: "MVVC master file (canonical keys)",
+    source: "mvvc",
+    builtin: true,
+    columns: {
+      Name: "player_name",
+      Player: "player_name",
+      player_name: "player_name",
+      GameDate: "game_date",
+      game_date: "game_date",
+      match_date: "game_date",
+      Opponent: "opponent",
+      Position: "position",
+      SourceFile: "source_file",
+      ...Object.fromEntries(CANONICAL_STAT_KEYS.map((k) => [k, k])),
+    },
+  },
+  {
+    id: "builtin:solostats",
+    name: "SoloStats-style (abbreviated headers)",
+    source: "solostats",
+    builtin: true,
+    columns: {
+      Player: "player_name",
+      Date: "game_date",
+      Opponent: "opponent",
+      Pos: "position",
+      SP: "sets_played",
+      K: "attack_kills",
+      E: "attack_errors",
+      TA: "attack_attempts",
+      A: "setting_assists",
+      SA: "serve_aces",
+      SE: "serve_errors",
+      SAtt: "serve_attempts",
+      R: "serve_receive_attempts",
+      RE: "serve_receive_errors",
+      "P.Avg": "serve_receive_passing_rating",
+      D: "digs_successful",
+      DE: "dig_errors",
+      BS: "blocks_solo",
+      BA: "blocks_assist",
+      BE: "block_errors",
+    },
+  },
+  {
+    id: "builtin:balltime",
+    name: "Balltime-style (spelled-out headers)",
+    source: "balltime",
+    builtin: true,
+    columns: {
+      Athlete: "player_name",
+      "Match Date": "game_date",
+      "Opponent Team": "opponent",
+      Position: "position",
+      "Sets Played": "sets_played",
+      Kills: "attack_kills",
+      "Attack Errors": "attack_errors",
+      "Attack Attempts": "attack_attempts",
+      Assists: "setting_assists",
+      Aces: "serve_aces",
+      "Serve Errors": "serve_errors",
+      "Serve Attempts": "serve_attempts",
+      Receptions: "serve_receive_attempts",
+      "Reception Errors": "serve_receive_errors",
+      "Pass Rating": "serve_receive_passing_rating",
+      Digs: "digs_successful",
+      "Dig Errors": "dig_errors",
+      "Solo Blocks": "blocks_solo",
+      "Block Assists": "blocks_assist",
+      "Block Errors": "block_errors",
+    },
+  },
+];
+
+export const DEFAULT_PROFILE_ID = "builtin:mvvc";
+
+function norm(h: string) {
+  return h.trim().toLowerCase();
+}
+
+/** Look up a header in a profile (case-insensitive). undefined = the profile doesn't know this column. */
+export function profileTarget(profile: MappingProfile, header: string): string | undefined {
+  const wanted = norm(header);
+  for (const k of Object.keys(profile.columns)) if (norm(k) === wanted) return profile.columns[k];
+  return undefined;
+}
+
+/** How many of the file's headers the profile recognizes. */
+export function scoreProfile(profile: MappingProfile, header: string[]) {
+  return header.filter((h) => profileTarget(profile, h) !== undefined).length;
+}
+
+/**
+ * Best profile for these headers: most recognized columns, which must include a player-name column.
+ * Falls back to the canonical profile.
+ */
+export function detectProfile(profiles: MappingProfile[], header: string[]) {
+  let best: { profile: MappingProfile; score: number } | null = null;
+  for (const profile of profiles) {
+    const hasPlayer = header.some((h) => profileTarget(profile, h) === "player_name");
+    if (!hasPlayer) continue;
+    const score = scoreProfile(profile, header);
+    if (!best || score > best.score) best = { profile, score };
+  }
+  const fallback = profiles.find((p) => p.id === DEFAULT_PROFILE_ID) ?? BUILTIN_PROFILES[0];
+  return best ?? { profile: fallback, score: scoreProfile(fallback, header) };
+}
+
+/* -------------------------- Saved profiles -------------------------- */
+
+/** Built-ins + profiles saved for this team + club-wide ones (team_id null). */
+export async function listProfiles(supabase: SupabaseClient, teamId: string): Promise<MappingProfile[]> {
+  const { data, error } = await supabase
+    .from("import_mapping_profiles")
+    .select("id,name,source,columns,team_id")
+    .or(`team_id.eq.${teamId},team_id.is.null`)
+    .order("name", { ascending: true });
+  if (error) throw error;
+
+  const saved = (data ?? []).map((r: any) => ({
+    id: String(r.id),
+    name: String(r.name),
+    source: String(r.source ?? ""),
+    builtin: false,
+    columns: (r.columns ?? {}) as Record<string, string>,
+  }));
+  return [...BUILTIN_PROFILES, ...saved];
+}
+
+/** Throws on targets that aren't row fields or canonical stat keys. */
+export function validateProfileColumns(columns: Record<string, string>) {
+  const allowed = new Set(["", ...PLAYER_ROW_FIELDS, ...CANONICAL_STAT_KEYS]);
+  const bad = Object.keys(columns).filter((h) => !allowed.has(String(columns[h] ?? "")));
+  if (bad.length) throw new Error(`Unknown target for column(s): ${bad.join(", ")}`);
+  if (!Object.values(columns).includes("player_name")) throw new Error("A profile must map a column to player_name");
+}
+
+export async function saveProfile(
+  supabase: SupabaseClient,
+  profile: { teamId: string; name: string; source: string; columns: Record<string, string>; createdBy: string }
+) {
+  validateProfileColumns(profile.columns);
+  const { data, error } = await supabase
+    .from("import_mapping_profiles")
+    .insert({
+      team_id: profile.teamId,
+      name: profile.name,
+      source: profile.source,
+      columns: profile.columns,
+      created_by: profile.createdBy,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return String((data as any).id);
+}
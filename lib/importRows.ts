@@ -0,0 +1,512 @@
+import { BUILTIN_PROFILES, DEFAULT_PROFILE_ID, PLAYER_ROW_FIELDS, profileTarget, type MappingProfile } from "./importProfiles";
+import { RALLY_OUTCOMES, normalizeOutcome, normalizeSide } from "./rallies";
+import { formatSets, parseScore, pointTotals } from "./setScores";
+
+/**
+ * Import row validation shared by the dry-run preview and the real import.
+ * Each CSV row becomes a RowReport: accepted (with the DB payload) or rejected, plus every value
+ * we had to coerce or drop and why — nothing is skipped silently.
+ */
+
+export type ImportType = "match_results" | "player_game_stats" | "rallies";
+
+export type FieldIssue = {
+  field: string;
+  column: string | null;
+  kind: "rejected" | "coerced";
+  value: string;
+  to?: any;
+  reason: string;
+};
+
+export type RowReport = {
+  line: number;
+  status: "accepted" | "rejected";
+  issues: FieldIssue[];
+  payload: Record<string, any> | null;
+};
+
+export type ColumnMapping = Array<{ column: string; field: string }>;
+
+export type ImportPreview = {
+  type: ImportType;
+  profile: { id: string; name: string; source: string } | null; // player stats only
+  mapping: ColumnMapping;
+  rows: RowReport[];
+  summary: { rows: number; accepted: number; rejected: number; coerced: number };
+};
+
+type RowContext = { teamId: string; season: string; fileName: string | null };
+
+/** Natural keys — must match the unique indexes in schema.sql (used as the upsert conflict target). */
+export const NATURAL_KEYS: Record<ImportType, string[]> = {
+  match_results: ["team_id", "match_date", "opponent", "round"],
+  player_game_stats: ["team_id", "game_date", "opponent", "player_name"],
+  rallies: ["team_id", "match_date", "opponent", "set_number", "rally_number"],
+};
+
+function naturalKey(type: ImportType, payload: Record<string, any>) {
+  return JSON.stringify(NATURAL_KEYS[type].map((k) => payload[k] ?? null));
+}
+
+/* -------------------------- Column mapping -------------------------- */
+
+const MATCH_FIELDS = [
+  "match_date",
+  "tournament",
+  "round",
+  "opponent",
+  "result",
+  "score",
+  "sets_won",
+  "sets_lost",
+  "set_diff",
+  "match_win",
+  "match_loss",
+];
+
+// Play-by-play: one row per rally. Short headers from stat apps map onto the table's columns.
+const RALLY_FIELDS: Record<string, string> = {
+  match_date: "match_date",
+  date: "match_date",
+  opponent: "opponent",
+  set_number: "set_number",
+  set: "set_number",
+  rally_number: "rally_number",
+  rally: "rally_number",
+  serving_team: "serving_team",
+  serving: "serving_team",
+  rotation: "rotation",
+  rot: "rotation",
+  server: "server",
+  point_winner: "point_winner",
+  winner: "point_winner",
+  terminal_skill: "terminal_skill",
+  skill: "terminal_skill",
+  terminal_player: "terminal_player",
+  player: "terminal_player",
+  outcome: "outcome",
+};
+
+export function detectImportType(header: string[]): ImportType {
+  const keys = new Set(header);
+  if ((keys.has("rally_number") || keys.has("rally")) && (keys.has("point_winner") || keys.has("winner"))) return "rallies";
+  const isMatchResults =
+    keys.has("match_date") &&
+    keys.has("opponent") &&
+    keys.has("result") &&
+    (keys.has("tournament") || keys.has("score"));
+  return isMatchResults ? "match_results" : "player_game_stats";
+}
+
+/**
+ * Player stats: the profile maps vendor headers to row fields / canonical stat keys.
+ * Columns the profile doesn't know are kept under their own name in stats (nothing is lost);
+ * when two columns map to the same target, the first one wins.
+ */
+export function columnMapping(type: ImportType, header: string[], profile?: MappingProfile): ColumnMapping {
+  if (type === "match_results") {
+    return header.map((column) => ({ column, field: MATCH_FIELDS.includes(column) ? column : "(ignored)" }));
+  }
+  if (type === "rallies") {
+    const claimed = new Set<string>();
+    return header.map((column) => {
+      const field = RALLY_FIELDS[column.trim().toLowerCase()];
+      if (!field || claimed.has(field)) return { column, field: "(ignored)" };
+      claimed.add(field);
+      return { column, field };
+    });
+  }
+
+  const p = profile ?? BUILTIN_PROFILES.find((x) => x.id === DEFAULT_PROFILE_ID)!;
+  const claimed = new Set<string>();
+  return header.map((column) => {
+    const target = profileTarget(p, column);
+    if (target === undefined) return { column, field: `stats.${column}` };
+    if (target === "") return { column, field: "(ignored)" };
+
+    const field = PLAYER_ROW_FIELDS.includes(target) ? target : `stats.${target}`;
+    if (claimed.has(field)) return { column, field: "(ignored)" };
+    claimed.add(field);
+    return { column, field };
+  });
+}
+
+/* -------------------------- Value coercion -------------------------- */
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/** YYYY-MM-DD as-is; M/D/YYYY and M/D/YY are converted. */
+function coerceDate(raw: string): { value: string | null; note?: string; invalid?: boolean } {
+  const v = raw.trim();
+  if (!v) return { value: null };
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (m) {
+    const iso = `${m[1]}-${pad2(Number(m[2]))}-${pad2(Number(m[3]))}`;
+    if (!isRealDate(iso)) return { value: null, invalid: true };
+    return iso === v ? { value: iso } : { value: iso, note: "zero-padded to YYYY-MM-DD" };
+  }
+  m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (m) {
+    const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    const iso = `${year}-${pad2(Number(m[1]))}-${pad2(Number(m[2]))}`;
+    if (!isRealDate(iso)) return { value: null, invalid: true };
+    return { value: iso, note: "US date converted to YYYY-MM-DD" };
+  }
+  return { value: null, invalid: true };
+}
+
+function isRealDate(iso: string) {
+  const d = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === iso;
+}
+
+function coerceResult(raw: string): { value: "W" | "L" | null; note?: string } {
+  const v = raw.trim();
+  if (v === "W" || v === "L") return { value: v };
+  const r = v.toLowerCase();
+  if (r === "w" || r === "win" || r === "won") return { value: "W", note: `"${v}" read as W` };
+  if (r === "l" || r === "loss" || r === "lost") return { value: "L", note: `"${v}" read as L` };
+  return { value: null };
+}
+
+function coerceInt(raw: string): { value: number | null; invalid?: boolean } {
+  const v = raw.trim();
+  if (!v) return { value: null };
+  const n = Number(v);
+  if (!Number.isFinite(n)) return { value: null, invalid: true };
+  return { value: n };
+}
+
+function text(v: any) {
+  return String(v ?? "").trim();
+}
+
+/* -------------------------- Row validation -------------------------- */
+
+export function validateMatchRow(values: Record<string, string>, line: number, ctx: RowContext): RowReport {
+  const issues: FieldIssue[] = [];
+
+  const opponent = text(values["opponent"]);
+  if (!opponent) {
+    issues.push({ field: "opponent", column: "opponent", kind: "rejected", value: "", reason: "missing opponent" });
+  }
+
+  const res = coerceResult(text(values["result"]));
+  if (!res.value) {
+    issues.push({
+      field: "result",
+      column: "result",
+      kind: "rejected",
+      value: text(values["result"]),
+      reason: 'result must be "W" or "L"',
+    });
+  } else if (res.note) {
+    issues.push({ field: "result", column: "result", kind: "coerced", value: text(values["result"]), to: res.value, reason: res.note });
+  }
+
+  const date = coerceDate(text(values["match_date"]));
+  if (date.invalid) {
+    issues.push({
+      field: "match_date",
+      column: "match_date",
+      kind: "rejected",
+      value: text(values["match_date"]),
+      reason: "not a valid date (use YYYY-MM-DD or M/D/YYYY)",
+    });
+  } else if (date.note) {
+    issues.push({ field: "match_date", column: "match_date", kind: "coerced", value: text(values["match_date"]), to: date.value, reason: date.note });
+  } else if (!date.value) {
+    issues.push({ field: "match_date", column: "match_date", kind: "coerced", value: "", to: null, reason: "empty date stored as null" });
+  }
+
+  const ints: Record<string, number | null> = {};
+  for (const f of ["sets_won", "sets_lost", "set_diff", "match_win", "match_loss"]) {
+    const c = coerceInt(text(values[f]));
+    ints[f] = c.value;
+    if (c.invalid) {
+      issues.push({ field: f, column: f, kind: "coerced", value: text(values[f]), to: null, reason: "not a number; stored as null" });
+    }
+  }
+
+  // Score text → per-set points; fills empty set columns and cross-checks filled ones
+  const rawScore = text(values["score"]);
+  const score = parseScore(rawScore, res.value);
+  if (score && "reason" in score) {
+    issues.push({ field: "score", column: "score", kind: "coerced", value: rawScore, to: null, reason: `${score.reason}; kept as text, sets not derived` });
+  }
+  if (score?.ok) {
+    if (score.flipped) {
+      issues.push({
+        field: "score",
+        column: "score",
+        kind: "coerced",
+        value: rawScore,
+        to: formatSets(score.sets!),
+        reason: "score was written winner-first; stored with our points first",
+      });
+    }
+
+    const derived: Record<string, number> = {
+      sets_won: score.setsWon,
+      sets_lost: score.setsLost,
+      set_diff: score.setsWon - score.setsLost,
+    };
+    for (const f of Object.keys(derived)) {
+      if (ints[f] === null) {
+        ints[f] = derived[f];
+        // Files without the column at all are filled quietly; an empty or unreadable cell is reported
+        if (values[f] === undefined) continue;
+        const earlier = issues.findIndex((x) => x.field === f);
+        if (earlier >= 0) issues.splice(earlier, 1);
+        issues.push({ field: f, column: f, kind: "coerced", value: text(values[f]), to: derived[f], reason: "derived from score" });
+      } else if (ints[f] !== derived[f]) {
+        issues.push({
+          field: f,
+          column: f,
+          kind: "rejected",
+          value: text(values[f]),
+          reason: `${f} is ${ints[f]} but score "${rawScore}" gives ${derived[f]}`,
+        });
+      }
+    }
+
+    const impliedResult = score.setsWon > score.setsLost ? "W" : score.setsWon < score.setsLost ? "L" : null;
+    if (res.value && impliedResult && impliedResult !== res.value) {
+      issues.push({
+        field: "result",
+        column: "result",
+        kind: "rejected",
+        value: text(values["result"]),
+        reason: `result is ${res.value} but score "${rawScore}" is sets ${score.setsWon}-${score.setsLost}`,
+      });
+    }
+  }
+  const sets = score?.ok ? score.sets : null;
+  const points = sets ? pointTotals(sets) : null;
+
+  if (issues.some((x) => x.kind === "rejected")) return { line, status: "rejected", issues, payload: null };
+
+  return {
+    line,
+    status: "accepted",
+    issues,
+    payload: {
+      team_id: ctx.teamId,
+      match_date: date.value,
+      tournament: text(values["tournament"]) || null,
+      round: text(values["round"]) || null,
+      opponent,
+      result: res.value,
+      score: text(values["score"]) || null,
+      sets_won: ints.sets_won,
+      sets_lost: ints.sets_lost,
+      set_diff: ints.set_diff,
+      match_win: ints.match_win,
+      match_loss: ints.match_loss,
+      set_scores: sets,
+      points_for: points?.pointsFor ?? null,
+      points_against: points?.pointsAgainst ?? null,
+    },
+  };
+}
+
+export function validatePlayerRow(
+  values: Record<string, string>,
+  line: number,
+  mapping: ColumnMapping,
+  ctx: RowContext
+): RowReport {
+  const issues: FieldIssue[] = [];
+  const fields: Record<string, string> = {};
+  const stats: Record<string, string> = {};
+  const columnFor: Record<string, string> = {};
+
+  for (const { column, field } of mapping) {
+    if (field === "(ignored)") continue;
+    if (field.startsWith("stats.")) stats[field.slice(6)] = values[column] ?? "";
+    else {
+      fields[field] = text(values[column]);
+      columnFor[field] = column;
+    }
+  }
+
+  const playerName = fields.player_name ?? "";
+  if (!playerName) {
+    issues.push({
+      field: "player_name",
+      column: columnFor.player_name ?? null,
+      kind: "rejected",
+      value: "",
+      reason: columnFor.player_name ? "empty player name" : "no column is mapped to player_name",
+    });
+  }
+
+  const date = coerceDate(fields.game_date ?? "");
+  if (date.invalid) {
+    issues.push({
+      field: "game_date",
+      column: columnFor.game_date ?? null,
+      kind: "rejected",
+      value: fields.game_date,
+      reason: "not a valid date (use YYYY-MM-DD or M/D/YYYY)",
+    });
+  } else if (date.note) {
+    issues.push({ field: "game_date", column: columnFor.game_date ?? null, kind: "coerced", value: fields.game_date, to: date.value, reason: date.note });
+  }
+
+  if (issues.some((x) => x.kind === "rejected")) return { line, status: "rejected", issues, payload: null };
+
+  return {
+    line,
+    status: "accepted",
+    issues,
+    payload: {
+      team_id: ctx.teamId,
+      season: ctx.season,
+      game_date: date.value,
+      opponent: fields.opponent || null,
+      source_file: fields.source_file || ctx.fileName,
+      player_name: playerName,
+      position: fields.position || null,
+      stats,
+    },
+  };
+}
+
+export function validateRallyRow(values: Record<string, string>, line: number, mapping: ColumnMapping, ctx: RowContext): RowReport {
+  const issues: FieldIssue[] = [];
+  const fields: Record<string, string> = {};
+  const columnFor: Record<string, string> = {};
+  for (const { column, field } of mapping) {
+    if (field === "(ignored)") continue;
+    fields[field] = text(values[column]);
+    columnFor[field] = column;
+  }
+  const reject = (field: string, value: string, reason: string) =>
+    issues.push({ field, column: columnFor[field] ?? null, kind: "rejected", value, reason });
+
+  const opponent = fields.opponent ?? "";
+  if (!opponent) reject("opponent", "", "missing opponent");
+
+  const date = coerceDate(fields.match_date ?? "");
+  if (date.invalid) reject("match_date", fields.match_date, "not a valid date (use YYYY-MM-DD or M/D/YYYY)");
+  else if (date.note) {
+    issues.push({ field: "match_date", column: columnFor.match_date ?? null, kind: "coerced", value: fields.match_date, to: date.value, reason: date.note });
+  }
+
+  const whole = (field: string, min: number, max: number) => {
+    const c = coerceInt(fields[field] ?? "");
+    if (c.value === null || !Number.isInteger(c.value) || c.value < min || c.value > max) {
+      reject(field, fields[field] ?? "", `${field} must be a whole number ${min}–${max}`);
+      return null;
+    }
+    return c.value;
+  };
+  const setNumber = whole("set_number", 1, 5);
+  const rallyNumber = whole("rally_number", 1, 200);
+
+  const serving = normalizeSide(fields.serving_team);
+  if (!serving) reject("serving_team", fields.serving_team ?? "", 'serving_team must be "us" or "them"');
+  const winner = normalizeSide(fields.point_winner);
+  if (!winner) reject("point_winner", fields.point_winner ?? "", 'point_winner must be "us" or "them"');
+
+  // Rotation is optional (rotation tables just skip the rally), but a bad one is dropped out loud
+  let rotation: number | null = null;
+  if (fields.rotation) {
+    const c = coerceInt(fields.rotation);
+    if (c.value !== null && Number.isInteger(c.value) && c.value >= 1 && c.value <= 6) rotation = c.value;
+    else issues.push({ field: "rotation", column: columnFor.rotation ?? null, kind: "coerced", value: fields.rotation, to: null, reason: "rotation must be 1–6; stored as null" });
+  }
+
+  let outcome: string | null = null;
+  if (fields.outcome) {
+    outcome = normalizeOutcome(fields.outcome);
+    if (!outcome) {
+      outcome = "other";
+      issues.push({ field: "outcome", column: columnFor.outcome ?? null, kind: "coerced", value: fields.outcome, to: outcome, reason: `unknown outcome code (known: ${Object.keys(RALLY_OUTCOMES).join(", ")})` });
+    } else if (outcome !== fields.outcome) {
+      issues.push({ field: "outcome", column: columnFor.outcome ?? null, kind: "coerced", value: fields.outcome, to: outcome, reason: `"${fields.outcome}" read as ${outcome}` });
+    }
+  }
+
+  // Serve outcomes say who won: an ace is the server's point, a serve error the receiver's
+  const serveRule = outcome ? RALLY_OUTCOMES[outcome].server : undefined;
+  if (serveRule && serving && winner && (serveRule === "won") !== (serving === winner)) {
+    reject("point_winner", fields.point_winner ?? "", `${outcome} goes to the ${serveRule === "won" ? "serving" : "receiving"} team, but point_winner is ${winner}`);
+  }
+
+  if (issues.some((x) => x.kind === "rejected")) return { line, status: "rejected", issues, payload: null };
+
+  return {
+    line,
+    status: "accepted",
+    issues,
+    payload: {
+      team_id: ctx.teamId,
+      match_date: date.value,
+      opponent,
+      set_number: setNumber,
+      rally_number: rallyNumber,
+      serving_team: serving,
+      rotation,
+      server: fields.server || null,
+      point_winner: winner,
+      terminal_skill: fields.terminal_skill || (outcome ? RALLY_OUTCOMES[outcome].skill : null),
+      terminal_player: fields.terminal_player || null,
+      outcome,
+    },
+  };
+}
+
+/** Validate every record. Pure — no writes; the route decides whether to commit. */
+export function buildImportPreview(
+  header: string[],
+  records: Array<{ line: number; values: Record<string, string> }>,
+  ctx: RowContext,
+  profile?: MappingProfile
+): ImportPreview {
+  const type = detectImportType(header);
+  const mapping = columnMapping(type, header, profile);
+
+  const rows = records.map((r) =>
+    type === "match_results"
+      ? validateMatchRow(r.values, r.line, ctx)
+      : type === "rallies"
+        ? validateRallyRow(r.values, r.line, mapping, ctx)
+        : validatePlayerRow(r.values, r.line, mapping, ctx)
+  );
+
+  // The same natural key twice in one file: the later line wins, earlier ones are rejected
+  const lastLineByKey = new Map<string, number>();
+  for (const r of rows) if (r.status === "accepted") lastLineByKey.set(naturalKey(type, r.payload!), r.line);
+  for (const r of rows) {
+    if (r.status !== "accepted") continue;
+    const winner = lastLineByKey.get(naturalKey(type, r.payload!))!;
+    if (winner === r.line) continue;
+    r.status = "rejected";
+    r.payload = null;
+    r.issues.push({
+      field: "(row)",
+      column: null,
+      kind: "rejected",
+      value: "",
+      reason: `duplicate of line ${winner} (same ${NATURAL_KEYS[type].slice(1).join(" + ")}); line ${winner} is imported`,
+    });
+  }
+
+  return {
+    type,
+    profile: type === "player_game_stats" && profile ? { id: profile.id, name: profile.name, source: profile.source } : null,
+    mapping,
+    rows,
+    summary: {
+      rows: rows.length,
+      accepted: rows.filter((r) => r.status === "accepted").length,
+      rejected: rows.filter((r) => r.status === "rejected").length,
+      coerced: rows.filter((r) => r.issues.some((x) => x.kind === "coerced")).length,
+    },
+  };
+}
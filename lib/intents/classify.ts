@@ -0,0 +1,278 @@
+import { clubKey } from "../opponentReport";
+
+/**
+ * Question → intent + entities, without a model.
+ * Entities come from the team's own vocabulary (roster names, opponents, stat keys), so
+ * "who beat us most?" and "best blocker" route on meaning rather than on whichever substring matched first.
+ */
+
+export type Intent =
+  | "match_results"
+  | "season_summary"
+  | "roster"
+  | "leaders"
+  | "player"
+  | "lineup"
+  | "sideout"
+  | "opponent"
+  | "losses"
+  | "general";
+
+export type DateRange = { start: string; endExclusive: string; label: string }; // YYYY-MM-DD
+
+export type IntentEntities = {
+  players: string[]; // display names from the roster
+  opponents: string[]; // names as they appear in match_results
+  statKeys: string[]; // canonical / available stat keys
+  dateRange: DateRange | null;
+};
+
+export type IntentVocabulary = {
+  players: string[];
+  opponents: string[];
+  statKeys: string[];
+};
+
+export type Classification = {
+  intent: Intent;
+  entities: IntentEntities;
+  scores: Partial<Record<Intent, number>>; // for debugging / logs
+};
+
+// Words coaches use for a stat → the keys it covers (first key is the primary one)
+const STAT_SYNONYMS: Array<{ pattern: RegExp; keys: string[] }> = [
+  { pattern: /\b(kills?|hitters?|attackers?|terminators?|outside hitters?)\b/, keys: ["attack_kills"] },
+  { pattern: /\b(attack|hitting) errors?\b/, keys: ["attack_errors"] },
+  { pattern: /\bhitting (pct|percent|percentage)\b|\befficien(t|cy)\b|\bkill (pct|percent|percentage)\b|\bpoints? scored\b|\bscorers?\b/, keys: ["attack_kills"] },
+  { pattern: /\bserve in\b|\bserving (pct|percent|percentage)\b|\bconsistent serv/, keys: ["serve_errors"] },
+  { pattern: /\b(assists?|setters?|setting)\b/, keys: ["setting_assists"] },
+  { pattern: /\baces?\b|\bservers?\b/, keys: ["serve_aces"] },
+  { pattern: /\bserv(e|ing) errors?\b|\bmissed serves?\b/, keys: ["serve_errors"] },
+  { pattern: /\b(passers?|passing|serve[- ]receive|sr|reception)\b/, keys: ["serve_receive_passing_rating", "serve_receive_attempts"] },
+  { pattern: /\b(digs?|diggers?|defenders?|defense|liberos?)\b/, keys: ["digs_successful"] },
+  { pattern: /\b(blocks?|blockers?|blocking)\b/, keys: ["blocks_solo", "blocks_assist"] },
+  { pattern: /\bsolo blocks?\b/, keys: ["blocks_solo"] },
+];
+
+// Opponent-name words too generic to identify a club on their own
+const GENERIC_NAME_WORDS = new Set([
+  "volleyball",
+  "club",
+  "vbc",
+  "boys",
+  "girls",
+  "team",
+  "academy",
+  "elite",
+  "red",
+  "blue",
+  "black",
+  "white",
+  "gold",
+  "national",
+  "premier",
+  "united",
+]);
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+function norm(s: string) {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function hasWord(text: string, word: string) {
+  return new RegExp(`(^|\\s)${escapeRe(word)}(\\s|$)`).test(text);
+}
+
+/* -------------------------- Entities -------------------------- */
+
+/** Full name, or a first/last name that only one player on the roster has. */
+export function matchPlayers(question: string, players: string[]) {
+  const q = norm(question);
+  const full = players.filter((p) => norm(p) && hasWord(q, norm(p)));
+  if (full.length) return full;
+
+  const byToken = new Map<string, string[]>();
+  for (const p of players) {
+    for (const tok of norm(p).split(" ")) {
+      if (tok.length < 3) continue;
+      byToken.set(tok, [...(byToken.get(tok) ?? []), p]);
+    }
+  }
+  const out: string[] = [];
+  byToken.forEach((names, tok) => {
+    if (names.length === 1 && hasWord(q, tok) && !out.includes(names[0])) out.push(names[0]);
+  });
+  return out;
+}
+
+/**
+ * Whole opponent name, then the club (clubKey, as the scouting report groups them: "bay to bay" for
+ * "Bay to Bay 15 Red"), then a distinctive word from it ("Vision" for "Vision VBC 16 Black").
+ */
+export function matchOpponents(question: string, opponents: string[]) {
+  const q = norm(question);
+  const full = opponents.filter((o) => norm(o) && q.includes(norm(o)));
+  if (full.length) return full;
+
+  const spaced = q.replace(/-/g, " ");
+  const club = opponents.filter((o) => {
+    const key = clubKey(o);
+    const single = !key.includes(" ");
+    return key && !(single && (key.length < 3 || /^\d+$/.test(key) || GENERIC_NAME_WORDS.has(key))) && hasWord(spaced, key);
+  });
+  if (club.length) return club;
+
+  return opponents.filter((o) =>
+    norm(o)
+      .split(" ")
+      .some((tok) => tok.length >= 4 && !/^\d+$/.test(tok) && !GENERIC_NAME_WORDS.has(tok) && hasWord(q, tok))
+  );
+}
+
+/** Stat synonyms plus any available key spelled out ("attack kills", "attack_kills"). */
+export function matchStatKeys(question: string, available: string[]) {
+  const q = norm(question);
+  const out: string[] = [];
+  for (const s of STAT_SYNONYMS) {
+    if (s.pattern.test(q)) for (const k of s.keys) if (!out.includes(k)) out.push(k);
+  }
+  for (const k of available) {
+    const spoken = k.replace(/_/g, " ");
+    if ((hasWord(q, spoken) || question.toLowerCase().includes(k)) && !out.includes(k)) out.push(k);
+  }
+  return out;
+}
+
+function iso(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(d: Date, n: number) {
+  const x = new Date(d);
+  x.setUTCDate(x.getUTCDate() + n);
+  return x;
+}
+
+/** "last month", "this month", "in October", "last 3 weeks", "since 10/5", "last weekend". null = whole season. */
+export function matchDateRange(question: string, today: Date = new Date()): DateRange | null {
+  const q = norm(question);
+  const t = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  const monthStart = (y: number, m: number) => new Date(Date.UTC(y, m, 1));
+
+  if (/\bthis month\b/.test(q)) {
+    const start = monthStart(t.getUTCFullYear(), t.getUTCMonth());
+    return { start: iso(start), endExclusive: iso(addDays(t, 1)), label: "this month" };
+  }
+  if (/\blast month\b/.test(q)) {
+    const start = monthStart(t.getUTCFullYear(), t.getUTCMonth() - 1);
+    return { start: iso(start), endExclusive: iso(monthStart(t.getUTCFullYear(), t.getUTCMonth())), label: "last month" };
+  }
+
+  let m = q.match(/\b(?:last|past) (\d{1,2}) (day|week)s?\b/);
+  if (m) {
+    const days = Number(m[1]) * (m[2] === "week" ? 7 : 1);
+    return { start: iso(addDays(t, -days + 1)), endExclusive: iso(addDays(t, 1)), label: `last ${m[1]} ${m[2]}s` };
+  }
+  if (/\b(last|past) week\b/.test(q)) return { start: iso(addDays(t, -6)), endExclusive: iso(addDays(t, 1)), label: "last week" };
+  if (/\blast weekend\b/.test(q)) {
+    // Most recent Saturday–Sunday strictly before today
+    const dow = t.getUTCDay(); // 0 = Sunday
+    const sat = addDays(t, -(dow === 6 ? 7 : dow + 1));
+    return { start: iso(sat), endExclusive: iso(addDays(sat, 2)), label: "last weekend" };
+  }
+
+  m = question.toLowerCase().match(/\bsince (\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/); // before norm() strips "/"
+  if (m) {
+    const year = m[3] ? (m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3])) : t.getUTCFullYear();
+    const start = new Date(Date.UTC(year, Number(m[1]) - 1, Number(m[2])));
+    if (!Number.isNaN(start.getTime())) return { start: iso(start), endExclusive: iso(addDays(t, 1)), label: `since ${m[1]}/${m[2]}` };
+  }
+
+  for (let i = 0; i < MONTHS.length; i++) {
+    const name = MONTHS[i];
+    const re = new RegExp(`\\b(in|during|for|since) (${name}|${name.slice(0, 3)})\\b`);
+    const hit = q.match(re);
+    if (!hit) continue;
+    // Most recent occurrence of that month (not in the future)
+    const year = i > t.getUTCMonth() ? t.getUTCFullYear() - 1 : t.getUTCFullYear();
+    const start = monthStart(year, i);
+    const end = hit[1] === "since" ? addDays(t, 1) : monthStart(year, i + 1);
+    const label = `${hit[1] === "since" ? "since " : ""}${name[0].toUpperCase()}${name.slice(1)} ${year}`;
+    return { start: iso(start), endExclusive: iso(end), label };
+  }
+
+  return null;
+}
+
+/* -------------------------- Intent scoring -------------------------- */
+
+const RULES: Array<{ intent: Intent; pattern: RegExp; weight: number }> = [
+  { intent: "lineup", pattern: /\blineups?\b|\b5[- ]1\b|\b6[- ]2\b|\bstarting (six|6|lineup)\b|\bwho should start\b|\brotations?\b/, weight: 3 },
+  {
+    intent: "sideout",
+    pattern: /\bside ?outs?\b|\bpoint[- ]scoring\b|\bplus[- ]minus\b|\b(scoring )?runs\b|\bon a run\b|\b(which|worst|best|weakest|strongest) rotation\b|\bby rotation\b|\bhow (do|did) we lose points\b|\bplay[- ]by[- ]play\b/,
+    weight: 4,
+  },
+  { intent: "roster", pattern: /\broster\b|\bwho is on (the|our) team\b|\bpositions?\b/, weight: 3 },
+  { intent: "roster", pattern: /\bplayers\b/, weight: 1 },
+  { intent: "match_results", pattern: /\b(every|all|each) (game|match)(es|s)?\b|\bgame results?\b|\bschedule\b|\bresults\b/, weight: 3 },
+  { intent: "match_results", pattern: /\bscores?\b|\bgames\b|\bmatches\b/, weight: 1 },
+  { intent: "season_summary", pattern: /\brecord\b|\bsummary\b|\boverview\b|\bhow (is|was|are|did) (our|the|we)\b|\bwin (pct|percent|percentage)\b|\bdeciding sets?\b|\bdeuce\b|\bpoint diff/, weight: 2 },
+  { intent: "losses", pattern: /\blos(s|ses|t|ing)\b/, weight: 2 },
+  { intent: "losses", pattern: /\bwhat (could|should) we (have )?(done|do|change)\b|\bdo differently\b|\badjust(ments?)?\b|\bchanges?\b|\bfix\b|\bimprove\b/, weight: 2 },
+  { intent: "opponent", pattern: /\bbeat us\b|\btoughest\b|\bhardest\b|\b(most )?trouble\b|\bnemesis\b|\bhead to head\b|\brecord (against|vs)\b/, weight: 3 },
+  { intent: "opponent", pattern: /\b(vs|versus|against)\b|\bhow do we beat\b|\bscout(ing)?\b|\bgame plan\b/, weight: 1 },
+  { intent: "opponent", pattern: /\bchances?\b|\bodds\b|\bpredict(ion|ed)?\b|\bwin probability\b|\bfavou?red\b|\b(elo|power|strength) ratings?\b|\bhow strong\b/, weight: 2 },
+  { intent: "leaders", pattern: /\bbest\b|\btop\b|\bleaders?\b|\bleading\b|\bwho (has|had|leads)\b|\bmost\b|\brank(ing|ings)?\b/, weight: 2 },
+];
+
+/** Fixed order breaks ties: the more specific intent wins. */
+const PRIORITY: Intent[] = ["lineup", "sideout", "player", "opponent", "losses", "leaders", "roster", "match_results", "season_summary", "general"];
+
+export function classifyIntent(question: string, vocab: IntentVocabulary, today?: Date): Classification {
+  const q = norm(question);
+  const entities: IntentEntities = {
+    players: matchPlayers(question, vocab.players),
+    opponents: matchOpponents(question, vocab.opponents),
+    statKeys: matchStatKeys(question, vocab.statKeys),
+    dateRange: matchDateRange(question, today),
+  };
+
+  const scores: Partial<Record<Intent, number>> = {};
+  const add = (intent: Intent, n: number) => (scores[intent] = (scores[intent] ?? 0) + n);
+
+  for (const r of RULES) if (r.pattern.test(q)) add(r.intent, r.weight);
+
+  // Leaders need something to rank ("best" alone is usually about a lineup or an opponent)
+  if (scores.leaders && !entities.statKeys.length && !/\bleaders?\b/.test(q)) delete scores.leaders;
+  if (entities.statKeys.length) add("leaders", 1);
+
+  if (entities.players.length) add("player", 4);
+  if (entities.opponents.length) {
+    add("opponent", 3);
+    // "what should we change in losses vs X" stays a losses question, scoped to X
+    if (scores.losses) add("losses", 2);
+  }
+
+  let intent: Intent = "general";
+  let best = 0;
+  for (const i of PRIORITY) {
+    const n = scores[i] ?? 0;
+    if (n > best) {
+      intent = i;
+      best = n;
+    }
+  }
+  return { intent, entities, scores };
+}
@@ -0,0 +1,546 @@
+import { topNForKey, topNPassersOverall, type Aggregates, type StatRow } from "../aggregates";
+import type { KnowledgeChunk } from "../knowledge";
+import { formatMetric, metricLeaders, metricsForStatKeys, thresholdText } from "../metrics";
+import { buildLineups } from "../lineup";
+import type { OpponentReport } from "../opponentReport";
+import type { RallyStats } from "../rallies";
+import { describePrediction, predictMatch, type TeamRatings } from "../ratings";
+import { buildPlayerProfile } from "../playerProfile";
+import type { Intent, IntentEntities } from "./classify";
+import {
+  renderLeadersTable,
+  renderLineup,
+  renderMatchesTable,
+  renderMetricConflicts,
+  renderRallyStats,
+  renderRosterTable,
+  renderScoutingReport,
+} from "./render";
+
+/**
+ * One handler per intent. The chat route uses the same registry twice:
+ * `focus` goes into FACTS_JSON.intent so the model leads with the right facts, and
+ * `render` is the data-backed answer when there is no model (offline, error, stall).
+ */
+
+export type IntentContext = {
+  question: string;
+  facts: any; // the chat route's FACTS_JSON payload
+  agg: Aggregates | null; // scoped to entities.dateRange when the question named one
+  statsRows: StatRow[]; // player_game_stats rows behind `agg`
+  entities: IntentEntities;
+  scouting?: OpponentReport | null; // built by the chat route when one opponent is named
+  ratings?: TeamRatings | null; // whole window, not scoped to entities.dateRange
+  rallies?: RallyStats | null; // play-by-play aggregates, scoped like `agg`; null = none imported
+};
+
+export type IntentHandler = {
+  description: string; // one line, shown to the model with the focus facts
+  focus(ctx: IntentContext): Record<string, any>;
+  render(ctx: IntentContext): string;
+};
+
+const STAT_LABELS: Record<string, string> = {
+  attack_kills: "Kills",
+  attack_errors: "Attack errors",
+  attack_attempts: "Attack attempts",
+  setting_assists: "Assists",
+  serve_aces: "Aces",
+  serve_errors: "Serve errors",
+  serve_receive_passing_rating: "Serve-receive rating (0–3)",
+  serve_receive_attempts: "Serve-receive attempts",
+  digs_successful: "Digs",
+  blocks_solo: "Solo blocks",
+  blocks_assist: "Block assists",
+};
+
+export function statLabel(key: string) {
+  return STAT_LABELS[key] ?? key.replace(/_/g, " ");
+}
+
+type FactMatch = { date: string | null; opponent: string | null; result: "W" | "L" | null; [k: string]: any };
+
+function scopedMatches(ctx: IntentContext): FactMatch[] {
+  const all: FactMatch[] = Array.isArray(ctx.facts?.matches?.all) ? ctx.facts.matches.all : [];
+  const range = ctx.entities.dateRange;
+  const opponents = ctx.entities.opponents;
+  return all.filter((m) => {
+    if (range && (!m.date || m.date < range.start || m.date >= range.endExclusive)) return false;
+    if (opponents.length && !opponents.includes(String(m.opponent ?? "").trim())) return false;
+    return true;
+  });
+}
+
+function scopeLabel(ctx: IntentContext) {
+  const parts: string[] = [];
+  if (ctx.entities.opponents.length) parts.push(`vs ${ctx.entities.opponents.join(" / ")}`);
+  parts.push(ctx.entities.dateRange?.label ?? "season");
+  return parts.join(", ");
+}
+
+function conflictsOf(ctx: IntentContext) {
+  return Array.isArray(ctx.facts?.players?.metricConflicts) ? ctx.facts.players.metricConflicts : [];
+}
+
+/** Top 5 for one stat (passing ranks by attempts-weighted rating). */
+function leadersFor(agg: Aggregates, key: string) {
+  if (key === "serve_receive_passing_rating") {
+    return topNPassersOverall(agg.byPlayer, 5).map((p) => ({ player: p.player, value: p.rating, attempts: p.attempts }));
+  }
+  return topNForKey(agg.byPlayer, key, 5);
+}
+
+function rankedKeys(ctx: IntentContext) {
+  // Attempts alone aren't a "best" — skip them when the rating is also asked for
+  const keys = ctx.entities.statKeys;
+  return keys.filter((k) => !(k === "serve_receive_attempts" && keys.includes("serve_receive_passing_rating")));
+}
+
+const GAME_LOG_ROWS = 5;
+
+function profileFor(ctx: IntentContext, name: string) {
+  return ctx.agg ? buildPlayerProfile(name, ctx.statsRows, ctx.agg.byPlayer) : null;
+}
+
+// Pages take the same team / season as the chat
+function pageQuery(ctx: IntentContext) {
+  const qs = new URLSearchParams();
+  if (ctx.facts?.team?.id) qs.set("team", ctx.facts.team.id);
+  if (ctx.facts?.window?.seasonId) qs.set("season", ctx.facts.window.seasonId);
+  return qs.toString();
+}
+
+function profileHref(ctx: IntentContext, name: string) {
+  return `/players/${encodeURIComponent(name)}?${pageQuery(ctx)}`;
+}
+
+function lineupHref(ctx: IntentContext) {
+  return `/lineup?${pageQuery(ctx)}`;
+}
+
+function predictionsFor(ctx: IntentContext) {
+  return ctx.ratings ? ctx.entities.opponents.map((o) => predictMatch(ctx.ratings!, o)) : [];
+}
+
+function renderRatingTable(ratings: TeamRatings) {
+  const lines: string[] = [];
+  lines.push(`Our rating: **${ratings.rating}** (${ratings.matchesRated} matches rated; everyone starts at 1500)`);
+  lines.push("");
+  lines.push(`| Opponent | Rating | Meetings | W-L |`);
+  lines.push(`|---|---:|---:|---|`);
+  for (const o of ratings.opponents.slice(0, 8)) lines.push(`| ${o.opponent} | ${o.rating} | ${o.meetings} | ${o.wins}-${o.losses} |`);
+  return lines.join("\n");
+}
+
+function scoutingHref(ctx: IntentContext, club: string) {
+  return `/opponents/${encodeURIComponent(club)}?${pageQuery(ctx)}`;
+}
+
+// The report without its per-game lines (totals carry the same numbers for the model)
+function scoutingFocus(report: OpponentReport) {
+  const { playerLines, ...rest } = report;
+  return { ...rest, playerTotals: Object.fromEntries(Object.keys(report.playerTotals).map((p) => [p, report.playerTotals[p].totals])) };
+}
+
+function opponentRows(ctx: IntentContext) {
+  const rows = ctx.agg?.opponentSummary ?? [];
+  return ctx.entities.opponents.length ? rows.filter((o) => ctx.entities.opponents.includes(o.opponent)) : rows;
+}
+
+function renderOpponentTable(rows: Aggregates["opponentSummary"]) {
+  const lines: string[] = [];
+  lines.push(`| Opponent | W | L | Matches | Set diff | Point diff | Last |`);
+  lines.push(`|---|---:|---:|---:|---:|---:|---|`);
+  for (const o of rows) {
+    lines.push(
+      `| ${o.opponent} | ${o.wins} | ${o.losses} | ${o.matches} | ${o.setDiff} | ${o.pointDiff} | ${o.lastDate ?? "—"}${o.lastScore ? ` (${o.lastScore})` : ""} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+const LOSS_ADJUSTMENTS = [
+  `• **Serve plan:** pick 1–2 targets (weak passer / short zone / seam) and track misses (net/long/wide) to reduce free points.`,
+  `• **SR seams:** assign seams explicitly (who takes middle seam balls) and simplify to 2–3 passers if you’re getting pushed off the net.`,
+  `• **First-ball offense:** when out-of-system, run higher-margin sets (high OH/OPP) and prioritize “in-play” swings over low-percentage kills.`,
+  `• **Rotation escape:** pre-plan one “bad rotation” escape (serve sub, different passer pattern, or a safe set sequence).`,
+  `• **Block/defense:** if you’re getting tool’d, soften hands and funnel to your best digger; if you’re getting beat line, commit the defender and take cross.`,
+  `• **Transition scoring:** call 2–3 transition plays (pipe, quick, or OPP D-ball) you trust—transition points often decide tight matches.`,
+];
+
+/* -------------------------- Registry -------------------------- */
+
+export const INTENT_HANDLERS: Record<Intent, IntentHandler> = {
+  match_results: {
+    description: "List of match results (filtered by opponent / dates when named).",
+    focus: (ctx) => ({ matches: scopedMatches(ctx) }),
+    render: (ctx) => {
+      const matches = scopedMatches(ctx);
+      const lines = [`## Game results (${scopeLabel(ctx)})`, ""];
+      lines.push(matches.length ? renderMatchesTable(matches) : `I don’t have match results for that in the current dataset.`);
+      return lines.join("\n");
+    },
+  },
+
+  season_summary: {
+    description: "How the season is going: record, set/point record, recent form.",
+    focus: (ctx) => ({
+      record: ctx.facts?.team?.record ?? null,
+      setRecord: ctx.facts?.team?.setRecord ?? null,
+      recent: scopedMatches(ctx).slice(-5),
+    }),
+    render: (ctx) => {
+      const recent = scopedMatches(ctx).slice(-5).reverse();
+      const lines = [`## Season snapshot (${scopeLabel(ctx)})`, ""];
+      if (ctx.agg?.hasMatches) {
+        const w = recent.filter((m) => m.result === "W").length;
+        lines.push(`**Last ${recent.length}:** ${w}-${recent.length - w}`);
+        lines.push("");
+      }
+      lines.push(recent.length ? renderMatchesTable(recent) : `I don’t have match results for that window.`);
+      return lines.join("\n");
+    },
+  },
+
+  roster: {
+    description: "Roster with positions, plus the leaders table.",
+    focus: (ctx) => ({ positions: ctx.facts?.players?.positions ?? {} }),
+    render: (ctx) => {
+      const lines = [`## Team roster`, "", renderRosterTable(ctx.facts?.players?.positions ?? {})];
+      if (ctx.agg) lines.push("", renderLeadersTable(ctx.agg));
+      const conflicts = conflictsOf(ctx);
+      if (conflicts.length) lines.push("", renderMetricConflicts(conflicts));
+      return lines.join("\n");
+    },
+  },
+
+  leaders: {
+    description:
+      "Who leads the team in the named stat(s). Rank by the efficiency metrics (qualified players only) before raw volume; cite attempts.",
+    focus: (ctx) => {
+      if (!ctx.agg) return {};
+      const out: Record<string, any> = {};
+      for (const k of rankedKeys(ctx)) out[k] = leadersFor(ctx.agg, k);
+      const metrics: Record<string, any> = {};
+      for (const def of metricsForStatKeys(ctx.entities.statKeys, ctx.agg.availableStatKeys)) {
+        metrics[def.key] = { label: def.label, minAttempts: thresholdText(def), ...metricLeaders(ctx.agg.byPlayer, def, 5) };
+      }
+      return { metrics, leaders: out, window: ctx.entities.dateRange };
+    },
+    render: (ctx) => {
+      if (!ctx.agg?.hasStats) return `## Leaders\n\nI don’t have player stat totals for that window yet.`;
+      const keys = rankedKeys(ctx);
+      if (!keys.length) return renderLeadersTable(ctx.agg);
+
+      const lines = [`## Leaders (${scopeLabel(ctx)})`, ""];
+      for (const def of metricsForStatKeys(keys, ctx.agg.availableStatKeys)) {
+        const { leaders, unqualified } = metricLeaders(ctx.agg.byPlayer, def, 5);
+        const min = thresholdText(def);
+        lines.push(`### ${def.label}${min ? ` _(${min})_` : ""}`);
+        lines.push("");
+        if (!leaders.length) {
+          lines.push(`Nobody qualifies yet${unqualified ? ` (${unqualified} below the threshold)` : ""}.`);
+        } else {
+          lines.push(`| # | Player | ${def.label} |${def.attemptsLabel ? ` ${def.attemptsLabel[0].toUpperCase()}${def.attemptsLabel.slice(1)} |` : ""}`);
+          lines.push(`|---:|---|---:|${def.attemptsLabel ? "---:|" : ""}`);
+          leaders.forEach((r, i) =>
+            lines.push(`| ${i + 1} | ${r.player} | ${formatMetric(def, r.value)} |${def.attemptsLabel ? ` ${r.attempts} |` : ""}`)
+          );
+        }
+        lines.push("");
+      }
+      for (const k of keys) {
+        const rows = leadersFor(ctx.agg, k) as Array<{ player: string; value: number; attempts?: number }>;
+        lines.push(`### ${statLabel(k)}`);
+        lines.push("");
+        if (!rows.length) {
+          lines.push(`No ${statLabel(k).toLowerCase()} recorded.`);
+        } else {
+          lines.push(`| # | Player | ${statLabel(k)} |`);
+          lines.push(`|---:|---|---:|`);
+          rows.forEach((r, i) => lines.push(`| ${i + 1} | ${r.player} | ${r.value}${r.attempts ? ` on ${r.attempts}` : ""} |`));
+        }
+        lines.push("");
+      }
+      return lines.join("\n").trim();
+    },
+  },
+
+  player: {
+    description: "How the named player(s) are doing: totals with team rank, recent trend, SR by month, game log, precomputed metrics.",
+    focus: (ctx) => ({
+      players: Object.fromEntries(
+        ctx.entities.players.map((p) => {
+          const profile = profileFor(ctx, p);
+          return [
+            p,
+            {
+              profile: profile ? { ...profile, games: profile.games.slice(0, GAME_LOG_ROWS) } : null,
+              precomputed: ctx.facts?.players?.profiles?.[p]?.precomputed ?? {},
+            },
+          ];
+        })
+      ),
+    }),
+    render: (ctx) => {
+      const lines: string[] = [];
+      for (const name of ctx.entities.players) {
+        const facts = ctx.facts?.players?.profiles?.[name];
+        const profile = profileFor(ctx, name);
+        const position = profile?.position ?? facts?.position;
+        lines.push(`## ${name}${position ? ` — ${position}` : ""} (${scopeLabel(ctx)})`);
+        lines.push("");
+
+        if (!profile) {
+          lines.push(`No box-score rows for ${name} in this window.`);
+          lines.push("");
+        } else {
+          // Named stats first when the question asked about specific ones
+          const asked = profile.statKeys.filter((k) => ctx.entities.statKeys.includes(k));
+          const keys = asked.length ? asked : profile.statKeys;
+          const trend = new Map(profile.trend.rows.map((t) => [t.key, t]));
+          const ranks = new Map(profile.ranks.map((r) => [r.key, r]));
+
+          lines.push(`**Games:** ${profile.gamesPlayed}`);
+          lines.push("");
+          lines.push(`| Stat | Total | Team rank | Last ${profile.trend.games} / game | Season / game |`);
+          lines.push(`|---|---:|---:|---:|---:|`);
+          for (const k of keys) {
+            const r = ranks.get(k);
+            const t = trend.get(k);
+            lines.push(
+              `| ${statLabel(k)} | ${profile.totals[k] ?? 0} | ${r ? `${r.rank} of ${r.of}` : "—"} | ${t?.recentPerGame ?? "—"} | ${t?.seasonPerGame ?? "—"} |`
+            );
+          }
+          if (profile.serveReceive) {
+            const r = ranks.get("serve_receive_passing_rating");
+            lines.push(
+              `| Serve-receive (0–3) | ${profile.serveReceive.rating.toFixed(2)} on ${profile.serveReceive.attempts} | ${r ? `${r.rank} of ${r.of}` : "—"} | — | — |`
+            );
+          }
+          lines.push("");
+
+          if (profile.srByMonth.length > 1) {
+            lines.push(`**SR by month:** ` + profile.srByMonth.map((m) => `${m.month} ${m.rating.toFixed(2)} (${m.attempts})`).join(" • "));
+            lines.push("");
+          }
+
+          const logKeys = keys.slice(0, 6);
+          lines.push(`### Last ${Math.min(GAME_LOG_ROWS, profile.games.length)} games`);
+          lines.push("");
+          lines.push(`| Date | Opponent | ${logKeys.map(statLabel).join(" | ")} |`);
+          lines.push(`|---|---|${logKeys.map(() => "---:").join("|")}|`);
+          for (const g of profile.games.slice(0, GAME_LOG_ROWS)) {
+            lines.push(`| ${g.date ?? "—"} | ${g.opponent ?? "—"} | ${logKeys.map((k) => g.stats[k] ?? 0).join(" | ")} |`);
+          }
+          lines.push("");
+        }
+
+        const pre = facts?.precomputed ?? {};
+        const preKeys = Object.keys(pre);
+        if (preKeys.length) {
+          lines.push(`**Precomputed metrics:** ` + preKeys.map((k) => `${k} ${pre[k].value ?? pre[k].text ?? "—"} _(${pre[k].source})_`).join(" • "));
+          lines.push("");
+        }
+        const conflicts = conflictsOf(ctx).filter((c: any) => c.player === name);
+        if (conflicts.length) lines.push(renderMetricConflicts(conflicts), "");
+
+        lines.push(`[Full profile](${profileHref(ctx, name)})`);
+        lines.push("");
+      }
+      return lines.join("\n").trim();
+    },
+  },
+
+  lineup: {
+    description:
+      "Starting 5–1 and 6–2 rotations from listed positions: serve order, all six rotations (front/back row), libero/DS swaps, serve-receive passers. Honor availability notes in FACTS_JSON.knowledge.",
+    focus: (ctx) => (ctx.agg ? { lineups: buildLineups(ctx.agg.byPlayer), positions: ctx.agg.positions } : {}),
+    render: (ctx) => {
+      const lines: string[] = [];
+      const lineups = ctx.agg ? buildLineups(ctx.agg.byPlayer) : null;
+      if (!lineups || (!lineups.fiveOne && !lineups.sixTwo)) {
+        lines.push(`## Starting rotations`);
+        lines.push("");
+        lines.push(`I can’t field a legal six from the positions on file (I need at least a setter, two outsides and two middles).`);
+        lines.push(`List primary positions (S/OH/MB/OPP/L/DS) in the stats import and I’ll build the rotations.`);
+        return lines.join("\n");
+      }
+
+      lines.push(`## Starting rotations (${scopeLabel(ctx)})`);
+      lines.push("");
+      lines.push(`### 5–1 (stability / clearer tempo)`);
+      lines.push("");
+      lines.push(lineups.fiveOne ? renderLineup(lineups.fiveOne) : `Not enough listed players for a 5–1.`);
+      lines.push("");
+      lines.push(`### 6–2 (three front-row attackers every rotation, more subs)`);
+      lines.push("");
+      lines.push(lineups.sixTwo ? renderLineup(lineups.sixTwo) : `A 6–2 needs two setters; only one is listed.`);
+      lines.push("");
+      if (lineups.unlistedPositions.length) {
+        lines.push(`_No position on file for: ${lineups.unlistedPositions.join(", ")} — they only fill spots nobody listed can._`);
+        lines.push("");
+      }
+      lines.push(`### Why these players (coaching inference)`);
+      lines.push(`• Each spot goes to the best player listed at that position: setters by assists, outsides by kills and passing, middles by blocks, liberos by passing and digs.`);
+      lines.push(`• Setter, outsides and middles sit opposite each other, so every rotation has a passer-outside front and back.`);
+      lines.push(`• The libero takes the back-row middle; in a 6–2 the opposite comes in for whichever setter is front row.`);
+      lines.push("");
+      lines.push(`[Open the lineup page](${lineupHref(ctx)})`);
+      return lines.join("\n");
+    },
+  },
+
+  sideout: {
+    description: "Play-by-play: sideout % and point-scoring %, rotation-by-rotation plus/minus, servers, how we lose points, runs.",
+    focus: (ctx) => (ctx.rallies?.rallies ? { playByPlay: ctx.rallies } : { playByPlay: null, note: "No play-by-play (rallies) imported for this window." }),
+    render: (ctx) => {
+      const lines = [`## Sideout & rotations (${ctx.entities.dateRange?.label ?? "season"})`, ""];
+      if (!ctx.rallies?.rallies) {
+        lines.push(`No play-by-play imported for this window, so sideout %, rotation plus/minus and runs aren’t available. Box scores can’t answer these; import a rally-by-rally CSV on the Import page.`);
+        return lines.join("\n");
+      }
+      lines.push(renderRallyStats(ctx.rallies));
+      const worst = ctx.rallies.rotations.slice().sort((a, b) => a.plusMinus - b.plusMinus)[0];
+      if (worst && worst.plusMinus < 0) {
+        lines.push("");
+        lines.push(`Rotation ${worst.rotation} is the one to fix (${worst.plusMinus} over ${worst.rallies} rallies).`);
+      }
+      return lines.join("\n");
+    },
+  },
+
+  opponent: {
+    description: "Record and results against the named opponent(s), or who has given us the most trouble.",
+    focus: (ctx) => ({
+      opponents: opponentRows(ctx).slice(0, 12),
+      matches: ctx.entities.opponents.length ? scopedMatches(ctx) : [],
+      scoutingReport: ctx.scouting ? scoutingFocus(ctx.scouting) : null,
+      predictions: predictionsFor(ctx),
+      strongestByRating: ctx.ratings?.opponents.slice(0, 8) ?? [],
+    }),
+    render: (ctx) => {
+      const rows = opponentRows(ctx);
+      const predictions = predictionsFor(ctx).map((p) => `**Prediction:** ${describePrediction(p)}.`);
+      const lines: string[] = [];
+      if (ctx.scouting) {
+        lines.push(`## Scouting report: ${ctx.scouting.club} (${ctx.entities.dateRange?.label ?? "season"})`);
+        lines.push("");
+        if (predictions.length) lines.push(...predictions, "");
+        lines.push(renderScoutingReport(ctx.scouting));
+        lines.push("");
+        lines.push(`[Full scouting report](${scoutingHref(ctx, ctx.scouting.club)})`);
+        return lines.join("\n");
+      }
+      if (!ctx.entities.opponents.length) {
+        lines.push(`## Who has given you the most trouble (${scopeLabel(ctx)})`);
+        lines.push("");
+        lines.push(rows.length ? renderOpponentTable(rows.slice(0, 8)) : `I don’t have match results for that window.`);
+        if (ctx.ratings?.matchesRated) {
+          lines.push("");
+          lines.push(`### Strongest by rating`);
+          lines.push("");
+          lines.push(renderRatingTable(ctx.ratings));
+        }
+        return lines.join("\n");
+      }
+
+      lines.push(`## Head-to-head (${scopeLabel(ctx)})`);
+      lines.push("");
+      if (predictions.length) lines.push(...predictions, "");
+      if (!rows.length) {
+        lines.push(`No matches against ${ctx.entities.opponents.join(" / ")} in this window.`);
+        return lines.join("\n");
+      }
+      lines.push(renderOpponentTable(rows));
+      lines.push("");
+      lines.push(`### Matches`);
+      lines.push("");
+      lines.push(renderMatchesTable(scopedMatches(ctx)));
+      return lines.join("\n");
+    },
+  },
+
+  losses: {
+    description: "What to change in losses (scoped to the named opponent / dates): the losses, then adjustments.",
+    focus: (ctx) => ({
+      losses: scopedMatches(ctx).filter((m) => m.result === "L"),
+      trouble: opponentRows(ctx).slice(0, 6),
+    }),
+    render: (ctx) => {
+      const scoped = ctx.entities.opponents.length || ctx.entities.dateRange;
+      const losses = scoped
+        ? scopedMatches(ctx).filter((m) => m.result === "L").slice(-5).reverse()
+        : Array.isArray(ctx.facts?.team?.recentLosses)
+          ? ctx.facts.team.recentLosses
+          : [];
+
+      const lines = [`## What to change in losses (${scopeLabel(ctx)})`, ""];
+      if (losses.length) {
+        lines.push(`### Most recent losses (data-backed)`);
+        lines.push("");
+        lines.push(`| Date | Opponent | Score | Tournament |`);
+        lines.push(`|---|---|---|---|`);
+        for (const L of losses) lines.push(`| ${L.date ?? "—"} | ${L.opponent ?? "—"} | ${L.score ?? "—"} | ${L.tournament ?? "—"} |`);
+        lines.push("");
+      } else if (scoped) {
+        lines.push(`No losses in this window — the adjustments below are general.`);
+        lines.push("");
+      }
+
+      lines.push(`### High-leverage adjustments (coaching inference)`);
+      lines.push(...LOSS_ADJUSTMENTS);
+      lines.push("");
+
+      const rows = opponentRows(ctx);
+      if (rows.length) {
+        lines.push(`### Who has given you the most trouble (data-backed)`);
+        lines.push("");
+        lines.push(renderOpponentTable(rows.slice(0, 6)));
+      }
+      return lines.join("\n").trim();
+    },
+  },
+
+  general: {
+    description: "No specific intent detected; answer broadly from the leaders and coach notes.",
+    focus: () => ({}),
+    render: (ctx) => {
+      const lines: string[] = [];
+      lines.push(`## Best-effort answer`);
+      lines.push("");
+      lines.push(
+        `I can answer this better if you tell me what you want to optimize (sideout stability vs point scoring), ` +
+          `but here’s a solid coaching read based on what’s available.`
+      );
+      lines.push("");
+      if (ctx.agg) {
+        lines.push(renderLeadersTable(ctx.agg));
+        lines.push("");
+      }
+      const conflicts = conflictsOf(ctx);
+      if (conflicts.length) {
+        lines.push(renderMetricConflicts(conflicts));
+        lines.push("");
+      }
+      lines.push(`### Practical next steps (coaching inference)`);
+      lines.push(`• Tighten SR seams and prioritize first-ball sideout.`);
+      lines.push(`• Reduce free points from serve errors while keeping pressure.`);
+      lines.push(`• Identify 1–2 “go-to” attackers in high leverage moments and simplify late-game decision-making.`);
+      lines.push("");
+      lines.push(`If you paste the exact question you want answered (or name an opponent), I’ll tailor the plan.`);
+      return lines.join("\n");
+    },
+  },
+};
+
+/** Coach notes block, shown ahead of every fallback answer (notes often change the answer). */
+export function renderKnowledgeNotes(notes: KnowledgeChunk[]) {
+  if (!notes.length) return "";
+  const lines = [`### Relevant coach notes`, ""];
+  for (const n of notes) {
+    const tags = n.tags?.length ? ` _(${n.tags.join(", ")})_` : "";
+    lines.push(`• **${n.title}**${tags}: ${n.content}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,14 @@
+export type { Classification, DateRange, Intent, IntentEntities, IntentVocabulary } from "./classify";
+export { classifyIntent, matchDateRange, matchOpponents, matchPlayers, matchStatKeys } from "./classify";
+export type { IntentContext, IntentHandler } from "./handlers";
+export { INTENT_HANDLERS, renderKnowledgeNotes, statLabel } from "./handlers";
+export {
+  renderLeadersTable,
+  renderLineup,
+  renderMatchesTable,
+  renderMetricConflicts,
+  renderMetricLeaders,
+  renderRallyStats,
+  renderRosterTable,
+  renderScoutingReport,
+} from "./render";
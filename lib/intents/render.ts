@@ -0,0 +1,233 @@
+import { topNForKey, topNPassersOverall, type Aggregates } from "../aggregates";
+import { METRIC_BY_KEY, availableMetrics, computeMetric, formatMetric, metricLeaders, thresholdText, type MetricDef } from "../metrics";
+import { BACK_ROW, FRONT_ROW, type Lineup, type LineupSlot } from "../lineup";
+import { formatRecord, type OpponentReport } from "../opponentReport";
+import type { MetricConflict } from "../playerMetrics";
+import { RUN_LENGTH, formatPct, outcomeLabel, type RallyStats, type Run } from "../rallies";
+import { formatSets } from "../setScores";
+
+/**
+ * Markdown building blocks for the data-backed (no model) answers.
+ */
+
+export function renderRosterTable(positions: Record<string, string | null>) {
+  const players = Object.keys(positions)
+    .map((p) => ({ player: p, pos: positions[p] ?? "Unknown" }))
+    .sort((a, b) => a.player.localeCompare(b.player));
+
+  const lines: string[] = [];
+  lines.push(`| Player | Position |`);
+  lines.push(`|---|---|`);
+  for (const r of players) lines.push(`| ${r.player} | ${r.pos || "Unknown"} |`);
+  return lines.join("\n");
+}
+
+export function renderLeadersTable(agg: Aggregates) {
+  const kills = topNForKey(agg.byPlayer, "attack_kills", 5);
+  const assists = topNForKey(agg.byPlayer, "setting_assists", 5);
+  const aces = topNForKey(agg.byPlayer, "serve_aces", 5);
+  const digs = topNForKey(agg.byPlayer, "digs_successful", 5);
+  const soloBlocks = topNForKey(agg.byPlayer, "blocks_solo", 5);
+  const passers = topNPassersOverall(agg.byPlayer, 5);
+
+  const lines: string[] = [];
+  lines.push(`## Leaders (data-backed)`);
+  lines.push("");
+  lines.push(`| Category | #1 | #2 | #3 |`);
+  lines.push(`|---|---|---|---|`);
+
+  const fmt3 = (rows: Array<{ player: string; value: number }>) => {
+    const a = rows[0] ? `${rows[0].player} (${rows[0].value})` : "—";
+    const b = rows[1] ? `${rows[1].player} (${rows[1].value})` : "—";
+    const c = rows[2] ? `${rows[2].player} (${rows[2].value})` : "—";
+    return [a, b, c];
+  };
+
+  const [k1, k2, k3] = fmt3(kills);
+  const [a1, a2, a3] = fmt3(assists);
+  const [s1, s2, s3] = fmt3(aces);
+  const [d1, d2, d3] = fmt3(digs);
+  const [b1, b2, b3] = fmt3(soloBlocks);
+
+  const p1 = passers[0] ? `${passers[0].player} (${passers[0].rating} on ${passers[0].attempts})` : "—";
+  const p2 = passers[1] ? `${passers[1].player} (${passers[1].rating} on ${passers[1].attempts})` : "—";
+  const p3 = passers[2] ? `${passers[2].player} (${passers[2].rating} on ${passers[2].attempts})` : "—";
+
+  lines.push(`| Kills | ${k1} | ${k2} | ${k3} |`);
+  lines.push(`| Assists | ${a1} | ${a2} | ${a3} |`);
+  lines.push(`| Aces | ${s1} | ${s2} | ${s3} |`);
+  lines.push(`| Digs | ${d1} | ${d2} | ${d3} |`);
+  lines.push(`| Solo blocks | ${b1} | ${b2} | ${b3} |`);
+  lines.push(`| Serve-receive (SR) | ${p1} | ${p2} | ${p3} |`);
+
+  const metrics = availableMetrics(agg.availableStatKeys);
+  if (metrics.length) {
+    lines.push("");
+    lines.push(renderMetricLeaders(agg, metrics));
+  }
+
+  return lines.join("\n");
+}
+
+/** Efficiency leaders: only players past each metric's attempts threshold are ranked. */
+export function renderMetricLeaders(agg: Aggregates, metrics: MetricDef[]) {
+  const lines: string[] = [];
+  lines.push(`### Efficiency (qualified players)`);
+  lines.push("");
+  lines.push(`| Metric | #1 | #2 | #3 | Qualifies at |`);
+  lines.push(`|---|---|---|---|---|`);
+  for (const def of metrics) {
+    const { leaders, unqualified } = metricLeaders(agg.byPlayer, def, 3);
+    const cells = [0, 1, 2].map((i) => (leaders[i] ? `${leaders[i].player} (${formatMetric(def, leaders[i].value)})` : "—"));
+    const min = thresholdText(def);
+    const note = min ? `${min}${unqualified ? ` (${unqualified} below)` : ""}` : "—";
+    lines.push(`| ${def.label} | ${cells.join(" | ")} | ${note} |`);
+  }
+  return lines.join("\n");
+}
+
+export function renderMetricConflicts(conflicts: Array<MetricConflict & { player: string }>) {
+  const lines: string[] = [];
+  lines.push(`### Precomputed vs computed (they disagree — both shown)`);
+  lines.push("");
+  lines.push(`| Player | Metric | Precomputed | Computed | Computed from |`);
+  lines.push(`|---|---|---:|---:|---|`);
+  for (const c of conflicts) {
+    lines.push(
+      `| ${c.player} | ${c.metric_key} | ${c.precomputed} _(${c.precomputedSource})_ | ${c.computed} | ${c.computedFrom} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+export function renderMatchesTable(matches: Array<any>) {
+  const lines: string[] = [];
+  lines.push(`| Date | Opponent | Result | Score | Tournament | Round |`);
+  lines.push(`|---|---|---|---|---|---|`);
+  for (const m of matches) {
+    const date = m.date ?? "—";
+    const opp = m.opponent ?? "—";
+    const res = m.result ?? "—";
+    const score = m.score ?? "—";
+    const t = m.tournament ?? "—";
+    const r = m.round ?? "—";
+    lines.push(`| ${date} | ${opp} | ${res} | ${score} | ${t} | ${r} |`);
+  }
+  return lines.join("\n");
+}
+
+/** Serve order, six rotations with swaps and serve-receive, then any roster warnings. */
+export function renderLineup(lineup: Lineup) {
+  const lines: string[] = [];
+  const who = (slot: LineupSlot) => `${slot.player} (${slot.role})`;
+
+  lines.push(`**Serve order:** ${lineup.order.map(who).join(" → ")}`);
+  const extras = [lineup.libero ? `**Libero:** ${lineup.libero.player}` : "", ...lineup.specialists.map((x) => `**${x.role} sub:** ${x.player}`)].filter(Boolean);
+  if (extras.length) lines.push(extras.join(" • "));
+  lines.push("");
+  lines.push(`| Rot | Front row (4 · 3 · 2) | Back row (5 · 6 · 1) | Serves | Sets | Swaps | SR passers |`);
+  lines.push(`|---:|---|---|---|---|---|---|`);
+  for (const r of lineup.rotations) {
+    const front = FRONT_ROW.map((z) => r.zones[z].player).join(" · ");
+    const back = BACK_ROW.map((z) => r.zones[z].player).join(" · ");
+    const swaps = r.subs.map((x) => `${x.in} for ${x.for}${x.zone === 1 ? " (after serve)" : ""}`).join("; ") || "—";
+    lines.push(
+      `| ${r.number} | ${front} | ${back} | ${r.server} | ${r.setter} (from ${r.receive.setterReleaseFrom}) | ${swaps} | ${r.receive.passers.join(", ") || "—"} |`
+    );
+  }
+  if (lineup.warnings.length) {
+    lines.push("");
+    for (const w of lineup.warnings) lines.push(`• ${w}`);
+  }
+  return lines.join("\n");
+}
+
+/** Head-to-head record, every meeting with set scores, tournaments, our player lines and common opponents. */
+export function renderScoutingReport(report: OpponentReport) {
+  const lines: string[] = [];
+  const r = report.record;
+  lines.push(`**Record vs ${report.club}:** ${formatRecord(r)}${r.matchesWithScores ? ` • points ${r.pointsFor}-${r.pointsAgainst}` : ""}`);
+  if (report.matchedNames.length > 1) lines.push(`Includes: ${report.matchedNames.join(", ")}`);
+  lines.push("");
+  lines.push(`| Date | Team | Result | Sets | Tournament | Round |`);
+  lines.push(`|---|---|---|---|---|---|`);
+  for (const m of report.matches) {
+    lines.push(`| ${m.date ?? "—"} | ${m.opponent} | ${m.result ?? "—"} | ${m.sets ? formatSets(m.sets) : m.score ?? "—"} | ${m.tournament ?? "—"} | ${m.round ?? "—"} |`);
+  }
+
+  const players = Object.keys(report.playerTotals).sort(
+    (a, b) => (report.playerTotals[b].totals.attack_kills ?? 0) - (report.playerTotals[a].totals.attack_kills ?? 0)
+  );
+  if (players.length) {
+    const hitting = METRIC_BY_KEY.hitting_pct;
+    lines.push("");
+    lines.push(`### Our players in these matches`);
+    lines.push("");
+    lines.push(`| Player | Kills | Errors | Attempts | Hitting % | Aces | Digs | SR |`);
+    lines.push(`|---|---:|---:|---:|---:|---:|---:|---:|`);
+    for (const p of players) {
+      const agg = report.playerTotals[p];
+      const t = agg.totals;
+      const sr = agg.srAttempts ? `${(agg.srWeightedSum / agg.srAttempts).toFixed(2)} (${agg.srAttempts})` : "—";
+      lines.push(
+        `| ${p} | ${t.attack_kills ?? 0} | ${t.attack_errors ?? 0} | ${t.attack_attempts ?? 0} | ${formatMetric(hitting, computeMetric(hitting, t).value)} | ${t.serve_aces ?? 0} | ${t.digs_successful ?? 0} | ${sr} |`
+      );
+    }
+  }
+
+  if (report.commonOpponents.length) {
+    lines.push("");
+    lines.push(`### Common opponents`);
+    lines.push("");
+    lines.push(`| Opponent | Us | Via | Via vs them | Via vs ${report.club} |`);
+    lines.push(`|---|---|---|---|---|`);
+    for (const c of report.commonOpponents) {
+      lines.push(`| ${c.opponent} | ${formatRecord(c.us)} | ${c.via.team} | ${formatRecord(c.via.vsOpponent)} | ${formatRecord(c.via.vsClub)} |`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Sideout / point-scoring, rotation plus-minus, servers, how points end, and runs. */
+export function renderRallyStats(stats: RallyStats) {
+  const lines: string[] = [];
+  lines.push(
+    `**Sideout:** ${formatPct(stats.sideout.pct)} (${stats.sideout.won}/${stats.sideout.rallies}) • **Point-scoring:** ${formatPct(stats.pointScoring.pct)} (${stats.pointScoring.won}/${stats.pointScoring.rallies}) • ${stats.rallies} rallies, ${stats.sets} sets`
+  );
+
+  if (stats.rotations.length) {
+    lines.push("");
+    lines.push(`| Rotation | Rallies | +/- | Sideout % | Point-scoring % |`);
+    lines.push(`|---:|---:|---:|---:|---:|`);
+    for (const r of stats.rotations) {
+      lines.push(
+        `| ${r.rotation} | ${r.rallies} | ${r.plusMinus > 0 ? "+" : ""}${r.plusMinus} | ${formatPct(r.sideout.pct)} (${r.sideout.rallies}) | ${formatPct(r.pointScoring.pct)} (${r.pointScoring.rallies}) |`
+      );
+    }
+    if (stats.withoutRotation) lines.push(`\n${stats.withoutRotation} rallies have no rotation recorded and are left out of this table.`);
+  }
+
+  if (stats.servers.length) {
+    lines.push("");
+    lines.push(`| Server | Serves | Point-scoring % | Aces | Errors |`);
+    lines.push(`|---|---:|---:|---:|---:|`);
+    for (const s of stats.servers) lines.push(`| ${s.server} | ${s.serves} | ${formatPct(s.pointScoringPct)} | ${s.aces} | ${s.errors} |`);
+  }
+
+  const lost = Object.entries(stats.pointsLostBy).sort((a, b) => b[1] - a[1]);
+  if (lost.length) {
+    const total = lost.reduce((s, [, n]) => s + n, 0);
+    lines.push("");
+    lines.push(`**How we lose points:** ${lost.map(([code, n]) => `${outcomeLabel(code)} ${n} (${Math.round((100 * n) / total)}%)`).join(", ")}`);
+  }
+
+  const { longestFor, longestAgainst, againstOf3Plus, forOf3Plus } = stats.runs;
+  const where = (r: Run) => `${r.date ?? "—"} vs ${r.opponent}, set ${r.set}`;
+  lines.push("");
+  lines.push(
+    `**Runs (${RUN_LENGTH}+ straight points):** ${forOf3Plus} for, ${againstOf3Plus} against` +
+      (longestFor ? ` • longest for: ${longestFor.length} (${where(longestFor)})` : "") +
+      (longestAgainst ? ` • longest against: ${longestAgainst.length} (${where(longestAgainst)})` : "")
+  );
+  return lines.join("\n");
+}
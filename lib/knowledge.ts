@@ -0,0 +1,43 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SeasonKey } from "./teamContext";
+
+export type KnowledgeChunk = {
+  id: number;
+  title: string;
+  content: string;
+  tags: string[];
+  season: SeasonKey;
+  rank: number;
+};
+
+// Keep FACTS_JSON small: long notes are clipped (the model only needs the gist + title to cite)
+const MAX_CONTENT_CHARS = 800;
+
+/**
+ * Full-text rank knowledge_chunks against the question (see match_knowledge_chunks in schema.sql).
+ * season null → chunks from every season for the team.
+ */
+export async function retrieveKnowledgeChunks(
+  supabase: SupabaseClient,
+  opts: { teamId: string; season: SeasonKey | null; question: string; limit?: number }
+): Promise<KnowledgeChunk[]> {
+  const { data, error } = await supabase.rpc("match_knowledge_chunks", {
+    p_team_id: opts.teamId,
+    p_season: opts.season,
+    p_query: opts.question,
+    p_limit: opts.limit ?? 5,
+  });
+  if (error) throw error;
+
+  return ((data ?? []) as any[]).map((r) => {
+    const content = String(r.content ?? "").trim();
+    return {
+      id: Number(r.id),
+      title: String(r.title ?? ""),
+      content: content.length > MAX_CONTENT_CHARS ? `${content.slice(0, MAX_CONTENT_CHARS)}…` : content,
+      tags: Array.isArray(r.tags) ? r.tags : [],
+      season: r.season,
+      rank: Number(Number(r.rank ?? 0).toFixed(4)),
+    };
+  });
+}
@@ -0,0 +1,120 @@
+import { safeIso, toNum, type PlayerAgg, type StatRow } from "./aggregates";
+import { normalizePosition, type Role } from "./lineup";
+import { availableMetrics, computeMetric, type MetricDef } from "./metrics";
+import { isLowerBetter, orderStatKeys } from "./playerProfile";
+
+/**
+ * Every player × every stat key for the /players table, from computeAggregates().byPlayer so the
+ * numbers are the ones chat quotes. Counting stats can be shown per match or per set; the derived
+ * metrics are already rates and only count past their attempt threshold.
+ */
+
+export type Normalization = "total" | "match" | "set";
+
+export type LeaderboardCell = { value: number | null; qualified: boolean; attempts?: number };
+
+export type LeaderboardRow = {
+  player: string;
+  position: string | null;
+  role: Role | null;
+  games: number; // distinct date + opponent rows in player_game_stats
+  sets: number; // totals.sets_played (0 when the export has no set counts)
+  cells: Record<string, LeaderboardCell>; // stat key or metric key → value
+};
+
+export type LeaderboardColumn = { key: string; kind: "stat" | "metric" | "sr"; lowerIsBetter: boolean; metric?: MetricDef };
+
+export type Leaderboard = {
+  normalization: Normalization;
+  perSetAvailable: boolean;
+  columns: LeaderboardColumn[];
+  rows: LeaderboardRow[];
+};
+
+export const SR_KEY = "sr_rating";
+
+function gamesByPlayer(statsRows: StatRow[]) {
+  const out = new Map<string, Set<string>>();
+  for (const r of statsRows) {
+    const player = (r.player_name ?? "").trim();
+    if (!player) continue;
+    const games = out.get(player) ?? new Set<string>();
+    games.add(`${safeIso(r.game_date)}|${(r.opponent ?? "").trim().toLowerCase()}`);
+    out.set(player, games);
+  }
+  return out;
+}
+
+/**
+ * `minAttempts` overrides every metric's own threshold (0 = show every value); undefined keeps the
+ * defaults from lib/metrics.ts.
+ */
+export function buildLeaderboard(
+  byPlayer: Record<string, PlayerAgg>,
+  statsRows: StatRow[],
+  availableStatKeys: string[],
+  opts: { normalization?: Normalization; minAttempts?: number } = {}
+): Leaderboard {
+  const perSetAvailable = availableStatKeys.includes("sets_played");
+  const normalization: Normalization = opts.normalization === "set" && !perSetAvailable ? "total" : opts.normalization ?? "total";
+  const metrics = availableMetrics(availableStatKeys);
+  const statKeys = orderStatKeys(availableStatKeys).filter((k) => !(normalization !== "total" && k === "sets_played"));
+  const games = gamesByPlayer(statsRows);
+
+  const hasSr = availableStatKeys.includes("serve_receive_attempts");
+
+  const columns: LeaderboardColumn[] = [
+    ...metrics.map((m) => ({ key: m.key, kind: "metric" as const, lowerIsBetter: !!m.lowerIsBetter, metric: m })),
+    ...(hasSr ? [{ key: SR_KEY, kind: "sr" as const, lowerIsBetter: false }] : []),
+    ...statKeys.map((k) => ({ key: k, kind: "stat" as const, lowerIsBetter: isLowerBetter(k) })),
+  ];
+
+  const rows = Object.keys(byPlayer).map((player) => {
+    const agg = byPlayer[player];
+    const g = games.get(player)?.size ?? 0;
+    const sets = toNum(agg.totals.sets_played);
+    const divisor = normalization === "match" ? g : normalization === "set" ? sets : 1;
+    const cells: Record<string, LeaderboardCell> = {};
+
+    for (const k of statKeys) {
+      const total = toNum(agg.totals[k]);
+      cells[k] = { value: divisor > 0 ? Number((total / divisor).toFixed(normalization === "total" ? 2 : 3)) : null, qualified: true };
+    }
+    for (const m of metrics) {
+      const v = computeMetric(m, agg.totals);
+      const min = opts.minAttempts ?? m.minAttempts;
+      cells[m.key] = { value: v.value, qualified: v.value !== null && v.attempts >= min, attempts: v.attempts };
+    }
+    if (hasSr) {
+      const min = opts.minAttempts ?? 0;
+      cells[SR_KEY] = {
+        value: agg.srAttempts > 0 ? Number((agg.srWeightedSum / agg.srAttempts).toFixed(2)) : null,
+        qualified: agg.srAttempts > 0 && agg.srAttempts >= min,
+        attempts: agg.srAttempts,
+      };
+    }
+
+    return { player, position: agg.position, role: normalizePosition(agg.position), games: g, sets, cells };
+  });
+
+  return { normalization, perSetAvailable, columns, rows };
+}
+
+/** Sort by one column; unqualified / missing values always sink to the bottom, then by name. */
+export function sortLeaderboard(rows: LeaderboardRow[], key: string, dir: "asc" | "desc") {
+  const value = (r: LeaderboardRow) => {
+    if (key === "player") return null;
+    if (key === "games") return r.games;
+    const c = r.cells[key];
+    return c && c.qualified ? c.value : null;
+  };
+  return rows.slice().sort((a, b) => {
+    if (key === "player") return dir === "asc" ? a.player.localeCompare(b.player) : b.player.localeCompare(a.player);
+    const va = value(a);
+    const vb = value(b);
+    if (va === null && vb === null) return a.player.localeCompare(b.player);
+    if (va === null) return 1;
+    if (vb === null) return -1;
+    return (dir === "asc" ? va - vb : vb - va) || a.player.localeCompare(b.player);
+  });
+}
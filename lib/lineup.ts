@@ -0,0 +1,253 @@
+import { toNum, type PlayerAgg } from "./aggregates";
+
+/**
+ * Starting rotations from real positions (S / OH / MB / OPP / L / DS).
+ * Serve order is S, OH, MB, OPP, OH, MB (5–1) or S, OH, MB, S, OH, MB (6–2), so setters / outsides /
+ * middles are always opposite each other. Rotation 1 = first server (a setter) in zone 1.
+ * Who plays each role is picked from the box score; the scores are heuristics, not a model.
+ */
+
+export type Role = "S" | "OH" | "MB" | "OPP" | "L" | "DS";
+export type LineupSystem = "5-1" | "6-2";
+export type Zone = 1 | 2 | 3 | 4 | 5 | 6;
+
+export const ROLE_LABELS: Record<Role, string> = {
+  S: "Setter",
+  OH: "Outside",
+  MB: "Middle",
+  OPP: "Opposite",
+  L: "Libero",
+  DS: "Defensive specialist",
+};
+
+export type LineupSlot = {
+  player: string;
+  role: Role;
+  score: number;
+  listedPosition: string | null;
+  fromOtherPosition: boolean; // no listed player at this role was available
+};
+
+export type Substitution = { in: string; inRole: Role; for: string; zone: Zone; note: string };
+
+export type Rotation = {
+  number: number; // 1–6
+  zones: Record<Zone, LineupSlot>;
+  server: string;
+  setter: string; // who sets in this rotation
+  frontRowAttackers: number;
+  subs: Substitution[]; // libero / DS / 6–2 swaps in effect this rotation
+  receive: { passers: string[]; hidden: string[]; setterReleaseFrom: Zone };
+};
+
+export type Lineup = {
+  system: LineupSystem;
+  order: LineupSlot[]; // serve order, starting with the rotation-1 server
+  libero: LineupSlot | null;
+  specialists: LineupSlot[]; // DS / opposite subs used at swap points
+  rotations: Rotation[];
+  warnings: string[];
+};
+
+export const FRONT_ROW: Zone[] = [4, 3, 2];
+export const BACK_ROW: Zone[] = [5, 6, 1];
+
+/** "Setter", "S/OPP", "outside hitter", "MH", "RS" → role (first one listed). null = unknown. */
+export function normalizePosition(raw: string | null | undefined): Role | null {
+  const first = String(raw ?? "")
+    .toLowerCase()
+    .split(/[\/,&+]| or /)[0]
+    .trim();
+  if (!first) return null;
+  if (/^(s|setter|set)$/.test(first)) return "S";
+  if (/^(oh|lh|outside|outside hitter|left side|left|wing)$/.test(first)) return "OH";
+  if (/^(mb|mh|middle|middle blocker|middle hitter)$/.test(first)) return "MB";
+  if (/^(opp|op|rs|opposite|right side|right|opposite hitter)$/.test(first)) return "OPP";
+  if (/^(l|lib|libero)$/.test(first)) return "L";
+  if (/^(ds|defensive specialist|dig specialist)$/.test(first)) return "DS";
+  return null;
+}
+
+// Perfect-pass equivalents: SR rating (0–3) × attempts / 3
+function passValue(p: PlayerAgg) {
+  return p.srAttempts > 0 ? p.srWeightedSum / 3 : 0;
+}
+
+function blocks(p: PlayerAgg) {
+  return toNum(p.totals.blocks_solo) + 0.5 * toNum(p.totals.blocks_assist);
+}
+
+/** How much a player brings to a role, from season totals. Only compared within a role. */
+export function roleScore(p: PlayerAgg, role: Role) {
+  const t = p.totals;
+  const kills = toNum(t.attack_kills);
+  const attackErrors = toNum(t.attack_errors);
+  switch (role) {
+    case "S":
+      return toNum(t.setting_assists) + 0.25 * toNum(t.digs_successful);
+    case "OH":
+      return kills - 0.5 * attackErrors + passValue(p) + toNum(t.serve_aces);
+    case "MB":
+      return 2 * blocks(p) + kills - 0.5 * attackErrors;
+    case "OPP":
+      return kills - 0.5 * attackErrors + 1.5 * blocks(p);
+    case "L":
+    case "DS":
+      return passValue(p) + toNum(t.digs_successful) - toNum(t.serve_receive_errors);
+  }
+}
+
+type Pool = { name: string; agg: PlayerAgg; role: Role | null }[];
+
+/**
+ * Best available player for a role: listed players first, then (with a warning) anyone with no listed
+ * position, then players listed elsewhere. `used` is shared across picks so nobody plays two spots.
+ */
+function pick(pool: Pool, role: Role, used: Set<string>, warnings: string[], fallbackRoles: Role[] = []): LineupSlot | null {
+  const score = (x: Pool[number]) => Number(roleScore(x.agg, role).toFixed(1));
+  const best = (xs: Pool) => xs.filter((x) => !used.has(x.name)).sort((a, b) => score(b) - score(a))[0];
+
+  const listed = best(pool.filter((x) => x.role === role));
+  const chosen = listed ?? best(pool.filter((x) => x.role === null)) ?? best(pool.filter((x) => x.role !== null && fallbackRoles.includes(x.role)));
+  if (!chosen) return null;
+
+  used.add(chosen.name);
+  const slot: LineupSlot = {
+    player: chosen.name,
+    role,
+    score: score(chosen),
+    listedPosition: chosen.agg.position,
+    fromOtherPosition: chosen.role !== role,
+  };
+  if (slot.fromOtherPosition) {
+    warnings.push(
+      `No ${ROLE_LABELS[role].toLowerCase()} available — using ${slot.player} (${slot.listedPosition ? `listed ${slot.listedPosition}` : "no position listed"}).`
+    );
+  }
+  return slot;
+}
+
+function zonesFor(order: LineupSlot[], r: number) {
+  // Zone 1 serves; the next server is in zone 2, then 3, ... (rotation moves clockwise)
+  const at = (i: number) => order[(r + i) % 6];
+  return { 1: at(0), 2: at(1), 3: at(2), 4: at(3), 5: at(4), 6: at(5) } as Record<Zone, LineupSlot>;
+}
+
+function zoneOf(zones: Record<Zone, LineupSlot>, player: string) {
+  return (Object.keys(zones).map(Number) as Zone[]).find((z) => zones[z].player === player)!;
+}
+
+function buildRotations(system: LineupSystem, order: LineupSlot[], libero: LineupSlot | null, specialists: LineupSlot[]) {
+  const rotations: Rotation[] = [];
+  const setters = order.filter((x) => x.role === "S");
+  const opps = specialists.filter((x) => x.role === "OPP");
+
+  for (let r = 0; r < 6; r++) {
+    const zones = zonesFor(order, r);
+    const back = BACK_ROW.map((z) => zones[z]);
+    const front = FRONT_ROW.map((z) => zones[z]);
+    const subs: Substitution[] = [];
+
+    // 6–2: the back-row setter sets; the front-row setter is swapped for an opposite when we have one
+    const settingSlot = system === "6-2" ? back.find((x) => x.role === "S") ?? setters[0] : setters[0];
+    if (system === "6-2") {
+      const frontSetter = front.find((x) => x.role === "S");
+      const oppIn = frontSetter ? opps[setters.indexOf(frontSetter)] ?? opps[0] : undefined;
+      if (frontSetter && oppIn) {
+        subs.push({ in: oppIn.player, inRole: "OPP", for: frontSetter.player, zone: zoneOf(zones, frontSetter.player), note: "hits as opposite while the setter is front row" });
+      }
+    }
+
+    // Libero for the back-row middle; the middle serves in zone 1, the libero comes in once serve is lost
+    if (libero) {
+      for (const mb of back.filter((x) => x.role === "MB")) {
+        const zone = zoneOf(zones, mb.player);
+        subs.push({
+          in: libero.player,
+          inRole: "L",
+          for: mb.player,
+          zone,
+          note: zone === 1 ? `${mb.player} serves; libero in once we lose the serve` : "back-row middle",
+        });
+      }
+    }
+
+    // 5–1: DS for the back-row opposite (rarely passes, usually a weaker back-row defender)
+    const ds = specialists.find((x) => x.role === "DS");
+    if (ds && system === "5-1") {
+      const opp = back.find((x) => x.role === "OPP");
+      if (opp && zoneOf(zones, opp.player) !== 1) subs.push({ in: ds.player, inRole: "DS", for: opp.player, zone: zoneOf(zones, opp.player), note: "back-row defense" });
+    }
+
+    const subbedOut = new Set(subs.map((x) => x.for));
+    const onCourt = (s: LineupSlot) => (subbedOut.has(s.player) ? subs.find((x) => x.for === s.player)!.in : s.player);
+    const frontAttackers = front.filter((x) => x.role !== "S" || subbedOut.has(x.player)).length;
+
+    // Serve receive: libero + both outsides (+ DS); middles, the opposite and the setter hide
+    const passers: string[] = [];
+    if (libero) passers.push(libero.player);
+    for (const s of [...back, ...front]) if (s.role === "OH") passers.push(s.player);
+    if (ds && subs.some((x) => x.in === ds.player)) passers.push(ds.player);
+    const hidden = [...front, ...back].map(onCourt).filter((p) => !passers.includes(p));
+
+    rotations.push({
+      number: r + 1,
+      zones,
+      server: zones[1].player,
+      setter: settingSlot?.player ?? "—",
+      frontRowAttackers: frontAttackers,
+      subs,
+      receive: { passers: passers.slice(0, 4), hidden, setterReleaseFrom: settingSlot ? zoneOf(zones, settingSlot.player) : 1 },
+    });
+  }
+  return rotations;
+}
+
+function buildSystem(system: LineupSystem, pool: Pool): Lineup | null {
+  const used = new Set<string>();
+  const warnings: string[] = [];
+
+  const s1 = pick(pool, "S", used, warnings);
+  const s2 = system === "6-2" ? pick(pool, "S", used, warnings) : null;
+  if (!s1 || (system === "6-2" && !s2)) return null;
+
+  const oh1 = pick(pool, "OH", used, warnings, ["OPP", "DS"]);
+  const oh2 = pick(pool, "OH", used, warnings, ["OPP", "DS"]);
+  const mb1 = pick(pool, "MB", used, warnings, ["OPP", "OH"]);
+  const mb2 = pick(pool, "MB", used, warnings, ["OPP", "OH"]);
+  const third = system === "5-1" ? pick(pool, "OPP", used, warnings, ["OH"]) : s2;
+  if (!oh1 || !oh2 || !mb1 || !mb2 || !third) return null;
+
+  // Libero / subs only from players listed there (or unlisted) — never pull another starter's position
+  const libero = pick(pool.filter((x) => x.role === "L" || x.role === "DS" || x.role === null), "L", used, warnings, ["DS"]);
+  const specialists: LineupSlot[] = [];
+  if (system === "6-2") {
+    for (let i = 0; i < 2; i++) {
+      const opp = pick(pool.filter((x) => x.role === "OPP"), "OPP", used, []);
+      if (opp) specialists.push(opp);
+    }
+    if (!specialists.length) warnings.push(`No opposites listed — setters stay in and hit when front row (only 2 front-row attackers every rotation).`);
+  } else {
+    const ds = pick(pool.filter((x) => x.role === "DS"), "DS", used, []);
+    if (ds) specialists.push(ds);
+  }
+  if (!libero) warnings.push(`No libero listed — middles play back row.`);
+
+  const order = [s1, oh1, mb1, third, oh2, mb2];
+  return { system, order, libero, specialists, rotations: buildRotations(system, order, libero, specialists), warnings };
+}
+
+/** null per system when the roster can't field it (e.g. one setter for a 6–2). */
+export function buildLineups(byPlayer: Record<string, PlayerAgg>, opts: { unavailable?: string[] } = {}) {
+  const out = new Set((opts.unavailable ?? []).map((x) => x.trim().toLowerCase()));
+  const pool: Pool = Object.keys(byPlayer)
+    .filter((name) => !out.has(name.trim().toLowerCase()))
+    .map((name) => ({ name, agg: byPlayer[name], role: normalizePosition(byPlayer[name].position) }));
+
+  const unlisted = pool.filter((x) => x.role === null).map((x) => x.name);
+  return {
+    fiveOne: buildSystem("5-1", pool),
+    sixTwo: buildSystem("6-2", pool),
+    unlistedPositions: unlisted,
+  };
+}
@@ -0,0 +1,87 @@
+import { LlmError } from "./types";
+
+/**
+ * Transport helpers shared by the HTTP providers: deadline/stall timeouts and server-sent event parsing.
+ */
+
+// complete(): one deadline for the whole reply
+export const COMPLETE_TIMEOUT_MS = 12000;
+// stream(): no overall deadline (long lineup answers keep flowing); abort only when the model goes quiet
+export const FIRST_TOKEN_TIMEOUT_MS = 15000;
+export const IDLE_TIMEOUT_MS = 10000;
+
+/** AbortController whose timer can be pushed back; call clear() when done. */
+export function stallTimer(firstMs: number, idleMs: number) {
+  const controller = new AbortController();
+  let timer = setTimeout(() => controller.abort(), firstMs);
+  return {
+    signal: controller.signal,
+    keepAlive() {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), idleMs);
+    },
+    clear() {
+      clearTimeout(timer);
+    },
+  };
+}
+
+export async function postJson(provider: string, url: string, headers: Record<string, string>, body: any, signal: AbortSignal) {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err: any) {
+    throw new LlmError(provider, signal.aborted ? "timed out" : err?.message ?? String(err));
+  }
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "");
+    throw new LlmError(provider, `HTTP ${res.status}: ${txt}`);
+  }
+  return res;
+}
+
+/**
+ * Read a server-sent event body and hand each event's data (joined data: lines) to onData.
+ * keepAlive is called on every chunk so idle timers only fire on a real stall. If reading stops early
+ * (onData throws), the body is cancelled so the upstream request doesn't keep streaming unread.
+ */
+export async function readSse(body: ReadableStream<Uint8Array>, onData: (data: string) => void, keepAlive: () => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  const handle = (block: string) => {
+    const data = block
+      .split("\n")
+      .filter((l) => l.startsWith("data:"))
+      .map((l) => l.slice(5).trim())
+      .join("");
+    if (data) onData(data);
+  };
+
+  let finished = false;
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      keepAlive();
+      buf += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let sep: number;
+      while ((sep = buf.indexOf("\n\n")) >= 0) {
+        const block = buf.slice(0, sep);
+        buf = buf.slice(sep + 2);
+        handle(block);
+      }
+    }
+    finished = true;
+  } finally {
+    // Dropping out mid-stream: close the connection so the model stops generating
+    if (!finished) await reader.cancel().catch(() => {});
+  }
+  if (buf.trim()) handle(buf);
+}
@@ -0,0 +1,46 @@
+import { openAIProvider } from "./openai";
+import { openAICompatibleProvider } from "./openaiCompatible";
+import { loadScript, scriptedProvider } from "./scripted";
+import type { LlmProvider } from "./types";
+
+export type { LlmMessage, LlmProvider, LlmRequest } from "./types";
+export { LlmError } from "./types";
+
+/**
+ * LLM_PROVIDER picks the model backend:
+ *   openai            OPENAI_API_KEY, OPENAI_MODEL (default gpt-5-mini), OPENAI_BASE_URL (optional)
+ *   openai-compatible LLM_BASE_URL (e.g. http://localhost:8000/v1), LLM_MODEL, LLM_API_KEY (optional)
+ *   scripted|offline  LLM_SCRIPT_FILE (optional rules), LLM_SCRIPT_DELAY_MS (optional, per streamed chunk)
+ * Unset → openai when OPENAI_API_KEY is present, else offline.
+ */
+export function providerFromEnv(env: Record<string, string | undefined> = process.env): LlmProvider {
+  const kind = (env.LLM_PROVIDER ?? "").trim().toLowerCase() || (env.OPENAI_API_KEY ? "openai" : "offline");
+
+  if (kind === "openai") {
+    if (!env.OPENAI_API_KEY) throw new Error("Missing env var: OPENAI_API_KEY");
+    return openAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL ?? "gpt-5-mini", baseUrl: env.OPENAI_BASE_URL });
+  }
+
+  if (kind === "openai-compatible") {
+    if (!env.LLM_BASE_URL) throw new Error("Missing env var: LLM_BASE_URL");
+    if (!env.LLM_MODEL) throw new Error("Missing env var: LLM_MODEL");
+    return openAICompatibleProvider({ baseUrl: env.LLM_BASE_URL, model: env.LLM_MODEL, apiKey: env.LLM_API_KEY });
+  }
+
+  if (kind === "scripted" || kind === "offline") {
+    return scriptedProvider({
+      rules: env.LLM_SCRIPT_FILE ? loadScript(env.LLM_SCRIPT_FILE) : [],
+      delayMs: Number(env.LLM_SCRIPT_DELAY_MS ?? 0) || 0,
+    });
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER "${kind}" (use openai, openai-compatible, scripted or offline)`);
+}
+
+let cached: LlmProvider | null = null;
+
+/** Built once per server process from the environment. */
+export function getProvider() {
+  if (!cached) cached = providerFromEnv();
+  return cached;
+}
@@ -0,0 +1,93 @@
+import { COMPLETE_TIMEOUT_MS, FIRST_TOKEN_TIMEOUT_MS, IDLE_TIMEOUT_MS, postJson, readSse, stallTimer } from "./http";
+import { LlmError, type LlmMessage, type LlmProvider, type LlmRequest } from "./types";
+
+/** OpenAI Responses API (https://api.openai.com/v1/responses). */
+
+function toInput(messages: LlmMessage[]) {
+  return messages.map((m) => ({
+    role: m.role,
+    content: [{ type: m.role === "assistant" ? "output_text" : "input_text", text: m.content }],
+  }));
+}
+
+function safeExtractOutputText(json: any): string {
+  let text = "";
+  const out = json?.output;
+  if (Array.isArray(out)) {
+    for (const item of out) {
+      const content = item?.content;
+      if (Array.isArray(content)) {
+        for (const c of content) {
+          if (c?.type === "output_text" && typeof c?.text === "string") text += c.text;
+        }
+      }
+    }
+  }
+  if (!text && typeof json?.output_text === "string") text = json.output_text;
+  if (!text && typeof json?.text === "string") text = json.text;
+  return (text || "").trim();
+}
+
+export function openAIProvider(opts: { apiKey: string; model: string; baseUrl?: string }): LlmProvider {
+  const name = "openai";
+  const url = `${(opts.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "")}/responses`;
+  const headers = { Authorization: `Bearer ${opts.apiKey}` };
+  const body = (req: LlmRequest, stream: boolean) => ({
+    model: opts.model,
+    max_output_tokens: req.maxOutputTokens,
+    stream,
+    input: toInput(req.messages),
+  });
+
+  return {
+    name,
+    model: opts.model,
+
+    async complete(req) {
+      const t = stallTimer(COMPLETE_TIMEOUT_MS, COMPLETE_TIMEOUT_MS);
+      try {
+        const res = await postJson(name, url, headers, body(req, false), t.signal);
+        return safeExtractOutputText(await res.json());
+      } finally {
+        t.clear();
+      }
+    },
+
+    async stream(req, onDelta) {
+      const t = stallTimer(FIRST_TOKEN_TIMEOUT_MS, IDLE_TIMEOUT_MS);
+      let text = "";
+      let completed = false;
+      try {
+        const res = await postJson(name, url, headers, body(req, true), t.signal);
+        if (!res.body) throw new LlmError(name, "response has no body");
+
+        await readSse(
+          res.body,
+          (data) => {
+            if (data === "[DONE]") return;
+            const event = JSON.parse(data);
+            if (event?.type === "response.output_text.delta" && typeof event.delta === "string") {
+              text += event.delta;
+              onDelta(event.delta);
+            } else if (event?.type === "response.completed") {
+              completed = true;
+            } else if (event?.type === "response.failed" || event?.type === "response.incomplete" || event?.type === "error") {
+              const reason =
+                event?.response?.error?.message ?? event?.response?.incomplete_details?.reason ?? event?.message ?? event.type;
+              throw new LlmError(name, `stream ${event.type}: ${reason}`);
+            }
+          },
+          t.keepAlive
+        );
+      } catch (err: any) {
+        if (err instanceof LlmError) throw err;
+        throw new LlmError(name, t.signal.aborted ? "stream stalled" : err?.message ?? String(err));
+      } finally {
+        t.clear();
+      }
+
+      if (!completed) throw new LlmError(name, "stream ended before response.completed");
+      return text.trim();
+    },
+  };
+}
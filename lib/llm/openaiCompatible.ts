@@ -0,0 +1,74 @@
+import { COMPLETE_TIMEOUT_MS, FIRST_TOKEN_TIMEOUT_MS, IDLE_TIMEOUT_MS, postJson, readSse, stallTimer } from "./http";
+import { LlmError, type LlmProvider, type LlmRequest } from "./types";
+
+/**
+ * Any server speaking the Chat Completions API at `${baseUrl}/chat/completions`
+ * (self-hosted model servers such as vLLM, llama.cpp server or Ollama). The API key is optional.
+ */
+export function openAICompatibleProvider(opts: { baseUrl: string; model: string; apiKey?: string }): LlmProvider {
+  const name = "openai-compatible";
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {};
+  const body = (req: LlmRequest, stream: boolean) => ({
+    model: opts.model,
+    max_tokens: req.maxOutputTokens,
+    stream,
+    messages: req.messages,
+  });
+
+  return {
+    name,
+    model: opts.model,
+
+    async complete(req) {
+      const t = stallTimer(COMPLETE_TIMEOUT_MS, COMPLETE_TIMEOUT_MS);
+      try {
+        const res = await postJson(name, url, headers, body(req, false), t.signal);
+        const json = await res.json();
+        return String(json?.choices?.[0]?.message?.content ?? "").trim();
+      } finally {
+        t.clear();
+      }
+    },
+
+    async stream(req, onDelta) {
+      const t = stallTimer(FIRST_TOKEN_TIMEOUT_MS, IDLE_TIMEOUT_MS);
+      let text = "";
+      let finished = false;
+      try {
+        const res = await postJson(name, url, headers, body(req, true), t.signal);
+        if (!res.body) throw new LlmError(name, "response has no body");
+
+        await readSse(
+          res.body,
+          (data) => {
+            if (data === "[DONE]") {
+              finished = true;
+              return;
+            }
+            const chunk = JSON.parse(data);
+            if (chunk?.error) throw new LlmError(name, chunk.error?.message ?? String(chunk.error));
+            const choice = chunk?.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (typeof delta === "string" && delta) {
+              text += delta;
+              onDelta(delta);
+            }
+            // Same rule as the Responses API provider: a reply cut off at the token limit counts as failed
+            if (choice?.finish_reason === "length") throw new LlmError(name, "stream incomplete: max_tokens reached");
+            if (choice?.finish_reason) finished = true;
+          },
+          t.keepAlive
+        );
+      } catch (err: any) {
+        if (err instanceof LlmError) throw err;
+        throw new LlmError(name, t.signal.aborted ? "stream stalled" : err?.message ?? String(err));
+      } finally {
+        t.clear();
+      }
+
+      if (!finished) throw new LlmError(name, "stream ended without a finish_reason");
+      return text.trim();
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { readFileSync } from "fs";
+import { LlmError, type LlmProvider, type LlmRequest } from "./types";
+
+/**
+ * Offline provider: canned replies matched against the question, no network.
+ * With no matching rule it throws, so the chat route answers with its data-backed fallback —
+ * which is what coaches want at a gym without connectivity. Rules also let us script
+ * a broken stream (failAfterChars) to exercise the fallback path end to end.
+ *
+ * LLM_SCRIPT_FILE: JSON array of { "match": "<regex, case-insensitive>", "answer": "...", "failAfterChars"?: n }
+ */
+
+export type ScriptRule = { match: string; answer: string; failAfterChars?: number };
+
+// Streamed replies are cut into chunks of this many words
+const WORDS_PER_DELTA = 3;
+
+export function loadScript(path: string): ScriptRule[] {
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed)) throw new Error(`${path}: expected a JSON array of { match, answer } rules`);
+  return parsed.map((r: any, i: number) => {
+    if (typeof r?.match !== "string" || typeof r?.answer !== "string") {
+      throw new Error(`${path}: rule ${i} needs string "match" and "answer"`);
+    }
+    return { match: r.match, answer: r.answer, failAfterChars: typeof r.failAfterChars === "number" ? r.failAfterChars : undefined };
+  });
+}
+
+/** The question the coach typed: the last user message, unwrapped from the route's { question, FACTS_JSON } envelope. */
+function questionOf(req: LlmRequest) {
+  const last = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  try {
+    const obj = JSON.parse(last);
+    if (typeof obj?.question === "string") return obj.question;
+  } catch {
+    // plain text message
+  }
+  return last;
+}
+
+export function scriptedProvider(opts: { rules: ScriptRule[]; delayMs?: number }): LlmProvider {
+  const name = "scripted";
+  const delayMs = Math.max(0, opts.delayMs ?? 0);
+
+  const pick = (req: LlmRequest) => {
+    const q = questionOf(req);
+    const rule = opts.rules.find((r) => new RegExp(r.match, "i").test(q));
+    if (!rule) throw new LlmError(name, "no scripted reply for this question");
+    return rule;
+  };
+
+  return {
+    name,
+    model: "offline",
+
+    async complete(req) {
+      const rule = pick(req);
+      if (rule.failAfterChars !== undefined) throw new LlmError(name, "scripted failure");
+      return rule.answer.trim();
+    },
+
+    async stream(req, onDelta) {
+      const rule = pick(req);
+      const words = rule.answer.split(/(?<=\s)/);
+      let sent = "";
+      for (let i = 0; i < words.length; i += WORDS_PER_DELTA) {
+        const delta = words.slice(i, i + WORDS_PER_DELTA).join("");
+        if (rule.failAfterChars !== undefined && sent.length + delta.length > rule.failAfterChars) {
+          throw new LlmError(name, `scripted stream failure after ${sent.length} chars`);
+        }
+        if (delayMs) await new Promise((r) => setTimeout(r, delayMs));
+        sent += delta;
+        onDelta(delta);
+      }
+      return sent.trim();
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Provider-neutral chat model interface. The chat route builds messages once;
+ * each provider maps them to its own wire format.
+ */
+
+export type LlmRole = "system" | "user" | "assistant";
+
+export type LlmMessage = { role: LlmRole; content: string };
+
+export type LlmRequest = {
+  messages: LlmMessage[];
+  maxOutputTokens: number;
+};
+
+export interface LlmProvider {
+  name: string; // stored as the answer's source ("openai", "openai-compatible", "scripted")
+  model: string;
+  /** Whole answer at once. Throws on transport errors and timeouts. */
+  complete(req: LlmRequest): Promise<string>;
+  /** Calls onDelta as text arrives and resolves with the full answer. Throws if the stream fails or stalls. */
+  stream(req: LlmRequest, onDelta: (text: string) => void): Promise<string>;
+}
+
+export class LlmError extends Error {
+  provider: string;
+  constructor(provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "LlmError";
+    this.provider = provider;
+  }
+}
@@ -0,0 +1,189 @@
+import { toNum, type PlayerAgg } from "./aggregates";
+
+/**
+ * Derived volleyball metrics from summed box-score totals.
+ * Raw sums rank by volume (most swings "leads" kills); these rank by efficiency, and only players
+ * with enough attempts qualify, so a 2-for-2 night doesn't top the hitting-% board.
+ */
+
+export type MetricFormat = "hitting" | "pct" | "ratio" | "rate" | "count";
+
+export type MetricDef = {
+  key: string;
+  label: string;
+  format: MetricFormat;
+  requires: string[]; // stat keys the team's data must have for this metric to mean anything
+  attemptsLabel: string; // what the threshold counts ("attack attempts", "sets")
+  attempts: (t: Record<string, number>) => number;
+  minAttempts: number;
+  compute: (t: Record<string, number>) => number | null;
+  lowerIsBetter?: boolean;
+};
+
+export type MetricValue = {
+  key: string;
+  value: number | null;
+  attempts: number;
+  qualified: boolean; // attempts >= minAttempts
+};
+
+export type MetricLeader = { player: string; value: number; attempts: number };
+
+const t0 = (t: Record<string, number>, key: string) => toNum(t[key]);
+
+// Team blocks: solo + half of each assist (the usual box-score convention)
+const blockPoints = (t: Record<string, number>) => t0(t, "blocks_solo") + 0.5 * t0(t, "blocks_assist");
+
+const perSet = (value: (t: Record<string, number>) => number) => (t: Record<string, number>) =>
+  t0(t, "sets_played") > 0 ? value(t) / t0(t, "sets_played") : null;
+
+export const METRICS: MetricDef[] = [
+  {
+    key: "hitting_pct",
+    label: "Hitting %",
+    format: "hitting",
+    requires: ["attack_kills", "attack_errors", "attack_attempts"],
+    attemptsLabel: "attack attempts",
+    attempts: (t) => t0(t, "attack_attempts"),
+    minAttempts: 20,
+    compute: (t) => (t0(t, "attack_attempts") > 0 ? (t0(t, "attack_kills") - t0(t, "attack_errors")) / t0(t, "attack_attempts") : null),
+  },
+  {
+    key: "kill_pct",
+    label: "Kill %",
+    format: "pct",
+    requires: ["attack_kills", "attack_attempts"],
+    attemptsLabel: "attack attempts",
+    attempts: (t) => t0(t, "attack_attempts"),
+    minAttempts: 20,
+    compute: (t) => (t0(t, "attack_attempts") > 0 ? t0(t, "attack_kills") / t0(t, "attack_attempts") : null),
+  },
+  {
+    key: "ace_error_ratio",
+    label: "Ace : error",
+    format: "ratio",
+    requires: ["serve_aces", "serve_errors"],
+    attemptsLabel: "aces + serve errors",
+    attempts: (t) => t0(t, "serve_aces") + t0(t, "serve_errors"),
+    minAttempts: 8,
+    // No errors yet: the ratio is the ace count (an ace per "1 error"), so it still sorts sensibly
+    compute: (t) => (t0(t, "serve_aces") + t0(t, "serve_errors") > 0 ? t0(t, "serve_aces") / Math.max(1, t0(t, "serve_errors")) : null),
+  },
+  {
+    key: "serve_in_pct",
+    label: "Serve in %",
+    format: "pct",
+    requires: ["serve_errors", "serve_attempts"],
+    attemptsLabel: "serve attempts",
+    attempts: (t) => t0(t, "serve_attempts"),
+    minAttempts: 20,
+    compute: (t) => (t0(t, "serve_attempts") > 0 ? (t0(t, "serve_attempts") - t0(t, "serve_errors")) / t0(t, "serve_attempts") : null),
+  },
+  {
+    key: "kills_per_set",
+    label: "Kills / set",
+    format: "rate",
+    requires: ["attack_kills", "sets_played"],
+    attemptsLabel: "sets",
+    attempts: (t) => t0(t, "sets_played"),
+    minAttempts: 6,
+    compute: perSet((t) => t0(t, "attack_kills")),
+  },
+  {
+    key: "digs_per_set",
+    label: "Digs / set",
+    format: "rate",
+    requires: ["digs_successful", "sets_played"],
+    attemptsLabel: "sets",
+    attempts: (t) => t0(t, "sets_played"),
+    minAttempts: 6,
+    compute: perSet((t) => t0(t, "digs_successful")),
+  },
+  {
+    key: "blocks_per_set",
+    label: "Blocks / set",
+    format: "rate",
+    requires: ["blocks_solo", "sets_played"],
+    attemptsLabel: "sets",
+    attempts: (t) => t0(t, "sets_played"),
+    minAttempts: 6,
+    compute: perSet(blockPoints),
+  },
+  {
+    key: "points_responsible",
+    label: "Points responsible",
+    format: "count",
+    requires: ["attack_kills", "serve_aces"],
+    attemptsLabel: "",
+    attempts: () => 0,
+    minAttempts: 0,
+    // Kills + aces + blocks; errors aren't subtracted (that's hitting % / ace:error's job)
+    compute: (t) => t0(t, "attack_kills") + t0(t, "serve_aces") + blockPoints(t),
+  },
+];
+
+export const METRIC_BY_KEY: Record<string, MetricDef> = Object.fromEntries(METRICS.map((m) => [m.key, m]));
+
+/** Metrics whose inputs all appear in the team's data (computeAggregates().availableStatKeys). */
+export function availableMetrics(availableStatKeys: string[]) {
+  const have = new Set(availableStatKeys);
+  return METRICS.filter((m) => m.requires.every((k) => have.has(k)));
+}
+
+/** Metrics whose primary input (first in `requires`) was asked about: "kills" also wants hitting % and kill %. */
+export function metricsForStatKeys(statKeys: string[], availableStatKeys: string[]) {
+  return availableMetrics(availableStatKeys).filter((m) => statKeys.includes(m.requires[0]));
+}
+
+export function computeMetric(def: MetricDef, totals: Record<string, number>): MetricValue {
+  const raw = def.compute(totals);
+  const attempts = def.attempts(totals);
+  const value = raw === null || !Number.isFinite(raw) ? null : Number(raw.toFixed(3));
+  return { key: def.key, value, attempts, qualified: value !== null && attempts >= def.minAttempts };
+}
+
+/** Qualified players only, best first; `unqualified` counts players with a value but too few attempts. */
+export function metricLeaders(byPlayer: Record<string, PlayerAgg>, def: MetricDef, n: number) {
+  const rows: MetricLeader[] = [];
+  let unqualified = 0;
+  for (const player of Object.keys(byPlayer)) {
+    const v = computeMetric(def, byPlayer[player].totals);
+    if (v.value === null || (def.format === "count" && v.value === 0)) continue;
+    if (!v.qualified) {
+      unqualified += 1;
+      continue;
+    }
+    rows.push({ player, value: v.value, attempts: v.attempts });
+  }
+  rows.sort((a, b) => (def.lowerIsBetter ? a.value - b.value : b.value - a.value));
+  return { leaders: rows.slice(0, n), unqualified };
+}
+
+/** Leaderboards for every available metric, with the threshold spelled out (for prompts / API facts). */
+export function metricLeaderboards(byPlayer: Record<string, PlayerAgg>, availableStatKeys: string[], n: number) {
+  const out: Record<string, { label: string; minAttempts: string | null; leaders: MetricLeader[]; unqualified: number }> = {};
+  for (const def of availableMetrics(availableStatKeys)) {
+    out[def.key] = { label: def.label, minAttempts: thresholdText(def), ...metricLeaders(byPlayer, def, n) };
+  }
+  return out;
+}
+
+export function thresholdText(def: MetricDef) {
+  return def.minAttempts > 0 ? `min ${def.minAttempts} ${def.attemptsLabel}` : null;
+}
+
+/** .312 for hitting, 45.0% for percentages, 2 decimals for ratios / per-set rates. */
+export function formatMetric(def: MetricDef, value: number | null) {
+  if (value === null) return "—";
+  switch (def.format) {
+    case "hitting":
+      return `${value < 0 ? "-" : ""}${Math.abs(value).toFixed(3).replace(/^0/, "")}`;
+    case "pct":
+      return `${(value * 100).toFixed(1)}%`;
+    case "ratio":
+    case "rate":
+      return value.toFixed(2);
+    default:
+      return String(Number(value.toFixed(1)));
+  }
+}
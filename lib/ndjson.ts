@@ -0,0 +1,44 @@
+/**
+ * Streamed responses as newline-delimited JSON: one event object per line.
+ * Used by the import route (progress events) and chat (answer deltas).
+ */
+export function ndjsonStream(run: (send: (event: Record<string, any>) => void) => Promise<void>) {
+  const encoder = new TextEncoder();
+  let cancelled = false; // the client went away; keep running (e.g. a commit) but stop writing
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, any>) => {
+        if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+      try {
+        await run(send);
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return new Response(stream, { headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" } });
+}
+
+/** Client side: calls onEvent for every complete line; returns when the body ends. */
+export async function readNdjson(body: ReadableStream<Uint8Array>, onEvent: (event: any) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let nl: number;
+    while ((nl = buf.indexOf("\n")) >= 0) {
+      const line = buf.slice(0, nl).trim();
+      buf = buf.slice(nl + 1);
+      if (line) onEvent(JSON.parse(line));
+    }
+  }
+  if (buf.trim()) onEvent(JSON.parse(buf));
+}
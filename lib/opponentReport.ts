@@ -0,0 +1,305 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  computeAggregates,
+  matchSetDiff,
+  normalizeWinLoss,
+  parseStats,
+  safeIso,
+  toNum,
+  type MatchRow,
+  type PlayerAgg,
+  type StatRow,
+} from "./aggregates";
+import { matchSetCounts, matchSets, pointTotals, type SetScore } from "./setScores";
+import { withSeasonWindow, type SeasonRow, type TeamRow } from "./teamContext";
+
+/**
+ * Scouting report for one opponent club: every meeting (all of the club's teams, matched by fuzzy name),
+ * the tournaments and rounds, our box-score lines from those matches, and common opponents through the
+ * coach's other teams for a transitive read.
+ */
+
+// Tokens that name a squad within a club, not the club: age groups, colors, "VBC"
+const SQUAD_WORDS = new Set([
+  "vbc",
+  "vb",
+  "volleyball",
+  "club",
+  "boys",
+  "girls",
+  "team",
+  "the",
+  "jrs",
+  "juniors",
+  "red",
+  "blue",
+  "black",
+  "white",
+  "gold",
+  "silver",
+  "green",
+  "orange",
+  "purple",
+  "navy",
+  "grey",
+  "gray",
+  "royal",
+  "maroon",
+  "teal",
+]);
+
+function normName(s: string) {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** "Vision VBC 16 Black" → "vision"; "Bay to Bay 17-1" → "bay to bay". */
+export function clubKey(name: string | null | undefined) {
+  const full = normName(String(name ?? ""));
+  const tokens = full.split(" ").filter((t) => t && !SQUAD_WORDS.has(t) && !/^(\d+u?|u\d+|\d+s)$/.test(t));
+  return tokens.join(" ") || full;
+}
+
+/** Same club: equal keys, or every word of the shorter key is in the longer one ("vision" / "vision elite"). */
+export function sameClub(a: string | null | undefined, b: string | null | undefined) {
+  const ka = clubKey(a);
+  const kb = clubKey(b);
+  if (!ka || !kb) return false;
+  if (ka === kb) return true;
+  const [short, long] = ka.length <= kb.length ? [ka, kb] : [kb, ka];
+  const longTokens = new Set(long.split(" "));
+  return short.split(" ").every((t) => longTokens.has(t));
+}
+
+/** Opponent names (as stored) belonging to the club the query names. */
+export function clubOpponentNames(query: string, names: string[]) {
+  return Array.from(new Set(names.map((n) => (n ?? "").trim()).filter((n) => n && sameClub(n, query)))).sort();
+}
+
+export type WinLoss = { wins: number; losses: number; setsWon: number; setsLost: number };
+
+export type H2HMatch = {
+  date: string | null;
+  opponent: string;
+  tournament: string | null;
+  round: string | null;
+  result: "W" | "L" | null;
+  score: string | null;
+  sets: SetScore[] | null;
+  setDiff: number | null;
+  pointsFor: number | null;
+  pointsAgainst: number | null;
+};
+
+export type PlayerLine = { date: string | null; opponent: string | null; player: string; position: string | null; stats: Record<string, number> };
+
+export type CommonOpponent = {
+  opponent: string; // club
+  us: WinLoss;
+  via: { team: string; vsOpponent: WinLoss; vsClub: WinLoss };
+};
+
+export type OpponentReport = {
+  query: string;
+  club: string; // display name: most frequent stored name
+  matchedNames: string[];
+  record: WinLoss & { pointsFor: number; pointsAgainst: number; matchesWithScores: number };
+  matches: H2HMatch[]; // newest first
+  tournaments: Array<{ tournament: string; rounds: string[]; wins: number; losses: number; lastDate: string | null }>;
+  playerTotals: Record<string, PlayerAgg>;
+  playerLines: PlayerLine[];
+  commonOpponents: CommonOpponent[];
+};
+
+function emptyRecord(): WinLoss {
+  return { wins: 0, losses: 0, setsWon: 0, setsLost: 0 };
+}
+
+function addMatch(rec: WinLoss, m: MatchRow) {
+  const wl = normalizeWinLoss(m.result);
+  if (wl === "W") rec.wins += 1;
+  if (wl === "L") rec.losses += 1;
+  const sets = matchSetCounts(m);
+  if (sets) {
+    rec.setsWon += sets.won;
+    rec.setsLost += sets.lost;
+  }
+}
+
+export function formatRecord(r: WinLoss) {
+  return `${r.wins}-${r.losses} (sets ${r.setsWon}-${r.setsLost})`;
+}
+
+function toNumbers(stats: any) {
+  const raw = parseStats(stats);
+  const out: Record<string, number> = {};
+  for (const k of Object.keys(raw)) {
+    const n = toNum(raw[k]);
+    if (n !== 0) out[k] = n;
+  }
+  return out;
+}
+
+/**
+ * Clubs (by key) both we and a sibling team played, where that sibling also played the scouted club.
+ * "17s beat Y and lost to X; we beat Y" is the transitive read.
+ */
+function commonOpponents(club: string, ours: MatchRow[], siblings: Array<{ team: TeamRow; matches: MatchRow[] }>) {
+  const out: CommonOpponent[] = [];
+  const ourByClub = new Map<string, { name: string; rec: WinLoss }>();
+  for (const m of ours) {
+    if (sameClub(m.opponent, club)) continue;
+    const k = clubKey(m.opponent);
+    const cur = ourByClub.get(k) ?? { name: (m.opponent ?? "").trim(), rec: emptyRecord() };
+    addMatch(cur.rec, m);
+    ourByClub.set(k, cur);
+  }
+
+  for (const sib of siblings) {
+    const vsClub = emptyRecord();
+    const vsOthers = new Map<string, WinLoss>();
+    for (const m of sib.matches) {
+      if (sameClub(m.opponent, club)) {
+        addMatch(vsClub, m);
+        continue;
+      }
+      const k = clubKey(m.opponent);
+      if (!ourByClub.has(k)) continue;
+      const rec = vsOthers.get(k) ?? emptyRecord();
+      addMatch(rec, m);
+      vsOthers.set(k, rec);
+    }
+    if (vsClub.wins + vsClub.losses === 0) continue;
+    vsOthers.forEach((rec, k) => {
+      const us = ourByClub.get(k)!;
+      out.push({ opponent: us.name, us: us.rec, via: { team: sib.team.name, vsOpponent: rec, vsClub } });
+    });
+  }
+  return out.sort((a, b) => a.opponent.localeCompare(b.opponent));
+}
+
+/**
+ * `matches` / `statsRows` are the current team's rows for the window; `siblings` are the coach's other
+ * teams' match_results over the same window (empty → no common opponents).
+ */
+export function buildOpponentReport(opts: {
+  query: string;
+  matches: MatchRow[];
+  statsRows: StatRow[];
+  siblings?: Array<{ team: TeamRow; matches: MatchRow[] }>;
+}): OpponentReport | null {
+  const h2hRows = opts.matches.filter((m) => sameClub(m.opponent, opts.query));
+  if (!h2hRows.length) return null;
+
+  const counts = new Map<string, number>();
+  for (const m of h2hRows) counts.set((m.opponent ?? "").trim(), (counts.get((m.opponent ?? "").trim()) ?? 0) + 1);
+  const club = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+  const record = { ...emptyRecord(), pointsFor: 0, pointsAgainst: 0, matchesWithScores: 0 };
+  const matches: H2HMatch[] = [];
+  const byTournament = new Map<string, { tournament: string; rounds: string[]; wins: number; losses: number; lastDate: string | null }>();
+
+  for (const m of h2hRows) {
+    addMatch(record, m);
+    const sets = matchSets(m);
+    const points = sets ? pointTotals(sets) : null;
+    if (points) {
+      record.pointsFor += points.pointsFor;
+      record.pointsAgainst += points.pointsAgainst;
+      record.matchesWithScores += 1;
+    }
+    const result = normalizeWinLoss(m.result);
+    matches.push({
+      date: m.match_date,
+      opponent: (m.opponent ?? "").trim(),
+      tournament: m.tournament,
+      round: m.round,
+      result,
+      score: m.score,
+      sets,
+      setDiff: matchSetDiff(m),
+      pointsFor: points?.pointsFor ?? null,
+      pointsAgainst: points?.pointsAgainst ?? null,
+    });
+
+    const t = (m.tournament ?? "").trim() || "Unknown Tournament";
+    const cur = byTournament.get(t) ?? { tournament: t, rounds: [], wins: 0, losses: 0, lastDate: null };
+    if (m.round && !cur.rounds.includes(m.round)) cur.rounds.push(m.round);
+    if (result === "W") cur.wins += 1;
+    if (result === "L") cur.losses += 1;
+    if (!cur.lastDate || safeIso(m.match_date) > cur.lastDate) cur.lastDate = safeIso(m.match_date) || cur.lastDate;
+    byTournament.set(t, cur);
+  }
+  matches.sort((a, b) => safeIso(b.date).localeCompare(safeIso(a.date)));
+
+  // Our box scores from those matches: same date, same club
+  const dates = new Set(h2hRows.map((m) => safeIso(m.match_date)).filter(Boolean));
+  const lineRows = opts.statsRows.filter((r) => dates.has(safeIso(r.game_date)) && sameClub(r.opponent, club));
+  const playerLines = lineRows
+    .map((r) => ({ date: r.game_date, opponent: r.opponent, player: (r.player_name ?? "").trim(), position: r.position, stats: toNumbers(r.stats) }))
+    .sort((a, b) => safeIso(b.date).localeCompare(safeIso(a.date)) || a.player.localeCompare(b.player));
+
+  return {
+    query: opts.query,
+    club,
+    matchedNames: Array.from(counts.keys()).sort(),
+    record,
+    matches,
+    tournaments: Array.from(byTournament.values()).sort((a, b) => (b.lastDate ?? "").localeCompare(a.lastDate ?? "")),
+    playerTotals: computeAggregates([], lineRows).byPlayer,
+    playerLines,
+    commonOpponents: commonOpponents(club, opts.matches, opts.siblings ?? []),
+  };
+}
+
+/** The coach's other teams' match_results, limited to the same date window as `season`. */
+export async function fetchSiblingMatches(
+  supabase: SupabaseClient,
+  opts: { teams: TeamRow[]; currentTeamId: string; season: SeasonRow | null }
+) {
+  const others = opts.teams.filter((t) => t.id !== opts.currentTeamId);
+  return Promise.all(
+    others.map(async (team) => {
+      const { data, error } = await withSeasonWindow(
+        supabase
+          .from("match_results")
+          .select("match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff,set_scores,points_for,points_against")
+          .eq("team_id", team.id),
+        "match_date",
+        opts.season
+      ).limit(5000);
+      if (error) throw error;
+      return { team: { id: team.id, name: team.name }, matches: (data ?? []) as MatchRow[] };
+    })
+  );
+}
+
+/** The current team's match_results + player_game_stats for the window (what the report reads). */
+export async function fetchTeamSeasonRows(supabase: SupabaseClient, opts: { teamId: string; season: SeasonRow | null }) {
+  const [matchesRes, statsRes] = await Promise.all([
+    withSeasonWindow(
+      supabase
+        .from("match_results")
+        .select("match_date,tournament,opponent,result,score,round,sets_won,sets_lost,set_diff,set_scores,points_for,points_against")
+        .eq("team_id", opts.teamId),
+      "match_date",
+      opts.season
+    ).limit(5000),
+    withSeasonWindow(
+      supabase
+        .from("player_game_stats")
+        .select("player_name,position,game_date,opponent,stats")
+        .eq("team_id", opts.teamId),
+      "game_date",
+      opts.season
+    ).limit(15000),
+  ]);
+  if (matchesRes.error) throw matchesRes.error;
+  if (statsRes.error) throw statsRes.error;
+  return { matches: (matchesRes.data ?? []) as MatchRow[], statsRows: (statsRes.data ?? []) as StatRow[] };
+}
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PlayerAgg } from "./aggregates";
+import type { SeasonKey } from "./teamContext";
+
+/**
+ * player_metrics (precomputed by the scoring apps / coaches) merged with what we compute
+ * from player_game_stats. Every value carries a `source` label so answers can say where a number came from.
+ */
+
+export const SOURCE_COMPUTED = "computed:player_game_stats";
+
+export type PlayerMetricRow = {
+  player_name: string;
+  metric_key: string;
+  metric_value: number | null;
+  metric_text: string | null;
+  source: string;
+};
+
+export type PrecomputedMetric = { value: number | null; text: string | null; source: string };
+
+export type MetricConflict = {
+  metric_key: string;
+  precomputed: number;
+  precomputedSource: string;
+  computed: number;
+  computedFrom: string;
+  computedSource: string;
+};
+
+export type PlayerFacts = {
+  position: string | null;
+  computed: {
+    source: string;
+    totals: Record<string, number>;
+    serveReceive: { scale: "0-3"; rating: number; attempts: number } | null;
+  } | null;
+  precomputed: Record<string, PrecomputedMetric>;
+  conflicts: MetricConflict[];
+};
+
+/**
+ * Precomputed keys that have a computed counterpart.
+ * `tolerance` is the absolute difference we still call "agreeing" (rounding in the source app).
+ */
+const COMPUTED_EQUIVALENTS: Record<string, { from: string; tolerance: number; value: (p: PlayerAgg) => number | null }> = {
+  pass_avg: {
+    from: "serve_receive_passing_rating (attempts-weighted, 0-3)",
+    tolerance: 0.05,
+    value: (p) => (p.srAttempts > 0 ? Number((p.srWeightedSum / p.srAttempts).toFixed(2)) : null),
+  },
+  pass_rating: {
+    from: "serve_receive_passing_rating (attempts-weighted, 0-3)",
+    tolerance: 0.05,
+    value: (p) => (p.srAttempts > 0 ? Number((p.srWeightedSum / p.srAttempts).toFixed(2)) : null),
+  },
+  receive_ta: {
+    from: "serve_receive_attempts (sum)",
+    tolerance: 0,
+    value: (p) => (p.srAttempts > 0 ? p.srAttempts : null),
+  },
+  kills: { from: "attack_kills (sum)", tolerance: 0, value: (p) => p.totals.attack_kills ?? null },
+  aces: { from: "serve_aces (sum)", tolerance: 0, value: (p) => p.totals.serve_aces ?? null },
+  digs: { from: "digs_successful (sum)", tolerance: 0, value: (p) => p.totals.digs_successful ?? null },
+  assists: { from: "setting_assists (sum)", tolerance: 0, value: (p) => p.totals.setting_assists ?? null },
+};
+
+function playerKey(name: string) {
+  return name.trim().toLowerCase();
+}
+
+/** season null → every season for the team (later rows win on duplicate keys). */
+export async function fetchPlayerMetrics(
+  supabase: SupabaseClient,
+  opts: { teamId: string; season: SeasonKey | null }
+): Promise<PlayerMetricRow[]> {
+  let q = supabase
+    .from("player_metrics")
+    .select("player_name,metric_key,metric_value,metric_text,source")
+    .eq("team_id", opts.teamId);
+  if (opts.season) q = q.eq("season", opts.season);
+
+  const { data, error } = await q.order("created_at", { ascending: true }).limit(20000);
+  if (error) throw error;
+  return (data ?? []) as PlayerMetricRow[];
+}
+
+/**
+ * Per-player facts: computed totals + precomputed metrics, with conflicts listed where both exist and disagree.
+ * Player names are matched case-insensitively; the computed spelling wins for display.
+ */
+export function mergePlayerFacts(byPlayer: Record<string, PlayerAgg>, metricRows: PlayerMetricRow[]) {
+  const out: Record<string, PlayerFacts> = {};
+  const displayName = new Map<string, string>();
+
+  for (const name of Object.keys(byPlayer)) {
+    const p = byPlayer[name];
+    displayName.set(playerKey(name), name);
+    out[name] = {
+      position: p.position,
+      computed: {
+        source: SOURCE_COMPUTED,
+        totals: p.totals,
+        serveReceive:
+          p.srAttempts > 0
+            ? { scale: "0-3", rating: Number((p.srWeightedSum / p.srAttempts).toFixed(2)), attempts: p.srAttempts }
+            : null,
+      },
+      precomputed: {},
+      conflicts: [],
+    };
+  }
+
+  for (const r of metricRows) {
+    const raw = String(r.player_name ?? "").trim();
+    if (!raw || !r.metric_key) continue;
+    const name = displayName.get(playerKey(raw)) ?? raw;
+    if (!displayName.has(playerKey(raw))) displayName.set(playerKey(raw), raw);
+
+    out[name] = out[name] ?? { position: null, computed: null, precomputed: {}, conflicts: [] };
+    const value = r.metric_value === null || r.metric_value === undefined ? null : Number(r.metric_value);
+    out[name].precomputed[r.metric_key] = {
+      value: Number.isFinite(value) ? value : null,
+      text: r.metric_text ?? null,
+      source: `player_metrics:${r.source || "precomputed"}`,
+    };
+  }
+
+  for (const name of Object.keys(out)) {
+    const p = byPlayer[name];
+    if (!p) continue;
+    for (const key of Object.keys(out[name].precomputed)) {
+      const eq = COMPUTED_EQUIVALENTS[key];
+      const pre = out[name].precomputed[key];
+      if (!eq || pre.value === null) continue;
+      const computed = eq.value(p);
+      if (computed === null || Math.abs(computed - pre.value) <= eq.tolerance) continue;
+      out[name].conflicts.push({
+        metric_key: key,
+        precomputed: pre.value,
+        precomputedSource: pre.source,
+        computed,
+        computedFrom: eq.from,
+        computedSource: SOURCE_COMPUTED,
+      });
+    }
+  }
+
+  return out;
+}
+
+/** Flat list of every disagreement, for prompts and fallback tables. */
+export function listMetricConflicts(players: Record<string, PlayerFacts>) {
+  const out: Array<MetricConflict & { player: string }> = [];
+  for (const name of Object.keys(players).sort()) {
+    for (const c of players[name].conflicts) out.push({ player: name, ...c });
+  }
+  return out;
+}
@@ -0,0 +1,201 @@
+import { monthKey, parseStats, safeIso, toNum, type PlayerAgg, type StatRow } from "./aggregates";
+
+/**
+ * One player's season from player_game_stats: totals, game log, recent trend, SR by month,
+ * and where they rank among teammates. Used by /players/[name] and the chat "player" intent.
+ */
+
+export const TREND_GAMES = 5;
+
+// Shown first and in this order; any other numeric keys follow alphabetically
+const PROFILE_KEYS = [
+  "attack_kills",
+  "attack_errors",
+  "attack_attempts",
+  "setting_assists",
+  "serve_aces",
+  "serve_errors",
+  "digs_successful",
+  "blocks_solo",
+  "blocks_assist",
+];
+
+// Not counting stats: ids/labels, and the SR rating (an average, reported attempts-weighted instead)
+const NON_STAT_KEYS = new Set([
+  "player_name",
+  "position",
+  "opponent",
+  "match_date",
+  "source_file",
+  "serve_receive_passing_rating",
+  "serve_receive_attempts",
+]);
+
+export type PlayerGame = {
+  date: string | null;
+  opponent: string | null;
+  stats: Record<string, number>;
+  serveReceive: { rating: number; attempts: number } | null;
+};
+
+export type PlayerTrend = {
+  key: string;
+  recentPerGame: number; // last TREND_GAMES games
+  seasonPerGame: number;
+  change: number; // recent − season, per game
+};
+
+export type PlayerRank = {
+  key: string;
+  value: number;
+  rank: number; // 1 = best on the team
+  of: number; // teammates with a value for this stat
+  lowerIsBetter: boolean;
+};
+
+export type PlayerProfile = {
+  name: string;
+  position: string | null;
+  gamesPlayed: number;
+  totals: Record<string, number>;
+  statKeys: string[]; // display order for totals / game log
+  serveReceive: { scale: "0-3"; rating: number; attempts: number } | null;
+  games: PlayerGame[]; // newest first
+  trend: { games: number; rows: PlayerTrend[] };
+  srByMonth: Array<{ month: string; rating: number; attempts: number }>;
+  ranks: PlayerRank[];
+};
+
+function round2(n: number) {
+  return Number(n.toFixed(2));
+}
+
+export function isLowerBetter(key: string) {
+  return /errors?$/.test(key);
+}
+
+/** Case/whitespace-insensitive lookup of a roster name (URL segments, chat mentions). */
+export function findPlayerName(name: string, names: string[]) {
+  const want = name.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!want) return null;
+  return names.find((n) => n.trim().replace(/\s+/g, " ").toLowerCase() === want) ?? null;
+}
+
+export function orderStatKeys(keys: Iterable<string>) {
+  const set = new Set(Array.from(keys).filter((k) => !NON_STAT_KEYS.has(k)));
+  const known = PROFILE_KEYS.filter((k) => set.has(k));
+  const rest = Array.from(set)
+    .filter((k) => !PROFILE_KEYS.includes(k))
+    .sort();
+  return [...known, ...rest];
+}
+
+function rankAmongTeammates(name: string, byPlayer: Record<string, PlayerAgg>, keys: string[]): PlayerRank[] {
+  const out: PlayerRank[] = [];
+  const players = Object.keys(byPlayer);
+
+  for (const key of keys) {
+    const lowerIsBetter = isLowerBetter(key);
+    // Only teammates with a recorded value are ranked (otherwise "fewest errors" goes to whoever never served)
+    const values = players
+      .map((p) => ({ player: p, value: toNum(byPlayer[p].totals[key]) }))
+      .filter((x) => x.value > 0);
+    const mine = values.find((x) => x.player === name);
+    if (!mine) continue;
+    const better = values.filter((x) => (lowerIsBetter ? x.value < mine.value : x.value > mine.value)).length;
+    out.push({ key, value: mine.value, rank: better + 1, of: values.length, lowerIsBetter });
+  }
+
+  const passers = players
+    .map((p) => ({ player: p, attempts: byPlayer[p].srAttempts, rating: byPlayer[p].srAttempts ? byPlayer[p].srWeightedSum / byPlayer[p].srAttempts : 0 }))
+    .filter((x) => x.attempts > 0);
+  const me = passers.find((x) => x.player === name);
+  if (me) {
+    out.push({
+      key: "serve_receive_passing_rating",
+      value: round2(me.rating),
+      rank: passers.filter((x) => x.rating > me.rating).length + 1,
+      of: passers.length,
+      lowerIsBetter: false,
+    });
+  }
+  return out;
+}
+
+/**
+ * `statsRows` are the team's rows for the window (teammates are needed for ranks);
+ * `byPlayer` is computeAggregates(...).byPlayer over the same rows.
+ */
+export function buildPlayerProfile(
+  name: string,
+  statsRows: StatRow[],
+  byPlayer: Record<string, PlayerAgg>,
+  opts: { trendGames?: number } = {}
+): PlayerProfile | null {
+  const agg = byPlayer[name];
+  if (!agg) return null;
+  const trendGames = opts.trendGames ?? TREND_GAMES;
+
+  const games: PlayerGame[] = [];
+  const srMonths: Record<string, { attempts: number; weightedSum: number }> = {};
+  const keys = new Set<string>();
+
+  for (const row of statsRows) {
+    if ((row.player_name ?? "").trim() !== name) continue;
+    const raw = parseStats(row.stats);
+
+    const stats: Record<string, number> = {};
+    for (const key of Object.keys(raw)) {
+      if (NON_STAT_KEYS.has(key)) continue;
+      const n = toNum(raw[key]);
+      if (n === 0) continue;
+      stats[key] = n;
+      keys.add(key);
+    }
+
+    const srAtt = toNum(raw.serve_receive_attempts);
+    const srRating = toNum(raw.serve_receive_passing_rating);
+    const iso = safeIso(row.game_date);
+    if (srAtt > 0 && iso) {
+      const mk = monthKey(iso);
+      srMonths[mk] = srMonths[mk] ?? { attempts: 0, weightedSum: 0 };
+      srMonths[mk].attempts += srAtt;
+      srMonths[mk].weightedSum += srRating * srAtt;
+    }
+
+    games.push({
+      date: row.game_date,
+      opponent: row.opponent,
+      stats,
+      serveReceive: srAtt > 0 ? { rating: round2(srRating), attempts: srAtt } : null,
+    });
+  }
+
+  games.sort((a, b) => safeIso(b.date).localeCompare(safeIso(a.date)));
+  const statKeys = orderStatKeys(keys);
+
+  const recent = games.slice(0, trendGames);
+  const trendRows: PlayerTrend[] = statKeys.map((key) => {
+    const seasonPerGame = games.length ? games.reduce((n, g) => n + (g.stats[key] ?? 0), 0) / games.length : 0;
+    const recentPerGame = recent.length ? recent.reduce((n, g) => n + (g.stats[key] ?? 0), 0) / recent.length : 0;
+    return { key, recentPerGame: round2(recentPerGame), seasonPerGame: round2(seasonPerGame), change: round2(recentPerGame - seasonPerGame) };
+  });
+
+  const totals: Record<string, number> = {};
+  for (const key of statKeys) totals[key] = agg.totals[key] ?? 0;
+
+  return {
+    name,
+    position: agg.position,
+    gamesPlayed: games.length,
+    totals,
+    statKeys,
+    serveReceive: agg.srAttempts > 0 ? { scale: "0-3", rating: round2(agg.srWeightedSum / agg.srAttempts), attempts: agg.srAttempts } : null,
+    games,
+    trend: { games: recent.length, rows: trendRows },
+    srByMonth: Object.keys(srMonths)
+      .sort()
+      .map((month) => ({ month, rating: round2(srMonths[month].weightedSum / srMonths[month].attempts), attempts: srMonths[month].attempts })),
+    ranks: rankAmongTeammates(name, byPlayer, statKeys),
+  };
+}
@@ -0,0 +1,276 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { safeIso } from "./aggregates";
+import { withSeasonWindow, type SeasonRow } from "./teamContext";
+
+/**
+ * Rally-by-rally play-by-play (the `rallies` table): who served, in which of our rotations, who won the
+ * point and how it ended. Box scores can't answer sideout %, point-scoring % by server, runs or
+ * rotation plus/minus; these aggregates can.
+ * Rotation is ours, numbered the way the team's stat sheet numbers it (1–6); it is never guessed.
+ */
+
+export type Side = "us" | "them";
+
+export type RallyRow = {
+  match_date: string | null;
+  opponent: string;
+  set_number: number;
+  rally_number: number;
+  serving_team: Side;
+  rotation: number | null;
+  server: string | null;
+  point_winner: Side;
+  terminal_skill: string | null;
+  terminal_player: string | null;
+  outcome: string | null;
+};
+
+export const RALLY_COLUMNS =
+  "match_date,opponent,set_number,rally_number,serving_team,rotation,server,point_winner,terminal_skill,terminal_player,outcome";
+
+/**
+ * Outcome codes and the skill they end on. `server` says which side won when the code is about the serve
+ * (an ace goes to the serving team, a serve error to the receiving team) — the import cross-checks it.
+ */
+export const RALLY_OUTCOMES: Record<string, { label: string; skill: string; server?: "won" | "lost" }> = {
+  ace: { label: "Ace", skill: "serve", server: "won" },
+  serve_error: { label: "Serve error", skill: "serve", server: "lost" },
+  reception_error: { label: "Reception error", skill: "reception", server: "won" },
+  kill: { label: "Kill", skill: "attack" },
+  attack_error: { label: "Attack error", skill: "attack" },
+  blocked: { label: "Blocked", skill: "attack" },
+  block: { label: "Block", skill: "block" },
+  dig_error: { label: "Dig error", skill: "dig" },
+  ball_handling: { label: "Ball-handling error", skill: "set" },
+  net: { label: "Net / line violation", skill: "other" },
+  rotation_fault: { label: "Rotation fault", skill: "other" },
+  other: { label: "Other", skill: "other" },
+};
+
+const OUTCOME_ALIASES: Record<string, string> = {
+  a: "ace",
+  se: "serve_error",
+  "serve err": "serve_error",
+  re: "reception_error",
+  "pass error": "reception_error",
+  "receive error": "reception_error",
+  k: "kill",
+  e: "attack_error",
+  ae: "attack_error",
+  "hitting error": "attack_error",
+  bs: "block",
+  "block solo": "block",
+  stuff: "block",
+  bhe: "ball_handling",
+  double: "ball_handling",
+  lift: "ball_handling",
+  "net violation": "net",
+  "in the net": "net",
+  "foot fault": "net",
+  overlap: "rotation_fault",
+};
+
+/** "us" / "we" / "our" / "home" → us; "them" / "opp" / "away" → them. */
+export function normalizeSide(raw: string | null | undefined): Side | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (["us", "we", "our", "ours", "home", "u"].includes(v)) return "us";
+  if (["them", "they", "opp", "opponent", "away", "t"].includes(v)) return "them";
+  return null;
+}
+
+/** Known code (or alias) → code; anything else → null. */
+export function normalizeOutcome(raw: string | null | undefined) {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (!v) return null;
+  const code = v.replace(/[\s-]+/g, "_");
+  if (RALLY_OUTCOMES[code]) return code;
+  return OUTCOME_ALIASES[v.replace(/[_-]+/g, " ").replace(/\s+/g, " ")] ?? null;
+}
+
+/* -------------------------- Aggregates -------------------------- */
+
+export type Split = { rallies: number; won: number; pct: number | null };
+
+export type RotationLine = {
+  rotation: number;
+  rallies: number;
+  won: number;
+  lost: number;
+  plusMinus: number;
+  sideout: Split; // receiving
+  pointScoring: Split; // serving
+};
+
+export type ServerLine = { server: string; serves: number; pointsWon: number; pointScoringPct: number | null; aces: number; errors: number };
+
+export type Run = { side: Side; length: number; date: string | null; opponent: string; set: number; fromRally: number };
+
+export type RallyStats = {
+  rallies: number;
+  sets: number;
+  matches: number;
+  sideout: Split; // points won when they served
+  pointScoring: Split; // points won when we served
+  rotations: RotationLine[]; // 1–6, only rotations with data
+  withoutRotation: number; // rallies with no rotation recorded
+  servers: ServerLine[]; // most serves first
+  pointsWonBy: Record<string, number>; // outcome code → count
+  pointsLostBy: Record<string, number>;
+  runs: { longestFor: Run | null; longestAgainst: Run | null; againstOf3Plus: number; forOf3Plus: number };
+};
+
+// Runs of this many straight points count as a "run"
+export const RUN_LENGTH = 3;
+
+function split(rallies: number, won: number): Split {
+  return { rallies, won, pct: rallies ? Number((won / rallies).toFixed(3)) : null };
+}
+
+function setKey(r: RallyRow) {
+  return `${safeIso(r.match_date)}|${r.opponent.trim().toLowerCase()}|${r.set_number}`;
+}
+
+export function computeRallyStats(rows: RallyRow[]): RallyStats {
+  const ordered = rows
+    .slice()
+    .sort((a, b) => setKey(a).localeCompare(setKey(b)) || a.rally_number - b.rally_number);
+
+  let receive = 0;
+  let sidedOut = 0;
+  let serve = 0;
+  let served = 0;
+  let withoutRotation = 0;
+  const rot = new Map<number, { rallies: number; won: number; recv: number; recvWon: number; serve: number; serveWon: number }>();
+  const servers = new Map<string, ServerLine>();
+  const pointsWonBy: Record<string, number> = {};
+  const pointsLostBy: Record<string, number> = {};
+  const sets = new Set<string>();
+  const matches = new Set<string>();
+
+  let longestFor: Run | null = null;
+  let longestAgainst: Run | null = null;
+  let againstOf3Plus = 0;
+  let forOf3Plus = 0;
+  let run: Run | null = null;
+  const closeRun = () => {
+    if (!run) return;
+    if (run.length >= RUN_LENGTH) run.side === "us" ? forOf3Plus++ : againstOf3Plus++;
+    if (run.side === "us" && (!longestFor || run.length > longestFor.length)) longestFor = run;
+    if (run.side === "them" && (!longestAgainst || run.length > longestAgainst.length)) longestAgainst = run;
+    run = null;
+  };
+
+  let lastSet = "";
+  for (const r of ordered) {
+    const key = setKey(r);
+    if (key !== lastSet) {
+      closeRun();
+      lastSet = key;
+    }
+    sets.add(key);
+    matches.add(`${safeIso(r.match_date)}|${r.opponent.trim().toLowerCase()}`);
+
+    const won = r.point_winner === "us";
+    if (r.serving_team === "them") {
+      receive++;
+      if (won) sidedOut++;
+    } else {
+      serve++;
+      if (won) served++;
+    }
+
+    if (r.rotation) {
+      const cur = rot.get(r.rotation) ?? { rallies: 0, won: 0, recv: 0, recvWon: 0, serve: 0, serveWon: 0 };
+      cur.rallies++;
+      if (won) cur.won++;
+      if (r.serving_team === "them") {
+        cur.recv++;
+        if (won) cur.recvWon++;
+      } else {
+        cur.serve++;
+        if (won) cur.serveWon++;
+      }
+      rot.set(r.rotation, cur);
+    } else {
+      withoutRotation++;
+    }
+
+    if (r.serving_team === "us" && r.server) {
+      const name = r.server.trim();
+      const cur = servers.get(name) ?? { server: name, serves: 0, pointsWon: 0, pointScoringPct: null, aces: 0, errors: 0 };
+      cur.serves++;
+      if (won) cur.pointsWon++;
+      if (r.outcome === "ace") cur.aces++;
+      if (r.outcome === "serve_error") cur.errors++;
+      servers.set(name, cur);
+    }
+
+    const code = r.outcome ?? "other";
+    const bucket = won ? pointsWonBy : pointsLostBy;
+    bucket[code] = (bucket[code] ?? 0) + 1;
+
+    const side: Side = won ? "us" : "them";
+    if (run && run.side === side) run.length++;
+    else {
+      closeRun();
+      run = { side, length: 1, date: r.match_date, opponent: r.opponent, set: r.set_number, fromRally: r.rally_number };
+    }
+  }
+  closeRun();
+
+  return {
+    rallies: ordered.length,
+    sets: sets.size,
+    matches: matches.size,
+    sideout: split(receive, sidedOut),
+    pointScoring: split(serve, served),
+    rotations: Array.from(rot.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([rotation, x]) => ({
+        rotation,
+        rallies: x.rallies,
+        won: x.won,
+        lost: x.rallies - x.won,
+        plusMinus: 2 * x.won - x.rallies,
+        sideout: split(x.recv, x.recvWon),
+        pointScoring: split(x.serve, x.serveWon),
+      })),
+    withoutRotation,
+    servers: Array.from(servers.values())
+      .map((s) => ({ ...s, pointScoringPct: s.serves ? Number((s.pointsWon / s.serves).toFixed(3)) : null }))
+      .sort((a, b) => b.serves - a.serves),
+    pointsWonBy,
+    pointsLostBy,
+    runs: { longestFor, longestAgainst, againstOf3Plus, forOf3Plus },
+  };
+}
+
+export function formatPct(v: number | null) {
+  return v === null ? "—" : `${(v * 100).toFixed(1)}%`;
+}
+
+export function outcomeLabel(code: string) {
+  return RALLY_OUTCOMES[code]?.label ?? code;
+}
+
+// Rows asked for per request. PostgREST may return fewer (the project's max_rows, 1000 by default and
+// possibly lower), so a short page doesn't mean the end: only an empty one does.
+const RALLY_PAGE = 1000;
+
+/** The team's rallies in the season window (empty when nothing has been imported), read page by page. */
+export async function fetchRallies(supabase: SupabaseClient, opts: { teamId: string; season: SeasonRow | null }) {
+  const out: RallyRow[] = [];
+  for (;;) {
+    const { data, error } = await withSeasonWindow(
+      supabase.from("rallies").select(RALLY_COLUMNS).eq("team_id", opts.teamId),
+      "match_date",
+      opts.season
+    )
+      .order("id", { ascending: true })
+      .range(out.length, out.length + RALLY_PAGE - 1);
+    if (error) throw error;
+    const page = (data ?? []) as RallyRow[];
+    if (!page.length) return out;
+    out.push(...page);
+  }
+}
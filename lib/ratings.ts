@@ -0,0 +1,175 @@
+import { normalizeWinLoss, safeIso, type MatchRow } from "./aggregates";
+import { sameClub } from "./opponentReport";
+import { matchSetCounts } from "./setScores";
+
+/**
+ * Elo-style strength ratings from match_results, one pass in date order.
+ * Each match is scored by set share (2-0 = 1, 2-1 = 0.67, 1-2 = 0.33, 0-2 = 0), so the expected score
+ * doubles as a per-set win probability, which gives the match win probability and likely set score.
+ * Everyone starts at 1500; an opponent seen once is still close to that, so predictions carry the count.
+ */
+
+export const BASE_RATING = 1500;
+export const K_FACTOR = 32;
+
+export type RatingPoint = {
+  date: string | null;
+  opponent: string;
+  result: "W" | "L" | null;
+  sets: { won: number; lost: number } | null;
+  before: number;
+  after: number;
+  expected: number; // expected set share going in
+};
+
+export type OpponentRating = {
+  opponent: string;
+  rating: number;
+  meetings: number;
+  wins: number;
+  losses: number;
+  lastDate: string | null;
+};
+
+export type TeamRatings = {
+  rating: number;
+  history: RatingPoint[]; // oldest first
+  opponents: OpponentRating[]; // strongest first
+  setsToWin: number; // 2 = best of 3, inferred from the scores on file
+  matchesRated: number;
+};
+
+export type SetOutcome = { score: string; probability: number }; // "2-1" from our side
+
+export type Prediction = {
+  opponent: string;
+  ourRating: number;
+  theirRating: number;
+  meetings: number; // 0 = never played; their rating is the starting 1500
+  setWinProbability: number;
+  winProbability: number;
+  outcomes: SetOutcome[]; // most likely first
+  expectedScore: string; // likeliest score for whichever side is favored
+};
+
+/** Expected score (0–1) for a team rated `a` against `b`. */
+export function expectedScore(a: number, b: number) {
+  return 1 / (1 + Math.pow(10, (b - a) / 400));
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+// Set share when the sets are known, else 1 / 0 from the result
+function actualScore(m: MatchRow) {
+  const sets = matchSetCounts(m);
+  if (sets && sets.won + sets.lost > 0) return { score: sets.won / (sets.won + sets.lost), sets };
+  const wl = normalizeWinLoss(m.result);
+  return wl ? { score: wl === "W" ? 1 : 0, sets: null } : null;
+}
+
+// Most matches are best of 3; a season of 3-x scores means best of 5
+function inferSetsToWin(matches: MatchRow[]) {
+  const counts = new Map<number, number>();
+  for (const m of matches) {
+    const sets = matchSetCounts(m);
+    if (!sets) continue;
+    const n = Math.max(sets.won, sets.lost);
+    if (n >= 2) counts.set(n, (counts.get(n) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0] ?? 2;
+}
+
+export function computeRatings(matches: MatchRow[]): TeamRatings {
+  const ordered = matches.filter((m) => (m.opponent ?? "").trim()).sort((a, b) => safeIso(a.match_date).localeCompare(safeIso(b.match_date)));
+
+  let ours = BASE_RATING;
+  const history: RatingPoint[] = [];
+  const opp = new Map<string, OpponentRating>();
+
+  for (const m of ordered) {
+    const actual = actualScore(m);
+    if (!actual) continue;
+    const name = (m.opponent ?? "").trim();
+    const key = name.toLowerCase();
+    const them = opp.get(key) ?? { opponent: name, rating: BASE_RATING, meetings: 0, wins: 0, losses: 0, lastDate: null };
+
+    const expected = expectedScore(ours, them.rating);
+    const delta = K_FACTOR * (actual.score - expected);
+    const before = ours;
+    ours += delta;
+    them.rating -= delta;
+    them.meetings += 1;
+    const wl = normalizeWinLoss(m.result);
+    if (wl === "W") them.wins += 1;
+    if (wl === "L") them.losses += 1;
+    them.lastDate = m.match_date ?? them.lastDate;
+    opp.set(key, them);
+
+    history.push({ date: m.match_date, opponent: name, result: wl, sets: actual.sets, before: round1(before), after: round1(ours), expected: Number(expected.toFixed(3)) });
+  }
+
+  return {
+    rating: round1(ours),
+    history,
+    opponents: Array.from(opp.values())
+      .map((o) => ({ ...o, rating: round1(o.rating) }))
+      .sort((a, b) => b.rating - a.rating),
+    setsToWin: inferSetsToWin(ordered),
+    matchesRated: history.length,
+  };
+}
+
+/** Exact name first (case-insensitive), else the same club's squad we've met most. */
+export function findOpponentRating(ratings: TeamRatings, name: string) {
+  const wanted = name.trim().toLowerCase();
+  const exact = ratings.opponents.find((o) => o.opponent.toLowerCase() === wanted);
+  if (exact) return exact;
+  return ratings.opponents.filter((o) => sameClub(o.opponent, name)).sort((a, b) => b.meetings - a.meetings)[0] ?? null;
+}
+
+function choose(n: number, k: number) {
+  let out = 1;
+  for (let i = 1; i <= k; i++) out = (out * (n - k + i)) / i;
+  return out;
+}
+
+/** Every final set score for a first-to-`setsToWin` match, each set won with probability `p`. */
+export function setOutcomes(p: number, setsToWin: number): SetOutcome[] {
+  const out: SetOutcome[] = [];
+  for (let lost = 0; lost < setsToWin; lost++) {
+    // We win the last set and `lost` of the ones before it (and the mirror for them)
+    out.push({ score: `${setsToWin}-${lost}`, probability: choose(setsToWin - 1 + lost, lost) * Math.pow(p, setsToWin) * Math.pow(1 - p, lost) });
+    out.push({ score: `${lost}-${setsToWin}`, probability: choose(setsToWin - 1 + lost, lost) * Math.pow(1 - p, setsToWin) * Math.pow(p, lost) });
+  }
+  return out.map((x) => ({ ...x, probability: Number(x.probability.toFixed(3)) })).sort((a, b) => b.probability - a.probability);
+}
+
+/** Win probability and likely set score vs `opponent` (unrated opponents count as 1500). */
+export function predictMatch(ratings: TeamRatings, opponent: string): Prediction {
+  const them = findOpponentRating(ratings, opponent);
+  const theirRating = them?.rating ?? BASE_RATING;
+  const p = expectedScore(ratings.rating, theirRating);
+  const outcomes = setOutcomes(p, ratings.setsToWin);
+  const weWin = (o: SetOutcome) => Number(o.score.split("-")[0]) === ratings.setsToWin;
+  const win = outcomes.filter(weWin).reduce((s, o) => s + o.probability, 0);
+  // Likeliest score on the favored side, so a 54% match doesn't read "likely 0-2"
+  const likely = outcomes.find((o) => weWin(o) === win >= 0.5);
+  return {
+    opponent: them?.opponent ?? opponent.trim(),
+    ourRating: ratings.rating,
+    theirRating,
+    meetings: them?.meetings ?? 0,
+    setWinProbability: Number(p.toFixed(3)),
+    winProbability: Number(win.toFixed(3)),
+    outcomes,
+    expectedScore: likely?.score ?? "—",
+  };
+}
+
+/** "~62% vs Vision 16 Black (likely 2-1), based on 4 meetings" */
+export function describePrediction(p: Prediction) {
+  const basis = p.meetings ? `based on ${p.meetings} meeting${p.meetings === 1 ? "" : "s"}` : "no meetings yet, so their rating is the 1500 default";
+  return `~${Math.round(p.winProbability * 100)}% vs ${p.opponent} (likely ${p.expectedScore}), ${basis}`;
+}
@@ -0,0 +1,298 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { computeAggregates, normalizeWinLoss, safeIso, type MatchRow, type StatRow } from "./aggregates";
+import { buildLeaderboard, sortLeaderboard } from "./leaderboard";
+import { formatMetric } from "./metrics";
+import { buildOpponentReport, fetchSiblingMatches, fetchTeamSeasonRows, formatRecord, sameClub } from "./opponentReport";
+import { computeRatings, describePrediction, predictMatch } from "./ratings";
+import { formatSets, matchSetCounts, matchSets } from "./setScores";
+import { seasonLabel, type TeamContext, type TeamRow } from "./teamContext";
+import { statLabel } from "./intents";
+
+/**
+ * Printable / downloadable reports: season summary, one tournament's recap and an opponent scouting
+ * sheet. Each is a few headline numbers plus plain tables, built from the same aggregates as /results
+ * and chat, so /reports can print them and /api/reports can hand any table out as CSV.
+ */
+
+export type ReportKind = "season" | "tournament" | "scouting";
+
+export const REPORT_KINDS: Array<{ kind: ReportKind; label: string }> = [
+  { kind: "season", label: "Season summary" },
+  { kind: "tournament", label: "Tournament recap" },
+  { kind: "scouting", label: "Scouting sheet" },
+];
+
+export type ReportCell = string | number | null;
+
+export type ReportTable = { key: string; title: string; columns: string[]; rows: ReportCell[][]; note?: string };
+
+export type Report = {
+  kind: ReportKind;
+  title: string;
+  subtitle: string;
+  summary: Array<{ label: string; value: string }>;
+  notes: string[];
+  tables: ReportTable[];
+};
+
+const UNKNOWN_TOURNAMENT = "Unknown Tournament";
+
+export function tournamentName(m: { tournament: string | null }) {
+  return (m.tournament ?? "").trim() || UNKNOWN_TOURNAMENT;
+}
+
+/** Tournaments in the window, most recent first (the /reports picker). */
+export function tournamentNames(matches: MatchRow[]) {
+  const last = new Map<string, string>();
+  for (const m of matches) {
+    const t = tournamentName(m);
+    const d = safeIso(m.match_date);
+    if (!last.has(t) || d > last.get(t)!) last.set(t, d);
+  }
+  return Array.from(last.keys()).sort((a, b) => last.get(b)!.localeCompare(last.get(a)!) || a.localeCompare(b));
+}
+
+function pct(n: number, of: number) {
+  return of ? `${((n / of) * 100).toFixed(1)}%` : "—";
+}
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/* -------------------------- Shared pieces -------------------------- */
+
+// Record, sets, points, deciding / deuce sets and SR — the /results cards
+function summaryLines(matches: MatchRow[], statsRows: StatRow[]) {
+  const agg = computeAggregates(matches, statsRows);
+  let setsWon = 0;
+  let setsLost = 0;
+  for (const m of matches) {
+    const sets = matchSetCounts(m);
+    if (sets) {
+      setsWon += sets.won;
+      setsLost += sets.lost;
+    }
+  }
+  const rec = agg.setRecord;
+  const out = [
+    { label: "Record", value: `${agg.wins}-${agg.losses} (${pct(agg.wins, agg.wins + agg.losses)})` },
+    { label: "Sets", value: `${setsWon}-${setsLost} (${pct(setsWon, setsWon + setsLost)})` },
+  ];
+  if (rec.matchesWithScores) {
+    out.push(
+      { label: "Points", value: `${rec.pointsFor}-${rec.pointsAgainst} (${signed(rec.pointDiff)})` },
+      { label: "Deciding sets", value: `${rec.decidingSets.won}-${rec.decidingSets.lost}` },
+      { label: "Deuce sets", value: `${rec.deuceSets.won}-${rec.deuceSets.lost}` }
+    );
+  }
+  if (agg.teamServeReceive) out.push({ label: "Team SR", value: `${agg.teamServeReceive.rating.toFixed(2)} on ${agg.teamServeReceive.attempts}` });
+  return { agg, summary: out };
+}
+
+function matchTable(matches: MatchRow[]): ReportTable {
+  const rows = matches
+    .slice()
+    .sort((a, b) => safeIso(a.match_date).localeCompare(safeIso(b.match_date)))
+    .map((m) => {
+      const sets = matchSets(m);
+      const counts = matchSetCounts(m);
+      return [
+        m.match_date,
+        tournamentName(m),
+        m.round,
+        m.opponent,
+        normalizeWinLoss(m.result),
+        counts ? `${counts.won}-${counts.lost}` : null,
+        sets ? formatSets(sets) : m.score,
+      ];
+    });
+  return { key: "matches", title: "Matches", columns: ["Date", "Tournament", "Round", "Opponent", "Result", "Sets", "Score"], rows };
+}
+
+// Every player × every stat, season totals, same numbers as /players
+function playerTable(statsRows: StatRow[], title = "Player totals"): ReportTable {
+  const agg = computeAggregates([], statsRows);
+  const board = buildLeaderboard(agg.byPlayer, statsRows, agg.availableStatKeys, { minAttempts: 0 });
+  const rows = sortLeaderboard(board.rows, "player", "asc").map((r) => [
+    r.player,
+    r.position,
+    r.games,
+    ...board.columns.map((c) => {
+      const v = r.cells[c.key]?.value ?? null;
+      if (v === null) return null;
+      return c.metric ? formatMetric(c.metric, v) : c.kind === "sr" ? Number(v.toFixed(2)) : v;
+    }),
+  ]);
+  return {
+    key: "players",
+    title,
+    columns: ["Player", "Pos", "GP", ...board.columns.map((c) => c.metric?.label ?? (c.kind === "sr" ? "SR" : statLabel(c.key)))],
+    rows,
+    note: board.rows.length ? "Rates are shown for everyone; chat and /players only rank players past each rate's minimum attempts." : undefined,
+  };
+}
+
+/* -------------------------- Reports -------------------------- */
+
+type Window = { teamName: string; windowLabel: string; matches: MatchRow[]; statsRows: StatRow[] };
+
+export function seasonReport(w: Window): Report {
+  const { agg, summary } = summaryLines(w.matches, w.statsRows);
+
+  const byTournament = new Map<string, { w: number; l: number; sw: number; sl: number; first: string }>();
+  for (const m of w.matches) {
+    const t = tournamentName(m);
+    const cur = byTournament.get(t) ?? { w: 0, l: 0, sw: 0, sl: 0, first: "" };
+    const wl = normalizeWinLoss(m.result);
+    if (wl === "W") cur.w++;
+    if (wl === "L") cur.l++;
+    const sets = matchSetCounts(m);
+    if (sets) {
+      cur.sw += sets.won;
+      cur.sl += sets.lost;
+    }
+    const d = safeIso(m.match_date);
+    if (d && (!cur.first || d < cur.first)) cur.first = d;
+    byTournament.set(t, cur);
+  }
+
+  return {
+    kind: "season",
+    title: `${w.teamName} — season summary`,
+    subtitle: w.windowLabel,
+    summary,
+    notes: [],
+    tables: [
+      {
+        key: "tournaments",
+        title: "Tournaments",
+        columns: ["Tournament", "First date", "W", "L", "Sets won", "Sets lost"],
+        rows: Array.from(byTournament.entries())
+          .sort((a, b) => a[1].first.localeCompare(b[1].first))
+          .map(([t, x]) => [t, x.first || null, x.w, x.l, x.sw, x.sl]),
+      },
+      matchTable(w.matches),
+      playerTable(w.statsRows),
+      {
+        key: "opponents",
+        title: "Opponents",
+        columns: ["Opponent", "Matches", "W", "L", "Set diff", "Point diff", "Last played"],
+        rows: agg.opponentSummary
+          .slice()
+          .sort((a, b) => a.opponent.localeCompare(b.opponent))
+          .map((o) => [o.opponent, o.matches, o.wins, o.losses, o.setDiff, o.pointDiff, o.lastDate]),
+      },
+    ],
+  };
+}
+
+/** One tournament: its matches, and our box scores from those days against those opponents. */
+export function tournamentReport(w: Window, tournament: string): Report | null {
+  const matches = w.matches.filter((m) => tournamentName(m) === tournament.trim());
+  if (!matches.length) return null;
+  const statsRows = w.statsRows.filter((r) =>
+    matches.some((m) => m.match_date === r.game_date && (!r.opponent || !m.opponent || sameClub(r.opponent, m.opponent)))
+  );
+  const { summary } = summaryLines(matches, statsRows);
+  const dates = matches.map((m) => safeIso(m.match_date)).filter(Boolean).sort();
+
+  return {
+    kind: "tournament",
+    title: `${w.teamName} — ${tournament.trim()}`,
+    subtitle: `${dates.length ? (dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`) : "No dates"} • ${w.windowLabel}`,
+    summary,
+    notes: [],
+    tables: [matchTable(matches), playerTable(statsRows, "Player totals for the tournament")],
+  };
+}
+
+/** Scouting sheet for one club (all its squads) plus the rating-based prediction for the next meeting. */
+export function scoutingReport(w: Window & { siblings: Array<{ team: TeamRow; matches: MatchRow[] }> }, opponent: string): Report | null {
+  const report = buildOpponentReport({ query: opponent, matches: w.matches, statsRows: w.statsRows, siblings: w.siblings });
+  if (!report) return null;
+  const prediction = predictMatch(computeRatings(w.matches), report.club);
+  const rec = report.record;
+
+  const lineRows: StatRow[] = report.playerLines.map((l) => ({
+    player_name: l.player,
+    position: l.position,
+    game_date: l.date,
+    opponent: l.opponent,
+    stats: l.stats,
+  }));
+
+  return {
+    kind: "scouting",
+    title: `Scouting: ${report.club}`,
+    subtitle: `${w.teamName} • ${w.windowLabel}${report.matchedNames.length > 1 ? ` • includes ${report.matchedNames.join(", ")}` : ""}`,
+    summary: [
+      { label: "Head to head", value: formatRecord(rec) },
+      ...(rec.matchesWithScores ? [{ label: "Points", value: `${rec.pointsFor}-${rec.pointsAgainst} (${signed(rec.pointsFor - rec.pointsAgainst)})` }] : []),
+      { label: "Next meeting", value: describePrediction(prediction) },
+    ],
+    notes: report.commonOpponents.length ? ["Common opponents are indirect evidence: another of our teams' results against a shared opponent and against this club."] : [],
+    tables: [
+      {
+        key: "meetings",
+        title: "Every meeting",
+        columns: ["Date", "Opponent", "Tournament", "Round", "Result", "Score", "Points"],
+        rows: report.matches.map((m) => [
+          m.date,
+          m.opponent,
+          m.tournament,
+          m.round,
+          m.result,
+          m.sets ? formatSets(m.sets) : m.score,
+          m.pointsFor !== null ? `${m.pointsFor}-${m.pointsAgainst}` : null,
+        ]),
+      },
+      {
+        key: "tournaments",
+        title: "Where we met",
+        columns: ["Tournament", "Rounds", "W", "L", "Last date"],
+        rows: report.tournaments.map((t) => [t.tournament, t.rounds.join(", ") || null, t.wins, t.losses, t.lastDate]),
+      },
+      playerTable(lineRows, "Our players in those matches"),
+      {
+        key: "common",
+        title: "Common opponents",
+        columns: ["Opponent", "Our record", "Via", "Their record vs opponent", "Their record vs club"],
+        rows: report.commonOpponents.map((c) => [c.opponent, formatRecord(c.us), c.via.team, formatRecord(c.via.vsOpponent), formatRecord(c.via.vsClub)]),
+      },
+    ],
+  };
+}
+
+/* -------------------------- Loading -------------------------- */
+
+/** Fetch the window's rows and build the report; null when the tournament / opponent has no matches. */
+export async function loadReport(
+  supabase: SupabaseClient,
+  opts: { ctx: TeamContext; teams: TeamRow[]; kind: ReportKind; tournament?: string | null; opponent?: string | null }
+): Promise<{ report: Report | null; matches: MatchRow[] }> {
+  const tournament = (opts.tournament ?? "").trim();
+  const opponent = (opts.opponent ?? "").trim();
+
+  const [{ matches, statsRows }, siblings] = await Promise.all([
+    fetchTeamSeasonRows(supabase, { teamId: opts.ctx.team.id, season: opts.ctx.season }),
+    opts.kind === "scouting" ? fetchSiblingMatches(supabase, { teams: opts.teams, currentTeamId: opts.ctx.team.id, season: opts.ctx.season }) : Promise.resolve([]),
+  ]);
+  const w = { teamName: opts.ctx.team.name, windowLabel: seasonLabel(opts.ctx.season), matches, statsRows };
+
+  const report =
+    opts.kind === "season"
+      ? seasonReport(w)
+      : opts.kind === "tournament"
+        ? tournament
+          ? tournamentReport(w, tournament)
+          : null
+        : opponent
+          ? scoutingReport({ ...w, siblings }, opponent)
+          : null;
+  return { report, matches };
+}
+
+export function isReportKind(v: any): v is ReportKind {
+  return REPORT_KINDS.some((k) => k.kind === v);
+}
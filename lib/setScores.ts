@@ -0,0 +1,154 @@
+/**
+ * Set scores parsed out of match_results.score ("25-21, 22-25, 15-11").
+ * Scores are stored our-points-first; the importer flips winner-first strings when the result says so.
+ * Sets are to 25, except the last set of the format (third of a best-of-3, fifth of a best-of-5), which is to 15.
+ */
+
+export type SetScore = { us: number; them: number };
+
+export type ScoreParse =
+  | { ok: true; sets: SetScore[] | null; setsWon: number; setsLost: number; flipped: boolean }
+  | { ok: false; reason: string };
+
+export type SetRecord = {
+  matchesWithScores: number;
+  setsPlayed: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDiff: number;
+  decidingSets: { won: number; lost: number };
+  deuceSets: { won: number; lost: number };
+};
+
+const SET_PAIR = /(\d{1,2})\s*[-–—:]\s*(\d{1,2})/g;
+
+function countSets(sets: SetScore[]) {
+  return { won: sets.filter((x) => x.us > x.them).length, lost: sets.filter((x) => x.them > x.us).length };
+}
+
+/**
+ * Accepts "25-21, 22-25, 15-11", "25-21 22-25 15-11", "25:21 / 22:25", "W 2-1 (25-21, 22-25, 15-11)"
+ * and bare set counts ("2-1"). Returns null for an empty score.
+ * `result` (W/L) is only used to detect winner-first strings ("25-21, 25-22" on a loss).
+ */
+export function parseScore(raw: string | null | undefined, result?: "W" | "L" | null): ScoreParse | null {
+  let v = String(raw ?? "").trim();
+  if (!v) return null;
+
+  v = v.replace(/^(won|lost|win|loss|w|l)\b[\s:,-]*/i, "");
+  const inner = v.match(/\(([^)]*)\)/);
+  if (inner && inner[1].match(SET_PAIR)) v = inner[1];
+
+  const pairs = Array.from(v.matchAll(SET_PAIR)).map((m) => ({ us: Number(m[1]), them: Number(m[2]) }));
+  const leftover = v.replace(SET_PAIR, "").replace(/\band\b/gi, "");
+  if (!pairs.length || !/^[\s,;/|&]*$/.test(leftover)) return { ok: false, reason: `unrecognized score format "${raw}"` };
+
+  // "2-1" on its own is a set count, not a set score
+  if (pairs.length === 1 && pairs[0].us <= 5 && pairs[0].them <= 5) {
+    return { ok: true, sets: null, setsWon: pairs[0].us, setsLost: pairs[0].them, flipped: false };
+  }
+
+  const tied = pairs.find((x) => x.us === x.them);
+  if (tied) return { ok: false, reason: `set ${tied.us}-${tied.them} has no winner` };
+
+  let sets = pairs;
+  let flipped = false;
+  const c = countSets(sets);
+  const contradicts = (result === "W" && c.won < c.lost) || (result === "L" && c.won > c.lost);
+  if (contradicts && sets.every((x) => x.us > x.them)) {
+    sets = sets.map((x) => ({ us: x.them, them: x.us }));
+    flipped = true;
+  }
+
+  const counts = countSets(sets);
+  return { ok: true, sets, setsWon: counts.won, setsLost: counts.lost, flipped };
+}
+
+export function formatSets(sets: SetScore[]) {
+  return sets.map((x) => `${x.us}-${x.them}`).join(", ");
+}
+
+export function pointTotals(sets: SetScore[]) {
+  return {
+    pointsFor: sets.reduce((n, x) => n + x.us, 0),
+    pointsAgainst: sets.reduce((n, x) => n + x.them, 0),
+  };
+}
+
+/** Third set of three / fifth of five, when it actually decided the match. */
+export function isDecidingSet(sets: SetScore[], index: number) {
+  if (index !== sets.length - 1 || (sets.length !== 3 && sets.length !== 5)) return false;
+  const c = countSets(sets);
+  return Math.abs(c.won - c.lost) === 1;
+}
+
+// From the set's place in the format, not its score: an extended 22-20 fifth set was still played to 15.
+// A 3-0 sweep reaches three wins, so it was best-of-5 and its third set was to 25.
+function setTarget(sets: SetScore[], index: number) {
+  const c = countSets(sets);
+  const finalOfFormat = (sets.length === 3 && index === 2 && Math.max(c.won, c.lost) === 2) || (sets.length === 5 && index === 4);
+  return finalOfFormat ? 15 : 25;
+}
+
+/** Went past the target (26-24, 16-14): both teams reached game point. */
+export function isDeuceSet(sets: SetScore[], index: number) {
+  const s = sets[index];
+  return Math.max(s.us, s.them) > setTarget(sets, index) && Math.abs(s.us - s.them) === 2;
+}
+
+/** Stored set_scores when present; otherwise parse the score text (rows imported before set_scores existed). */
+export function matchSets(m: { score: string | null; result: string | null; set_scores?: any }): SetScore[] | null {
+  if (Array.isArray(m.set_scores) && m.set_scores.length) {
+    return m.set_scores.map((x: any) => ({ us: Number(x?.us) || 0, them: Number(x?.them) || 0 }));
+  }
+  const r = m.result === "W" || m.result === "L" ? m.result : null;
+  const parsed = parseScore(m.score, r);
+  return parsed?.ok && parsed.sets ? parsed.sets : null;
+}
+
+/** sets_won/sets_lost columns when filled in, else derived from the score. null = unknown. */
+export function matchSetCounts(m: {
+  score: string | null;
+  result: string | null;
+  set_scores?: any;
+  sets_won: number | null;
+  sets_lost: number | null;
+}) {
+  if (typeof m.sets_won === "number" && typeof m.sets_lost === "number") return { won: m.sets_won, lost: m.sets_lost };
+  const sets = matchSets(m);
+  if (sets) return countSets(sets);
+  // Bare set counts ("2-1") have no per-set scores
+  const r = m.result === "W" || m.result === "L" ? m.result : null;
+  const parsed = parseScore(m.score, r);
+  return parsed?.ok ? { won: parsed.setsWon, lost: parsed.setsLost } : null;
+}
+
+export function computeSetRecord(matchesSets: SetScore[][]): SetRecord {
+  const out: SetRecord = {
+    matchesWithScores: 0,
+    setsPlayed: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDiff: 0,
+    decidingSets: { won: 0, lost: 0 },
+    deuceSets: { won: 0, lost: 0 },
+  };
+
+  for (const sets of matchesSets) {
+    if (!sets.length) continue;
+    out.matchesWithScores += 1;
+    out.setsPlayed += sets.length;
+    const t = pointTotals(sets);
+    out.pointsFor += t.pointsFor;
+    out.pointsAgainst += t.pointsAgainst;
+
+    sets.forEach((x, i) => {
+      const won = x.us > x.them;
+      if (isDecidingSet(sets, i)) out.decidingSets[won ? "won" : "lost"] += 1;
+      if (isDeuceSet(sets, i)) out.deuceSets[won ? "won" : "lost"] += 1;
+    });
+  }
+
+  out.pointDiff = out.pointsFor - out.pointsAgainst;
+  return out;
+}
@@ -1,7 +1,47 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Cookie that mirrors the Supabase access token so server components and API routes can see the session.
+ * (supabase-js keeps the session in localStorage, which the server never sees.)
+ */
+export const ACCESS_TOKEN_COOKIE = "mvvc-access-token";
+
+let client: SupabaseClient | null = null;
+
+function writeTokenCookie(token: string | null, expiresIn?: number) {
+  if (typeof document === "undefined") return;
+  if (!token) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0; samesite=lax`;
+    return;
+  }
+  const maxAge = Math.max(60, Math.floor(expiresIn ?? 3600));
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${encodeURIComponent(token)}; path=/; max-age=${maxAge}; samesite=lax`;
+}
 
 export function supabaseBrowser() {
+  if (client) return client;
+
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-  return createClient(url, anon);
+  client = createClient(url, anon);
+
+  // Keep the cookie in sync on sign-in, sign-out and token refresh
+  client.auth.onAuthStateChange((_event, session) => {
+    writeTokenCookie(session?.access_token ?? null, session?.expires_in);
+  });
+
+  return client;
+}
+
+/** Current session (or null). Also refreshes the token cookie. */
+export async function getBrowserSession() {
+  const { data } = await supabaseBrowser().auth.getSession();
+  const session = data?.session ?? null;
+  writeTokenCookie(session?.access_token ?? null, session?.expires_in);
+  return session;
+}
+
+export async function signOut() {
+  await supabaseBrowser().auth.signOut();
+  writeTokenCookie(null);
 }
@@ -16,3 +16,11 @@ export function supabaseService() {
     auth: { persistSession: false },
   });
 }
+
+// Postgres rejects a malformed uuid with an error (22P02) rather than matching nothing, so ids from a URL
+// or request body are checked first and a bad one is treated as not found
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(id: string) {
+  return UUID_RE.test(id);
+}
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Team + season context.
+ * Every route and page resolves one of these instead of hardcoding a team id or date window.
+ * Season windows live in `team_seasons` (see supabase/schema.sql).
+ */
+
+export type SeasonKey = "fall" | "spring" | "summer";
+
+export type TeamRow = {
+  id: string;
+  name: string;
+};
+
+export type SeasonRow = {
+  id: string;
+  team_id: string;
+  season: SeasonKey;
+  label: string;
+  start_date: string; // YYYY-MM-DD (inclusive)
+  end_date: string; // YYYY-MM-DD (exclusive)
+};
+
+export type TeamContext = {
+  team: TeamRow;
+  season: SeasonRow | null; // null = no seasons configured yet → no date window
+  seasons: SeasonRow[];
+};
+
+export async function listTeams(supabase: SupabaseClient): Promise<TeamRow[]> {
+  const { data, error } = await supabase.from("teams").select("id,name").order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as TeamRow[];
+}
+
+export async function listSeasons(supabase: SupabaseClient, teamId: string): Promise<SeasonRow[]> {
+  const { data, error } = await supabase
+    .from("team_seasons")
+    .select("id,team_id,season,label,start_date,end_date")
+    .eq("team_id", teamId)
+    .order("start_date", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as SeasonRow[];
+}
+
+function todayIso() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Current season if today falls inside one, otherwise the most recent by start date.
+export function defaultSeason(seasons: SeasonRow[]): SeasonRow | null {
+  const today = todayIso();
+  const current = seasons.find((x) => x.start_date <= today && today < x.end_date);
+  if (current) return current;
+  const sorted = seasons.slice().sort((a, b) => b.start_date.localeCompare(a.start_date));
+  return sorted[0] ?? null;
+}
+
+/**
+ * Resolve the active team + season.
+ * - Unknown/missing teamId → first team (by name) when `fallbackToFirst` is set, otherwise null.
+ * - Unknown/missing seasonId (or one belonging to another team) → defaultSeason().
+ */
+export async function resolveTeamContext(
+  supabase: SupabaseClient,
+  opts: { teamId?: string | null; seasonId?: string | null; teams?: TeamRow[]; fallbackToFirst?: boolean }
+): Promise<TeamContext | null> {
+  const teams = opts.teams ?? (await listTeams(supabase));
+  const wanted = (opts.teamId ?? "").trim();
+
+  let team = wanted ? teams.find((t) => t.id === wanted) ?? null : null;
+  if (!team && (!wanted || opts.fallbackToFirst)) team = teams[0] ?? null;
+  if (!team) return null;
+
+  const seasons = await listSeasons(supabase, team.id);
+  const seasonId = (opts.seasonId ?? "").trim();
+  const season = (seasonId && seasons.find((x) => x.id === seasonId)) || defaultSeason(seasons);
+
+  return { team, season, seasons };
+}
+
+/**
+ * Apply the season date window to a query on a dated column (match_date / game_date).
+ * No season → no filter (all dates for the team).
+ */
+export function withSeasonWindow<Q extends { gte: (c: string, v: string) => Q; lt: (c: string, v: string) => Q }>(
+  query: Q,
+  column: string,
+  season: SeasonRow | null
+): Q {
+  if (!season) return query;
+  return query.gte(column, season.start_date).lt(column, season.end_date);
+}
+
+export function seasonLabel(season: SeasonRow | null) {
+  return season ? season.label : "All dates";
+}
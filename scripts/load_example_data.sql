@@ -4,6 +4,12 @@
 -- Insert a team (or create via Supabase UI)
 -- insert into teams(name) values ('MVVC 14 Black') returning id;
 
+-- Season windows (end_date is exclusive):
+-- insert into team_seasons(team_id, season, label, start_date, end_date)
+-- values
+-- ('TEAM_ID','fall','2025-26 Fall','2025-08-01','2026-01-01'),
+-- ('TEAM_ID','spring','2025-26 Spring','2026-01-01','2026-08-01');
+
 -- Knowledge chunk example:
 -- insert into knowledge_chunks(team_id, season, title, content, tags)
 -- values (
@@ -17,6 +17,21 @@ create table if not exists team_members (
   primary key (team_id, user_id)
 );
 
+-- Season windows per team (drives every date filter in the app)
+-- end_date is exclusive, e.g. fall 2025: 2025-08-01 → 2026-01-01
+create table if not exists team_seasons (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references teams(id) on delete cascade,
+  season text not null check (season in ('fall','spring','summer')),
+  label text not null,
+  start_date date not null,
+  end_date date not null,
+  created_at timestamptz not null default now(),
+  check (start_date < end_date)
+);
+
+create index if not exists team_seasons_team_idx on team_seasons(team_id, start_date);
+
 -- Season context and narrative rules as chunks (markdown is fine)
 create table if not exists knowledge_chunks (
   id bigserial primary key,
@@ -34,6 +49,24 @@ create table if not exists knowledge_chunks (
 create index if not exists knowledge_chunks_tsv_idx on knowledge_chunks using gin(tsv);
 create index if not exists knowledge_chunks_team_season_idx on knowledge_chunks(team_id, season);
 
+-- Full-text ranked retrieval for chat.
+-- Question terms are OR'ed (plainto_tsquery would AND them, which rarely matches a whole question).
+create or replace function match_knowledge_chunks(p_team_id uuid, p_season text, p_query text, p_limit int default 5)
+returns table (id bigint, title text, content text, tags text[], season text, rank real)
+language sql stable as $$
+  with q as (
+    select nullif(replace(plainto_tsquery('english', unaccent(coalesce(p_query, '')))::text, ' & ', ' | '), '') as qtext
+  )
+  select k.id, k.title, k.content, k.tags, k.season, ts_rank(k.tsv, q.qtext::tsquery) as rank
+  from knowledge_chunks k, q
+  where q.qtext is not null
+    and k.team_id = p_team_id
+    and (p_season is null or k.season = p_season)
+    and k.tsv @@ q.qtext::tsquery
+  order by rank desc, k.created_at desc
+  limit greatest(1, least(coalesce(p_limit, 5), 20));
+$$;
+
 -- Precomputed metrics (the AI should not compute from raw CSV in MVP)
 create table if not exists player_metrics (
   id bigserial primary key,
@@ -50,6 +83,347 @@ create table if not exists player_metrics (
 create index if not exists player_metrics_lookup_idx
   on player_metrics(team_id, season, player_name, metric_key);
 
+create index if not exists team_members_user_idx on team_members(user_id);
+
+-- Match-level results (one row per match), imported from CSV
+create table if not exists match_results (
+  id bigserial primary key,
+  team_id uuid references teams(id) on delete cascade,
+  match_date date,
+  tournament text,
+  round text,
+  opponent text not null,
+  result text check (result in ('W','L')),
+  score text,
+  sets_won int,
+  sets_lost int,
+  set_diff int,
+  match_win int,
+  match_loss int,
+  created_at timestamptz not null default now()
+);
+
+-- Parsed from score at import, our points first: [{"us":25,"them":21},{"us":22,"them":25},...]
+-- Null when the score is missing or only a set count ("2-1").
+alter table match_results add column if not exists set_scores jsonb;
+alter table match_results add column if not exists points_for int;
+alter table match_results add column if not exists points_against int;
+
+-- Box-score rows (one per player per match), imported from CSV; vendor columns live in stats
+create table if not exists player_game_stats (
+  id bigserial primary key,
+  team_id uuid references teams(id) on delete cascade,
+  season text check (season in ('fall','spring','summer')),
+  game_date date,
+  opponent text,
+  source_file text,
+  player_name text not null,
+  position text,
+  stats jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- One row per CSV upload. Rows written by an upload point back at it, so it can be rolled back.
+create table if not exists import_batches (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references teams(id) on delete cascade,
+  import_type text not null check (import_type in ('match_results','player_game_stats')),
+  file_name text,
+  file_hash text not null, -- sha256 of the uploaded bytes
+  created_by uuid,
+  created_by_email text,
+  rows_parsed int not null default 0,
+  rows_written int not null default 0,
+  rows_rejected int not null default 0,
+  status text not null default 'pending' check (status in ('pending','committed','failed','rolled_back')),
+  error text,
+  created_at timestamptz not null default now(),
+  rolled_back_at timestamptz,
+  rolled_back_by uuid
+);
+
+create index if not exists import_batches_team_idx on import_batches(team_id, created_at desc);
+create index if not exists import_batches_hash_idx on import_batches(team_id, file_hash);
+
+alter table match_results add column if not exists import_batch_id uuid references import_batches(id) on delete set null;
+alter table player_game_stats add column if not exists import_batch_id uuid references import_batches(id) on delete set null;
+
+-- Natural keys: re-uploading a row updates it instead of duplicating it.
+-- If earlier uploads already duplicated rows, remove the extras first (keeps the newest), e.g.:
+--   delete from match_results a using match_results b
+--   where a.team_id = b.team_id and a.match_date is not distinct from b.match_date
+--     and a.opponent = b.opponent and a.round is not distinct from b.round and a.id < b.id;
+create unique index if not exists match_results_natural_key
+  on match_results(team_id, match_date, opponent, round) nulls not distinct;
+create unique index if not exists player_game_stats_natural_key
+  on player_game_stats(team_id, game_date, opponent, player_name) nulls not distinct;
+
+-- Saved column mappings for player-stats exports (built-in profiles live in lib/importProfiles.ts).
+-- columns: {"Vendor Header": "attack_kills", "Athlete": "player_name", "Notes": ""} ("" = ignore)
+-- team_id null = shared by every team in the club.
+create table if not exists import_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid references teams(id) on delete cascade,
+  name text not null,
+  source text not null default '',
+  columns jsonb not null,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists import_mapping_profiles_team_idx on import_mapping_profiles(team_id);
+
+-- Validated rows are staged here in chunks, then moved into the real tables by commit_import_batch
+-- in a single transaction: an upload lands completely or not at all.
+create table if not exists import_staging (
+  id bigserial primary key,
+  batch_id uuid not null references import_batches(id) on delete cascade,
+  line int not null, -- CSV line, for error messages
+  payload jsonb not null
+);
+
+create index if not exists import_staging_batch_idx on import_staging(batch_id);
+
+-- Play-by-play: one row per rally. rotation is ours (1–6, as the stat sheet numbers it); null = not recorded.
+-- outcome codes live in lib/rallies.ts (ace, serve_error, kill, attack_error, blocked, block, ...).
+create table if not exists rallies (
+  id bigserial primary key,
+  team_id uuid references teams(id) on delete cascade,
+  match_date date,
+  opponent text not null,
+  set_number int not null check (set_number between 1 and 5),
+  rally_number int not null check (rally_number > 0),
+  serving_team text not null check (serving_team in ('us','them')),
+  rotation int check (rotation between 1 and 6),
+  server text,
+  point_winner text not null check (point_winner in ('us','them')),
+  terminal_skill text,
+  terminal_player text,
+  outcome text,
+  import_batch_id uuid references import_batches(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists rallies_natural_key
+  on rallies(team_id, match_date, opponent, set_number, rally_number) nulls not distinct;
+
+alter table import_batches drop constraint if exists import_batches_import_type_check;
+alter table import_batches add constraint import_batches_import_type_check
+  check (import_type in ('match_results','player_game_stats','rallies'));
+
+-- Versions an upload overwrote (upsert on a natural key), so rolling it back can put them back,
+-- pointing at the upload that wrote them, instead of losing that earlier upload's data.
+create table if not exists import_row_history (
+  id bigserial primary key,
+  batch_id uuid not null references import_batches(id) on delete cascade, -- the upload that overwrote
+  table_name text not null check (table_name in ('match_results','player_game_stats','rallies')),
+  row_id bigint not null,
+  previous jsonb not null -- to_jsonb of the row as it was
+);
+
+create index if not exists import_row_history_batch_idx on import_row_history(batch_id);
+create index if not exists import_row_history_row_idx on import_row_history(table_name, row_id);
+
+create or replace function commit_import_batch(p_batch_id uuid)
+returns int
+language plpgsql as $$
+declare
+  v_type text;
+  v_status text;
+  v_count int;
+begin
+  select import_type, status into v_type, v_status from import_batches where id = p_batch_id for update;
+  if v_type is null then raise exception 'import batch % not found', p_batch_id; end if;
+  if v_status <> 'pending' then raise exception 'import batch % is %, not pending', p_batch_id, v_status; end if;
+
+  if v_type = 'match_results' then
+    insert into import_row_history (batch_id, table_name, row_id, previous)
+    select p_batch_id, 'match_results', m.id, to_jsonb(m)
+    from match_results m
+    where exists (
+      select 1 from import_staging st, jsonb_populate_record(null::match_results, st.payload) r
+      where st.batch_id = p_batch_id
+        and m.team_id is not distinct from r.team_id and m.match_date is not distinct from r.match_date
+        and m.opponent = r.opponent and m.round is not distinct from r.round
+    );
+
+    insert into match_results (
+      team_id, match_date, tournament, round, opponent, result, score,
+      sets_won, sets_lost, set_diff, match_win, match_loss, set_scores, points_for, points_against, import_batch_id
+    )
+    select r.team_id, r.match_date, r.tournament, r.round, r.opponent, r.result, r.score,
+           r.sets_won, r.sets_lost, r.set_diff, r.match_win, r.match_loss,
+           r.set_scores, r.points_for, r.points_against, p_batch_id
+    from import_staging st, jsonb_populate_record(null::match_results, st.payload) r
+    where st.batch_id = p_batch_id
+    order by st.line
+    on conflict (team_id, match_date, opponent, round) do update set
+      tournament = excluded.tournament,
+      result = excluded.result,
+      score = excluded.score,
+      sets_won = excluded.sets_won,
+      sets_lost = excluded.sets_lost,
+      set_diff = excluded.set_diff,
+      match_win = excluded.match_win,
+      match_loss = excluded.match_loss,
+      set_scores = excluded.set_scores,
+      points_for = excluded.points_for,
+      points_against = excluded.points_against,
+      import_batch_id = excluded.import_batch_id;
+  elsif v_type = 'rallies' then
+    insert into import_row_history (batch_id, table_name, row_id, previous)
+    select p_batch_id, 'rallies', x.id, to_jsonb(x)
+    from rallies x
+    where exists (
+      select 1 from import_staging st, jsonb_populate_record(null::rallies, st.payload) r
+      where st.batch_id = p_batch_id
+        and x.team_id is not distinct from r.team_id and x.match_date is not distinct from r.match_date
+        and x.opponent = r.opponent and x.set_number = r.set_number and x.rally_number = r.rally_number
+    );
+
+    insert into rallies (
+      team_id, match_date, opponent, set_number, rally_number, serving_team, rotation, server,
+      point_winner, terminal_skill, terminal_player, outcome, import_batch_id
+    )
+    select r.team_id, r.match_date, r.opponent, r.set_number, r.rally_number, r.serving_team, r.rotation, r.server,
+           r.point_winner, r.terminal_skill, r.terminal_player, r.outcome, p_batch_id
+    from import_staging st, jsonb_populate_record(null::rallies, st.payload) r
+    where st.batch_id = p_batch_id
+    order by st.line
+    on conflict (team_id, match_date, opponent, set_number, rally_number) do update set
+      serving_team = excluded.serving_team,
+      rotation = excluded.rotation,
+      server = excluded.server,
+      point_winner = excluded.point_winner,
+      terminal_skill = excluded.terminal_skill,
+      terminal_player = excluded.terminal_player,
+      outcome = excluded.outcome,
+      import_batch_id = excluded.import_batch_id;
+  else
+    insert into import_row_history (batch_id, table_name, row_id, previous)
+    select p_batch_id, 'player_game_stats', g.id, to_jsonb(g)
+    from player_game_stats g
+    where exists (
+      select 1 from import_staging st, jsonb_populate_record(null::player_game_stats, st.payload) r
+      where st.batch_id = p_batch_id
+        and g.team_id is not distinct from r.team_id and g.game_date is not distinct from r.game_date
+        and g.opponent is not distinct from r.opponent and g.player_name = r.player_name
+    );
+
+    insert into player_game_stats (
+      team_id, season, game_date, opponent, source_file, player_name, position, stats, import_batch_id
+    )
+    select r.team_id, r.season, r.game_date, r.opponent, r.source_file, r.player_name, r.position,
+           coalesce(r.stats, '{}'::jsonb), p_batch_id
+    from import_staging st, jsonb_populate_record(null::player_game_stats, st.payload) r
+    where st.batch_id = p_batch_id
+    order by st.line
+    on conflict (team_id, game_date, opponent, player_name) do update set
+      season = excluded.season,
+      source_file = excluded.source_file,
+      position = excluded.position,
+      stats = excluded.stats,
+      import_batch_id = excluded.import_batch_id;
+  end if;
+  get diagnostics v_count = row_count;
+
+  delete from import_staging where batch_id = p_batch_id;
+  update import_batches set status = 'committed', rows_written = v_count where id = p_batch_id;
+  return v_count;
+end;
+$$;
+
+-- Undo an upload (one transaction): rows it inserted are removed, rows it overwrote get their previous
+-- version back from import_row_history (still pointing at the earlier upload). Later uploads that
+-- overwrote this one's rows fall back to what this one overwrote, so undoing them stays correct.
+-- The return columns grew (rally_rows, restored_rows); Postgres can't change them in place
+drop function if exists rollback_import_batch(uuid, uuid);
+create or replace function rollback_import_batch(p_batch_id uuid, p_user_id uuid)
+returns table (match_rows int, player_rows int, rally_rows int, restored_rows int)
+language plpgsql as $$
+declare
+  v_status text;
+  v_match int;
+  v_player int;
+  v_rally int;
+  v_restored_match int;
+  v_restored_player int;
+  v_restored_rally int;
+begin
+  select status into v_status from import_batches where id = p_batch_id for update;
+  if v_status is null then raise exception 'import batch % not found', p_batch_id; end if;
+  if v_status = 'rolled_back' then raise exception 'import batch % is already rolled back', p_batch_id; end if;
+
+  delete from match_results where import_batch_id = p_batch_id;
+  get diagnostics v_match = row_count;
+  delete from player_game_stats where import_batch_id = p_batch_id;
+  get diagnostics v_player = row_count;
+  delete from rallies where import_batch_id = p_batch_id;
+  get diagnostics v_rally = row_count;
+
+  -- Same ids, so later history rows keep pointing at the right row. Rows a later upload has since
+  -- overwritten were not deleted above and stay as they are.
+  insert into match_results
+  select r.* from import_row_history h, jsonb_populate_record(null::match_results, h.previous) r
+  where h.batch_id = p_batch_id and h.table_name = 'match_results'
+    and not exists (select 1 from match_results cur where cur.id = r.id);
+  get diagnostics v_restored_match = row_count;
+  insert into player_game_stats
+  select r.* from import_row_history h, jsonb_populate_record(null::player_game_stats, h.previous) r
+  where h.batch_id = p_batch_id and h.table_name = 'player_game_stats'
+    and not exists (select 1 from player_game_stats cur where cur.id = r.id);
+  get diagnostics v_restored_player = row_count;
+  insert into rallies
+  select r.* from import_row_history h, jsonb_populate_record(null::rallies, h.previous) r
+  where h.batch_id = p_batch_id and h.table_name = 'rallies'
+    and not exists (select 1 from rallies cur where cur.id = r.id);
+  get diagnostics v_restored_rally = row_count;
+
+  update import_row_history later
+    set previous = mine.previous
+    from import_row_history mine
+    where mine.batch_id = p_batch_id and later.batch_id <> p_batch_id
+      and later.table_name = mine.table_name and later.row_id = mine.row_id
+      and later.previous->>'import_batch_id' = p_batch_id::text;
+  -- Rows this upload inserted fresh: undoing the later upload now removes them
+  delete from import_row_history
+    where batch_id <> p_batch_id and previous->>'import_batch_id' = p_batch_id::text;
+  delete from import_row_history where batch_id = p_batch_id;
+
+  update import_batches
+    set status = 'rolled_back', rolled_back_at = now(), rolled_back_by = p_user_id
+    where id = p_batch_id;
+
+  return query select v_match - v_restored_match, v_player - v_restored_player, v_rally - v_restored_rally,
+    v_restored_match + v_restored_player + v_restored_rally;
+end;
+$$;
+
+-- Saved chat conversations: one coach, one team per thread. Recent turns are sent back to the model.
+create table if not exists chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references teams(id) on delete cascade,
+  user_id uuid not null,
+  season_id uuid references team_seasons(id) on delete set null, -- season picked when the thread started
+  title text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_user_team_idx on chat_threads(user_id, team_id, updated_at desc);
+
+create table if not exists chat_messages (
+  id bigserial primary key,
+  thread_id uuid not null references chat_threads(id) on delete cascade,
+  role text not null check (role in ('user','assistant')),
+  content text not null,
+  source text, -- answers: provider name ('openai', 'openai-compatible', 'scripted') or 'fallback'
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_thread_idx on chat_messages(thread_id, id);
+
 -- Row-level security suggestions:
--- For MVP, you can leave RLS off and rely on server-side service role in API route.
--- For production, enable RLS and add policies restricting by team_members.
+-- API routes and server pages read with the service role, after checking the signed-in user
+-- against team_members (lib/auth.ts). Imports require head_coach or director.
+-- For defense in depth, enable RLS and add policies restricting by team_members.